@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import * as XLSX from 'xlsx';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readStatementArchive, MAX_ARCHIVE_ENTRIES, MAX_ARCHIVE_ENTRY_BYTES } from '../src/archive';
+
+describe('Statement archive reader', () => {
+  const zipFilePath = path.join(os.tmpdir(), `amex-archive-${process.pid}.zip`);
+
+  // Write a ZIP of the given files, then let a test rewrite entry headers in the bytes
+  const writeZip = (files: Record<string, string>, patch?: (zip: Buffer) => void) => {
+    const container = XLSX.CFB.utils.cfb_new();
+    for (const [name, text] of Object.entries(files)) {
+      XLSX.CFB.utils.cfb_add(container, `/${name}`, Buffer.from(text));
+    }
+    const zip = Buffer.from(XLSX.CFB.write(container, { fileType: 'zip', type: 'buffer' }));
+    patch?.(zip);
+    fs.writeFileSync(zipFilePath, zip);
+  };
+
+  // Offset of the central directory header for the first entry
+  const centralHeader = (zip: Buffer) => zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+
+  afterEach(() => {
+    if (fs.existsSync(zipFilePath)) {
+      fs.unlinkSync(zipFilePath);
+    }
+  });
+
+  it('should list statement files, skipping hidden and macOS metadata entries', () => {
+    const container = XLSX.CFB.utils.cfb_new();
+    XLSX.CFB.utils.cfb_add(container, '/january.csv', Buffer.from('Date,Description,Amount\n'));
+    XLSX.CFB.utils.cfb_add(container, '/2024/february.ofx', Buffer.from('<OFX></OFX>'));
+    XLSX.CFB.utils.cfb_add(container, '/.DS_Store', Buffer.from('x'));
+    XLSX.CFB.utils.cfb_add(container, '/__MACOSX/._january.csv', Buffer.from('x'));
+    fs.writeFileSync(zipFilePath, XLSX.CFB.write(container, { fileType: 'zip', type: 'buffer' }));
+
+    const entries = readStatementArchive(zipFilePath);
+
+    expect(entries!.map((entry) => entry.name).sort()).to.deep.equal(['2024/february.ofx', 'january.csv']);
+    expect(entries!.find((entry) => entry.name === 'january.csv')!.read().toString()).to.equal(
+      'Date,Description,Amount\n',
+    );
+  });
+
+  it('should refuse archives with too many files', () => {
+    const files: Record<string, string> = {};
+    for (let i = 0; i <= MAX_ARCHIVE_ENTRIES; i++) {
+      files[`statement-${i}.csv`] = 'Date,Description,Amount\n';
+    }
+    writeZip(files);
+
+    expect(() => readStatementArchive(zipFilePath)).to.throw(`at most ${MAX_ARCHIVE_ENTRIES}`);
+  });
+
+  it('should refuse an entry whose uncompressed size is over the limit before inflating it', () => {
+    writeZip({ 'january.csv': 'Date,Description,Amount\n' }, (zip) => {
+      zip.writeUInt32LE(MAX_ARCHIVE_ENTRY_BYTES + 1, centralHeader(zip) + 24);
+    });
+
+    expect(() => readStatementArchive(zipFilePath)).to.throw('january.csv');
+  });
+
+  it('should stop inflating an entry at its recorded size', () => {
+    writeZip({ 'january.csv': 'Date,Description,Amount\n'.repeat(100) }, (zip) => {
+      zip.writeUInt32LE(10, centralHeader(zip) + 24);
+    });
+
+    const [entry] = readStatementArchive(zipFilePath)!;
+    expect(() => entry.read()).to.throw('larger than recorded');
+  });
+
+  it('should not treat XLSX workbooks as archives', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Date']]), 'Sheet1');
+    XLSX.writeFile(workbook, zipFilePath, { bookType: 'xlsx' });
+
+    expect(readStatementArchive(zipFilePath)).to.be.null;
+  });
+
+  it('should return null for non-ZIP files', () => {
+    fs.writeFileSync(zipFilePath, 'Date,Description,Amount\n');
+
+    expect(readStatementArchive(zipFilePath)).to.be.null;
+  });
+});
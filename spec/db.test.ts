@@ -6,12 +6,16 @@ import {
   transactionExists,
   getTransactionByReference,
   getTransactions,
+  getTransactionPage,
   getTransactionCount,
   deleteTransaction,
   batchInsertTransactions,
   insertImportLog,
   getImportLogs,
+  updateTransactionFields,
 } from '../src/db';
+import { toFtsQuery } from '../src/search';
+import type { AmExTransaction as StatementTransaction } from '../src/types/index';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -66,6 +70,80 @@ describe('Database Operations', () => {
     expect(transaction).to.not.be.null;
     expect(transaction?.description).to.equal('Test Transaction');
     expect(transaction?.amount).to.equal(100.5);
+    expect(transaction).to.include({ amount_minor: 10050, currency: 'AUD' });
+  });
+
+  it('should store typed foreign spend, commission and rate columns and keep them in step with edits', () => {
+    const transaction: StatementTransaction = {
+      date: '2025-10-05',
+      dateProcessed: '2025-10-06',
+      description: 'Hotel',
+      cardMember: 'John Doe',
+      accountNumber: '-11002',
+      amount: 2000,
+      currency: 'JPY',
+      foreignSpendAmount: '12.50 USD',
+      commission: '58',
+      exchangeRate: '160.0',
+      country: 'Japan',
+      appearsOnStatement: 'Hotel',
+      reference: 'REF001TEST0000FX01',
+    };
+
+    const inserted = insertTransaction(transaction);
+    expect(inserted).to.include({
+      amount: 2000,
+      amount_minor: 2000,
+      currency: 'JPY',
+      foreign_amount_minor: 1250,
+      foreign_currency: 'USD',
+      commission_minor: 58,
+      fx_rate: 160,
+    });
+
+    updateTransactionFields(inserted.id, [
+      { field: 'amount', oldValue: '2000', newValue: '2100' },
+      { field: 'foreign_spend_amount', oldValue: '12.50 USD', newValue: '13.00 USD' },
+    ]);
+
+    const updated = getTransactionByReference(transaction.reference);
+    expect(updated).to.include({ amount: 2100, amount_minor: 2100, foreign_amount_minor: 1300 });
+
+    deleteTransaction(inserted.id);
+  });
+
+  it('should keep the search index in step with inserts, edits and deletes', () => {
+    const search = (query: string) =>
+      getTransactions(50, 0, { search: toFtsQuery(query) as string }).map((t) => t.reference);
+
+    const inserted = insertTransaction({
+      date: '2025-10-05',
+      dateProcessed: '2025-10-06',
+      description: 'WOOLWORTHS 1234 SYDNEY',
+      cardMember: 'John Doe',
+      accountNumber: '-11002',
+      amount: 12.5,
+      additionalInformation: 'Groceries',
+      townCity: 'Parramatta',
+      country: 'Australia',
+      appearsOnStatement: 'WOOLWORTHS',
+      reference: 'REF001TEST000FTS01',
+    });
+
+    expect(search('woolw*')).to.deep.equal(['REF001TEST000FTS01']);
+    expect(search('"woolworths 1234"')).to.deep.equal(['REF001TEST000FTS01']);
+    expect(search('"1234 woolworths"')).to.be.empty;
+    expect(search('parramatta groceries')).to.deep.equal(['REF001TEST000FTS01']);
+    expect(getTransactionCount({ search: toFtsQuery('groceries') as string })).to.equal(1);
+
+    updateTransactionFields(inserted.id, [
+      { field: 'description', oldValue: 'WOOLWORTHS 1234 SYDNEY', newValue: 'ALDI STORES' },
+    ]);
+    expect(search('woolworths 1234')).to.be.empty;
+    expect(search('aldi')).to.deep.equal(['REF001TEST000FTS01']);
+
+    deleteTransaction(inserted.id);
+    expect(search('aldi')).to.be.empty;
   });
 
   it('should batch insert transactions', () => {
@@ -107,6 +185,64 @@ describe('Database Operations', () => {
     expect(transactions[0].reference).to.exist;
   });
 
+  it('should filter and sort transactions, counting the filtered set', () => {
+    const references = (...args: Parameters<typeof getTransactions>) =>
+      getTransactions(...args).map((t) => t.reference.slice(0, 6));
+
+    expect(references(10, 0)).to.deep.equal(['REF001', 'REF002', 'REF003']);
+    expect(references(10, 0, {}, { field: 'amount', direction: 'desc' })).to.deep.equal(['REF003', 'REF001', 'REF002']);
+    expect(references(10, 0, {}, { field: 'cardMember', direction: 'asc' })).to.deep.equal([
+      'REF003',
+      'REF002',
+      'REF001',
+    ]);
+
+    expect(references(10, 0, { accountNumber: '-11002' })).to.deep.equal(['REF001', 'REF003']);
+    expect(references(10, 0, { cardMember: 'jane doe' })).to.deep.equal(['REF002']);
+    expect(references(10, 0, { startDate: '2025-10-03', endDate: '2025-10-03' })).to.deep.equal(['REF002']);
+    expect(references(10, 0, { minAmount: 50.25, maxAmount: 100.5 })).to.deep.equal(['REF001', 'REF002']);
+    expect(references(10, 0, { country: 'australia', reconciled: false })).to.have.length(3);
+    expect(references(10, 0, { reconciled: true })).to.be.empty;
+    expect(references(10, 0, { importId: 1 })).to.be.empty;
+
+    expect(getTransactionCount({ accountNumber: '-11002', minAmount: 150 })).to.equal(1);
+    expect(references(1, 1, { accountNumber: '-11002' })).to.deep.equal(['REF003']);
+  });
+
+  it('should page through transactions by key, unaffected by rows inserted between pages', () => {
+    const first = getTransactionPage(1);
+    expect(first.transactions.map((t) => t.reference)).to.deep.equal(['REF001TEST00000001']);
+    expect(first.nextKey).to.deep.equal({ value: '2025-10-04', id: first.transactions[0].id });
+
+    // A newer row would shift an offset page back onto REF001
+    const newer = insertTransaction({
+      date: '2025-10-05',
+      dateProcessed: '2025-10-05',
+      description: 'Arrived between pages',
+      cardMember: 'John Doe',
+      accountNumber: '-11002',
+      amount: 10,
+      reference: 'REF004TEST00000004',
+    });
+
+    try {
+      const second = getTransactionPage(2, {}, undefined, first.nextKey);
+      expect(second.transactions.map((t) => t.reference)).to.deep.equal(['REF002TEST00000002', 'REF003TEST00000003']);
+      expect(second.nextKey).to.be.undefined;
+    } finally {
+      deleteTransaction(newer.id);
+    }
+
+    const byAmount = getTransactionPage(2, {}, { field: 'amount', direction: 'desc' });
+    const rest = getTransactionPage(2, {}, { field: 'amount', direction: 'desc' }, byAmount.nextKey);
+    expect([...byAmount.transactions, ...rest.transactions].map((t) => t.reference.slice(0, 6))).to.deep.equal([
+      'REF003',
+      'REF001',
+      'REF002',
+    ]);
+    expect(rest.nextKey).to.be.undefined;
+  });
+
   it('should delete transaction by id', () => {
     const transaction = getTransactionByReference('REF001TEST00000001');
     if (transaction) {
@@ -0,0 +1,126 @@
+import { expect } from 'chai';
+import { resubmitFailedRows } from '../src/services/failedRowService';
+import { importAmExStatementSync, rollbackImport } from '../src/services/importService';
+import {
+  initializeDatabase,
+  closeDatabase,
+  getFailedRows,
+  getImportLogById,
+  getImportLogs,
+  getTransactionByReference,
+} from '../src/db';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('Failed Row Service', () => {
+  const testDbPath = path.join(__dirname, '..', 'db', 'test-failed-rows.db');
+  const csvFilePath = path.join(__dirname, '..', 'db', 'test-failed-rows.csv');
+  const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+
+  beforeEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    initializeDatabase(testDbPath);
+
+    fs.writeFileSync(
+      csvFilePath,
+      header +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,FAILEDROWTEST0001\n' +
+        '05/10/2025,05/10/2025,WOOLWORTHS,JOHN DOE,-11002,N/A,FAILEDROWTEST0002\n' +
+        '06/10/2025,06/10/2025,ALDI,JOHN DOE,-11002,8.00,FAILED-ROW-TEST-3\n',
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    [testDbPath, csvFilePath].forEach((filePath) => {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    });
+  });
+
+  it('should keep parse and validation failures with their values', () => {
+    importAmExStatementSync(csvFilePath);
+    const [log] = getImportLogs(1, 0);
+
+    const rows = getFailedRows(log.id);
+
+    expect(log.failedRowCount).to.equal(2);
+    // Both stages number rows by their line in the file
+    expect(rows.map((row) => row.stage)).to.deep.equal(['parse', 'validation']);
+    expect(rows[0]).to.deep.include({ rowNumber: 3, errors: ['Row 3: Invalid amount format "N/A"'] });
+    expect(rows[0].values).to.include({ description: 'WOOLWORTHS', amount: 'N/A', reference: 'FAILEDROWTEST0002' });
+    expect(rows[1]).to.deep.include({
+      rowNumber: 4,
+      errors: ['Row 4: Reference must contain only alphanumeric characters'],
+    });
+    expect(rows[1].values).to.include({ date: '2025-10-06', amount: '8', reference: 'FAILED-ROW-TEST-3' });
+  });
+
+  it('should import corrected rows under the original import', () => {
+    importAmExStatementSync(csvFilePath);
+    const [log] = getImportLogs(1, 0);
+    const [unparsedRow, invalidRow] = getFailedRows(log.id);
+
+    const result = resubmitFailedRows(log.id, [
+      { id: unparsedRow.id, values: { ...unparsedRow.values, amount: '12.00' } },
+      { id: invalidRow.id, values: { ...invalidRow.values, reference: 'FAILEDROWTEST0003' } },
+    ]);
+
+    expect(result).to.include({ success: true, totalRecords: 2, importedRecords: 2, skippedRecords: 0 });
+    expect(result.rows.map((row) => row.resolvedReference)).to.deep.equal(['FAILEDROWTEST0002', 'FAILEDROWTEST0003']);
+    expect(getTransactionByReference('FAILEDROWTEST0002')).to.include({ amount: 12, import_id: log.id });
+    expect(getImportLogById(log.id)).to.include({ importedRecords: 3, failedRowCount: 0 });
+
+    // Rolling the import back removes the resubmitted rows too
+    expect(rollbackImport(log.id).deletedRecords).to.equal(3);
+  });
+
+  it('should give a corrected row without a reference its own reference among identical rows', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,\n' +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,N/A,\n',
+    );
+    importAmExStatementSync(csvFilePath);
+    const [log] = getImportLogs(1, 0);
+    const [row] = getFailedRows(log.id);
+
+    const result = resubmitFailedRows(log.id, [{ id: row.id, values: { ...row.values, amount: '45.10' } }]);
+
+    expect(result).to.include({ importedRecords: 1, skippedRecords: 0 });
+    expect(result.rows[0].resolvedReference).to.match(/^FP/);
+    expect(getImportLogById(log.id)).to.include({ importedRecords: 2, failedRowCount: 0 });
+  });
+
+  it('should keep rows that still fail with the submitted values and new errors', () => {
+    importAmExStatementSync(csvFilePath);
+    const [log] = getImportLogs(1, 0);
+    const [unparsedRow, invalidRow] = getFailedRows(log.id);
+
+    const result = resubmitFailedRows(log.id, [
+      { id: unparsedRow.id, values: { ...unparsedRow.values, amount: 'twelve' } },
+      { id: invalidRow.id, values: { ...invalidRow.values, reference: 'FAILEDROWTEST0001' } },
+    ]);
+
+    expect(result).to.include({ success: false, importedRecords: 0, skippedRecords: 2 });
+    expect(result.errors.map((err) => err.error)).to.deep.equal([
+      'Row 3: Invalid amount format "twelve"',
+      'Duplicate reference skipped: FAILEDROWTEST0001',
+    ]);
+    expect(result.rows[0]).to.deep.include({ errors: ['Row 3: Invalid amount format "twelve"'] });
+    expect(result.rows[0].values.amount).to.equal('twelve');
+    expect(result.rows[0].resolvedAt).to.be.undefined;
+    expect(getImportLogById(log.id)!.failedRowCount).to.equal(2);
+  });
+
+  it('should not keep failed rows for dry runs', () => {
+    importAmExStatementSync(csvFilePath, { dryRun: true });
+    const [log] = getImportLogs(1, 0);
+
+    expect(getFailedRows(log.id)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,22 @@
+import { expect } from 'chai';
+import { parseDecimal, parseForeignSpend } from '../src/fx';
+
+describe('Foreign Exchange Parsing', () => {
+  it('should parse decimals with separators, symbols and codes', () => {
+    expect(parseDecimal('1,234.56')).to.equal(1234.56);
+    expect(parseDecimal('$0.45')).to.equal(0.45);
+    expect(parseDecimal('-12.5 EUR')).to.equal(-12.5);
+    expect(parseDecimal('')).to.be.null;
+    expect(parseDecimal('N/A')).to.be.null;
+  });
+
+  it('should parse the foreign amount and currency in each layout', () => {
+    expect(parseForeignSpend('12.50 USD')).to.deep.equal({ amount: 12.5, currency: 'USD' });
+    expect(parseForeignSpend('EUR 1,000.00')).to.deep.equal({ amount: 1000, currency: 'EUR' });
+    expect(parseForeignSpend('12.50 UNITED STATES DOLLARS')).to.deep.equal({ amount: 12.5, currency: 'USD' });
+    expect(parseForeignSpend('3,400 Japanese Yen')).to.deep.equal({ amount: 3400, currency: 'JPY' });
+    expect(parseForeignSpend('45.00')).to.deep.equal({ amount: 45 });
+    expect(parseForeignSpend('20.00 ZORKMIDS')).to.deep.equal({ amount: 20 });
+    expect(parseForeignSpend(undefined)).to.be.null;
+  });
+});
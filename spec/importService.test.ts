@@ -1,6 +1,21 @@
 import { expect } from 'chai';
-import { importAmExStatementSync } from '../src/services/importService';
-import { initializeDatabase, closeDatabase, getTransactionCount, deleteTransaction, getTransactions } from '../src/db';
+import { importAmExStatementSync, importStatementArchive, rollbackImport } from '../src/services/importService';
+import {
+  initializeDatabase,
+  closeDatabase,
+  getTransactionCount,
+  deleteTransaction,
+  getTransactions,
+  getImportLogs,
+  getTransactionByReference,
+  markTransactionReconciled,
+  getTransactionChanges,
+  insertMappingProfile,
+} from '../src/db';
+import { updateGlobalRuleSettings } from '../src/services/ruleService';
+import { getRulesetVersion } from '../src/validator';
+import type { ImportProgress } from '../src/types/index';
+import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -37,6 +52,7 @@ describe('Import Service', () => {
       'skippedRecords',
       'errors',
       'timestamp',
+      'source',
     );
     expect(result.success).to.be.true;
     expect(result.totalRecords).to.equal(164);
@@ -51,8 +67,8 @@ describe('Import Service', () => {
     expect(result1.importedRecords).to.equal(164);
     expect(getTransactionCount()).to.equal(164);
 
-    // Second import (should skip all)
-    const result2 = importAmExStatementSync(testFilePath);
+    // Second import of the same file, forced past the file-hash check (should skip all)
+    const result2 = importAmExStatementSync(testFilePath, { force: true });
     expect(result2.importedRecords).to.equal(0);
     expect(result2.skippedRecords).to.equal(164);
     expect(result2.errors.filter((e) => e.error.includes('Duplicate')).length).to.equal(164);
@@ -104,6 +120,568 @@ describe('Import Service', () => {
     expect(result.errors[0].error).to.include('XLSX');
   });
 
+  it('should import AmEx CSV statement', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import.csv');
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Appears On Your Statement As,Country,Reference\n' +
+        '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,45.10,COLES 0123,AUSTRALIA,AT252780012000010012345\n' +
+        '06/10/2025,06/10/2025,PAYMENT RECEIVED,JOHN DOE,-11002,-500.00,PAYMENT,,AT252790012000010012346\n',
+    );
+
+    try {
+      const result1 = importAmExStatementSync(csvFilePath);
+      expect(result1.success).to.be.true;
+      expect(result1.importedRecords).to.equal(2);
+      expect(result1.source).to.deep.equal({ parser: 'amex-csv', worksheet: undefined, headerRow: 1 });
+
+      const result2 = importAmExStatementSync(csvFilePath, { force: true });
+      expect(result2.importedRecords).to.equal(0);
+      expect(result2.skippedRecords).to.equal(2);
+      expect(getTransactionCount()).to.equal(2);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should re-import statements without references idempotently', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-noref.csv');
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount\n' +
+        '04/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50\n' +
+        '04/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50\n',
+    );
+
+    try {
+      const result1 = importAmExStatementSync(csvFilePath);
+      expect(result1.importedRecords).to.equal(2);
+
+      const result2 = importAmExStatementSync(csvFilePath, { force: true });
+      expect(result2.importedRecords).to.equal(0);
+      expect(result2.skippedRecords).to.equal(2);
+      expect(getTransactionCount()).to.equal(2);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should skip a file that was already imported unless forced', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-repeat.csv');
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,REPEATTEST0000001\n',
+    );
+
+    try {
+      expect(importAmExStatementSync(csvFilePath, { dryRun: true }).importedRecords).to.equal(1);
+      const first = importAmExStatementSync(csvFilePath);
+      expect(first.importedRecords).to.equal(1);
+      const [firstLog, dryRunLog] = getImportLogs(2, 0);
+      expect(firstLog.fileHash).to.match(/^[0-9a-f]{64}$/);
+      expect(dryRunLog.fileHash).to.be.undefined;
+
+      const repeat = importAmExStatementSync(csvFilePath);
+      expect(repeat.success).to.be.false;
+      expect(repeat.duplicateOfImportId).to.equal(firstLog.id);
+      expect(repeat.errors[0].error).to.equal(
+        `File already imported on ${firstLog.importTimestamp.slice(0, 10)} as import #${firstLog.id}`,
+      );
+      expect(getImportLogs(10, 0)).to.have.length(2);
+
+      const forced = importAmExStatementSync(csvFilePath, { force: true });
+      expect(forced.duplicateOfImportId).to.be.undefined;
+      expect(forced.skippedRecords).to.equal(1);
+      expect(getImportLogs(10, 0)).to.have.length(3);
+
+      // Once every import of the file is rolled back it can be imported again
+      rollbackImport(firstLog.id);
+      expect(importAmExStatementSync(csvFilePath).importedRecords).to.equal(1);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should import every archive entry under one batch', () => {
+    const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+    const toEntry = (name: string, text: string) => ({
+      name,
+      size: Buffer.byteLength(text),
+      read: () => Buffer.from(text),
+    });
+    const batch = importStatementArchive([
+      toEntry(
+        '2025/october.csv',
+        header + '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,BATCHTEST00000001\n',
+      ),
+      toEntry(
+        '2025/november.csv',
+        header + '04/11/2025,05/11/2025,COLES 0123,JOHN DOE,-11002,12.00,BATCHTEST00000002\n',
+      ),
+      toEntry('notes.txt', 'not a statement'),
+    ]);
+
+    expect(batch.files.map((file) => file.fileName)).to.deep.equal([
+      '2025/october.csv',
+      '2025/november.csv',
+      'notes.txt',
+    ]);
+    expect(batch.files[2].result.success).to.be.false;
+    expect(batch.success).to.be.false;
+    expect(batch.importedRecords).to.equal(2);
+    expect(batch.errors[0].error).to.match(/^notes\.txt: /);
+
+    const logs = getImportLogs(10, 0);
+    expect(logs).to.have.length(3);
+    logs.forEach((log) => expect(log.batchId).to.equal(batch.batchId));
+  });
+
+  it('should carry on past an archive entry that cannot be inflated', () => {
+    const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+    const toEntry = (name: string, text: string) => ({
+      name,
+      size: Buffer.byteLength(text),
+      read: () => Buffer.from(text),
+    });
+    const truncated = {
+      name: '2025/truncated.csv',
+      size: 1000,
+      read: (): Buffer => {
+        throw new Error('Archive entry 2025/truncated.csv is corrupt or larger than recorded');
+      },
+    };
+
+    const batch = importStatementArchive([
+      toEntry('2025/october.csv', header + '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,BATCHTEST00000003\n'),
+      truncated,
+      toEntry('2025/november.csv', header + '04/11/2025,05/11/2025,COLES,JOHN DOE,-11002,12.00,BATCHTEST00000004\n'),
+    ]);
+
+    expect(batch.files.map((file) => file.result.success)).to.deep.equal([true, false, true]);
+    expect(batch.importedRecords).to.equal(2);
+    expect(batch.success).to.be.false;
+    expect(batch.errors).to.deep.equal([
+      {
+        rowNumber: 0,
+        error: '2025/truncated.csv: Archive entry 2025/truncated.csv is corrupt or larger than recorded',
+        reference: undefined,
+      },
+    ]);
+
+    const logs = getImportLogs(10, 0);
+    expect(logs.map((log) => log.fileName)).to.include('2025/truncated.csv');
+    logs.forEach((log) => expect(log.batchId).to.equal(batch.batchId));
+  });
+
+  it('should import in chunks with the same result as a single pass', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-chunks.csv');
+    const rows = Array.from({ length: 2500 }, (_, i) => {
+      // Row 1800 repeats row 100's reference, so it fails on insert; every 400th row has no description (parse error)
+      const reference = `CHUNKTEST${String(i === 1800 ? 100 : i).padStart(8, '0')}`;
+      const description = i % 400 === 0 ? '' : `MERCHANT ${i}`;
+      return `04/10/2025,05/10/2025,${description},JOHN DOE,-11002,${(i + 1).toFixed(2)},${reference}`;
+    });
+    fs.writeFileSync(
+      csvFilePath,
+      ['Date,Date Processed,Description,Card Member,Account #,Amount,Reference', ...rows].join('\n'),
+    );
+
+    try {
+      const singlePass = importAmExStatementSync(csvFilePath, { chunkSize: Infinity });
+      const singlePassRows = getTransactions(5000, 0).map(({ id, created_at, updated_at, import_id, ...row }) => row);
+
+      closeDatabase();
+      setupDb();
+      // Already imported rows are skipped as duplicates in both passes
+      importAmExStatementSync(csvFilePath, { chunkSize: Infinity });
+      const preloaded = getTransactions(5000, 0);
+      deleteTransaction(preloaded.find((row) => row.reference === 'CHUNKTEST00000001')!.id);
+
+      const progress: ImportProgress[] = [];
+      const chunked = importAmExStatementSync(csvFilePath, {
+        force: true,
+        chunkSize: 300,
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(singlePass.totalRecords).to.equal(2493);
+      expect(singlePass.importedRecords).to.equal(2492);
+      expect(singlePass.errors.find((err) => err.reference === 'CHUNKTEST00000100' && err.rowNumber > 0)).to.exist;
+
+      expect(chunked.importedRecords).to.equal(1);
+      expect(chunked.errors.filter((err) => err.error.startsWith('Duplicate reference skipped'))).to.have.length(2492);
+      expect(
+        getTransactions(5000, 0).map(({ id, created_at, updated_at, import_id, ...row }) => row),
+      ).to.have.deep.members(singlePassRows);
+
+      // Four stages per chunk
+      expect(progress).to.have.length(36);
+      expect(progress.slice(0, 4).map((update) => update.stage)).to.deep.equal([
+        'parsed',
+        'validated',
+        'deduped',
+        'inserted',
+      ]);
+      expect(progress[0]).to.include({ rowsRead: 300, totalRows: 2500, fileName: 'test-import-chunks.csv' });
+      expect(progress[35]).to.include({ stage: 'inserted', rowsRead: 2500, totalRows: 2500, importedRecords: 1 });
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should match single-pass errors and row numbers when chunked', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-chunk-errors.csv');
+    const rows = Array.from({ length: 1200 }, (_, i) => {
+      const reference = `CHUNKERR${String(i === 1100 ? 5 : i).padStart(8, '0')}`;
+      const amount = i % 250 === 0 ? 'abc' : (i + 1).toFixed(2);
+      const description = i % 333 === 0 ? '' : `MERCHANT ${i}`;
+      return `04/10/2025,05/10/2025,${description},JOHN DOE,-11002,${amount},${reference}`;
+    });
+    fs.writeFileSync(
+      csvFilePath,
+      ['Date,Date Processed,Description,Card Member,Account #,Amount,Reference', ...rows].join('\n'),
+    );
+
+    try {
+      const singlePass = importAmExStatementSync(csvFilePath, { chunkSize: Infinity });
+      closeDatabase();
+      setupDb();
+      const chunked = importAmExStatementSync(csvFilePath, { chunkSize: 97 });
+
+      const strip = (result: typeof singlePass) => ({ ...result, timestamp: undefined });
+      expect(strip(chunked)).to.deep.equal(strip(singlePass));
+      expect(singlePass.errors.length).to.be.greaterThan(5);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should roll back exactly the rows an import inserted', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-rollback.csv');
+    const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+
+    try {
+      fs.writeFileSync(csvFilePath, header + '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,ROLLBACKTEST00001\n');
+      importAmExStatementSync(csvFilePath);
+
+      fs.writeFileSync(
+        csvFilePath,
+        header +
+          '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,ROLLBACKTEST00001\n' +
+          '05/10/2025,05/10/2025,ALDI,JOHN DOE,-11002,8.00,ROLLBACKTEST00002\n' +
+          '06/10/2025,06/10/2025,KMART,JOHN DOE,-11002,20.00,ROLLBACKTEST00003\n',
+      );
+      const second = importAmExStatementSync(csvFilePath);
+      expect(second.importedRecords).to.equal(2);
+
+      const [secondLog, firstLog] = getImportLogs(2, 0);
+      expect(getTransactionByReference('ROLLBACKTEST00002')!.import_id).to.equal(secondLog.id);
+      expect(getTransactionByReference('ROLLBACKTEST00001')!.import_id).to.equal(firstLog.id);
+
+      const rollback = rollbackImport(secondLog.id);
+
+      expect(rollback).to.include({ importLogId: secondLog.id, deletedRecords: 2, reconciledRecords: 0 });
+      expect(getTransactionCount()).to.equal(1);
+      expect(getImportLogs(2, 0)[0]).to.include({ rolledBackRecords: 2, rolledBackAt: rollback.rolledBackAt });
+      expect(() => rollbackImport(secondLog.id)).to.throw('already rolled back');
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should refuse to roll back reconciled rows unless forced', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-rollback-reconciled.csv');
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,ROLLBACKTEST00004\n' +
+        '05/10/2025,05/10/2025,ALDI,JOHN DOE,-11002,8.00,ROLLBACKTEST00005\n',
+    );
+
+    try {
+      importAmExStatementSync(csvFilePath);
+      const log = getImportLogs(1, 0)[0];
+      markTransactionReconciled(getTransactionByReference('ROLLBACKTEST00004')!.id, 'ynab-1');
+
+      expect(() => rollbackImport(log.id)).to.throw('1 reconciled transaction(s)');
+      expect(getTransactionCount()).to.equal(2);
+
+      expect(rollbackImport(log.id, { force: true })).to.include({ deletedRecords: 2, reconciledRecords: 1 });
+      expect(getTransactionCount()).to.equal(0);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should update changed rows in place when upserting', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-upsert.csv');
+    const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Address,Reference\n';
+
+    try {
+      fs.writeFileSync(
+        csvFilePath,
+        header +
+          '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,1 George St,UPSERTTEST0000001\n' +
+          '05/10/2025,05/10/2025,ALDI,JOHN DOE,-11002,8.00,,UPSERTTEST0000002\n',
+      );
+      importAmExStatementSync(csvFilePath);
+
+      fs.writeFileSync(
+        csvFilePath,
+        header +
+          '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,50.00,,UPSERTTEST0000001\n' +
+          '05/10/2025,05/10/2025,ALDI,JOHN DOE,-11002,8.00,,UPSERTTEST0000002\n' +
+          '06/10/2025,06/10/2025,KMART,JOHN DOE,-11002,20.00,,UPSERTTEST0000003\n',
+      );
+
+      const dryRun = importAmExStatementSync(csvFilePath, { upsert: true, dryRun: true });
+      expect(dryRun.updatedRecords).to.equal(1);
+      expect(getTransactionByReference('UPSERTTEST0000001')!.amount).to.equal(45.1);
+
+      const result = importAmExStatementSync(csvFilePath, { upsert: true });
+
+      expect(result).to.include({ importedRecords: 1, updatedRecords: 1, skippedRecords: 1 });
+      expect(getTransactionByReference('UPSERTTEST0000001')).to.include({
+        description: 'COLES 0123 SYDNEY',
+        amount: 50,
+        address: null,
+      });
+
+      const [log] = getImportLogs(1, 0);
+      const changes = getTransactionChanges('UPSERTTEST0000001');
+      expect(changes.map(({ field, oldValue, newValue }) => ({ field, oldValue, newValue }))).to.deep.equal([
+        { field: 'description', oldValue: 'COLES 0123', newValue: 'COLES 0123 SYDNEY' },
+        { field: 'amount', oldValue: '45.1', newValue: '50' },
+        // Appears On Your Statement As falls back to the description
+        { field: 'appears_on_statement', oldValue: 'COLES 0123', newValue: 'COLES 0123 SYDNEY' },
+        { field: 'address', oldValue: '1 George St', newValue: null },
+      ]);
+      changes.forEach((change) => expect(change.importId).to.equal(log.id));
+      expect(getTransactionChanges('UPSERTTEST0000002')).to.be.empty;
+
+      // Without upsert the changed row is only skipped
+      expect(importAmExStatementSync(csvFilePath, { force: true }).updatedRecords).to.be.undefined;
+
+      // Rolling back the upsert deletes its new row and puts the changed fields back
+      expect(rollbackImport(log.id)).to.include({ deletedRecords: 1, revertedRecords: 1, restoredRecords: 0 });
+      expect(getTransactionByReference('UPSERTTEST0000003')).to.be.null;
+      expect(getTransactionByReference('UPSERTTEST0000001')).to.include({
+        description: 'COLES 0123',
+        appears_on_statement: 'COLES 0123',
+        amount: 45.1,
+        amount_minor: 4510,
+        address: '1 George St',
+      });
+      const undo = getTransactionChanges('UPSERTTEST0000001').slice(4);
+      expect(undo.map(({ field, newValue }) => ({ field, newValue }))).to.deep.equal([
+        { field: 'address', newValue: '1 George St' },
+        { field: 'appears_on_statement', newValue: 'COLES 0123' },
+        { field: 'amount', newValue: '45.1' },
+        { field: 'description', newValue: 'COLES 0123' },
+      ]);
+      undo.forEach((change) => expect(change.importId).to.be.undefined);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should supersede pending rows with their posted version', () => {
+    const pendingFilePath = path.join(path.dirname(testDbPath), 'test-import-pending.csv');
+    const postedFilePath = path.join(path.dirname(testDbPath), 'test-import-posted.csv');
+    const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference,Status\n';
+    fs.writeFileSync(
+      pendingFilePath,
+      header +
+        '04/10/2025,04/10/2025,UBER TRIP,JOHN DOE,-11002,18.20,PENDINGIMPORT0001,Pending\n' +
+        '04/10/2025,04/10/2025,COLES 0123,JOHN DOE,-11002,45.10,PENDINGIMPORT0002,Pending\n',
+    );
+    fs.writeFileSync(
+      postedFilePath,
+      header +
+        // Tip added on posting; different merchant and out-of-range amounts must not match
+        '06/10/2025,07/10/2025,UBER *TRIP HELP.UBER.COM,JOHN DOE,-11002,21.00,POSTEDIMPORT00001,\n' +
+        '06/10/2025,07/10/2025,ALDI,JOHN DOE,-11002,45.10,POSTEDIMPORT00002,\n' +
+        '06/10/2025,07/10/2025,COLES 0123,JOHN DOE,-11002,90.00,POSTEDIMPORT00003,\n',
+    );
+
+    try {
+      importAmExStatementSync(pendingFilePath);
+      expect(getTransactionByReference('PENDINGIMPORT0001')!.status).to.equal('pending');
+      markTransactionReconciled(getTransactionByReference('PENDINGIMPORT0001')!.id, 'ynab-pending');
+
+      const posted = importAmExStatementSync(postedFilePath);
+
+      expect(posted.importedRecords).to.equal(3);
+      expect(posted.supersededRecords).to.equal(1);
+      expect(getTransactionByReference('PENDINGIMPORT0001')).to.include({ status: 'superseded', reconciled: false });
+      expect(getTransactionByReference('PENDINGIMPORT0002')!.status).to.equal('pending');
+      expect(getTransactionByReference('POSTEDIMPORT00001')).to.include({
+        status: 'posted',
+        pending_reference: 'PENDINGIMPORT0001',
+        reconciled: true,
+        ynab_transaction_id: 'ynab-pending',
+      });
+      expect(getTransactionCount()).to.equal(4);
+
+      // The superseded pending reference still counts as imported
+      const repeat = importAmExStatementSync(pendingFilePath, { force: true });
+      expect(repeat.importedRecords).to.equal(0);
+      expect(repeat.skippedRecords).to.equal(2);
+
+      // Rolling back the posted import brings the pending row back with its link (so no force is needed)
+      const postedLog = getImportLogs(10, 0).find((log) => log.fileName === 'test-import-posted.csv')!;
+      expect(rollbackImport(postedLog.id)).to.include({ deletedRecords: 3, reconciledRecords: 0, restoredRecords: 1 });
+      expect(getTransactionByReference('PENDINGIMPORT0001')).to.include({
+        status: 'pending',
+        reconciled: true,
+        ynab_transaction_id: 'ynab-pending',
+      });
+      expect(getTransactionCount()).to.equal(2);
+    } finally {
+      fs.unlinkSync(pendingFilePath);
+      fs.unlinkSync(postedFilePath);
+    }
+  });
+
+  it('should apply global and mapping profile rule settings', () => {
+    const csvFilePath = path.join(path.dirname(testDbPath), 'test-import-rules.csv');
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,RULES-0001\n' +
+        '04/10/2025,05/10/2025,REFUND,JOHN DOE,-11002,-12.00,RULES0002\n',
+    );
+
+    try {
+      // By default the dashed reference rejects its row
+      const rejected = importAmExStatementSync(csvFilePath, { dryRun: true });
+      expect(rejected.importedRecords).to.equal(1);
+      expect(rejected.errors[0].error).to.include('alphanumeric');
+
+      // Downgraded globally, the row imports and the violation comes back as a warning
+      const settings = { 'reference-alphanumeric': { severity: 'warning' as const } };
+      updateGlobalRuleSettings(settings);
+      const warned = importAmExStatementSync(csvFilePath);
+      expect(warned.importedRecords).to.equal(2);
+      expect(warned.warnings).to.deep.include({
+        rowNumber: 2,
+        message: 'Row 2: Reference must contain only alphanumeric characters',
+        ruleId: 'reference-alphanumeric',
+        severity: 'warning',
+      });
+      expect(getImportLogs(1)[0].rulesetVersion).to.equal(getRulesetVersion(settings));
+
+      // A profile's settings override the global ones for its files
+      const profile = insertMappingProfile({
+        name: 'Strict',
+        columns: { date: 'Date', description: 'Description', amount: 'Amount', cardMember: 'Card Member' },
+        referenceColumn: 'Reference',
+        dateFormat: 'DD/MM/YYYY',
+        signConvention: 'charges-positive',
+        defaults: { accountNumber: '-11002' },
+        ruleSettings: { 'reference-alphanumeric': { severity: 'error' }, 'amount-non-negative': { enabled: true } },
+      });
+      const strict = importAmExStatementSync(csvFilePath, {
+        profile,
+        dryRun: true,
+        force: true,
+        skipDeduplication: true,
+      });
+      expect(strict.errors.map((error) => error.rowNumber)).to.deep.equal([2]);
+      expect(strict.warnings!.map((warning) => warning.ruleId)).to.deep.equal(['amount-non-negative']);
+    } finally {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should verify the imported rows against the statement totals per card member', () => {
+    const xlsxFilePath = path.join(path.dirname(testDbPath), 'test-import-summary.xlsx');
+    const header = ['Date', 'Date Processed', 'Description', 'Card Member', 'Account #', 'Amount', 'Reference'];
+    const writeStatement = (rows: unknown[][]) => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+          ['Card Member', 'Total'],
+          ['JOHN DOE', 57.6],
+          ['JANE DOE', 20],
+          ['Total', '', 77.6],
+        ]),
+        'Summary',
+      );
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([header, ...rows]),
+        'Transaction Details',
+      );
+      XLSX.writeFile(workbook, xlsxFilePath, { bookType: 'xlsx' });
+    };
+    const rows = [
+      ['04/10/2025', '05/10/2025', 'COLES 0123', 'JOHN DOE', '-11002', 45.1, 'SUMMARYIMPORT0001'],
+      ['05/10/2025', '06/10/2025', 'UBER TRIP', 'John Doe', '-11002', 12.5, 'SUMMARYIMPORT0002'],
+      ['05/10/2025', '06/10/2025', 'ALDI', 'JANE DOE', '-11010', 20, 'SUMMARYIMPORT0003'],
+    ];
+
+    try {
+      writeStatement(rows);
+      const balanced = importAmExStatementSync(xlsxFilePath, { dryRun: true });
+      expect(balanced.success).to.be.true;
+      expect(balanced.integrityErrors).to.be.undefined;
+      expect(balanced.statementSummary!.totalAmount).to.equal(77.6);
+
+      // A row that fails validation leaves John's total short
+      writeStatement([rows[0], [...rows[1].slice(0, 6), 'SUMMARY-IMPORT-2'], rows[2]]);
+      const short = importAmExStatementSync(xlsxFilePath);
+      expect(short.success).to.be.false;
+      expect(short.importedRecords).to.equal(2);
+      expect(short.integrityErrors).to.deep.equal([
+        {
+          expected: 77.6,
+          actual: 65.1,
+          message: 'Statement integrity error: Statement total is 77.60 but the imported rows sum to 65.10',
+        },
+        {
+          cardMember: 'JOHN DOE',
+          expected: 57.6,
+          actual: 45.1,
+          message:
+            'Statement integrity error: Total for card member JOHN DOE is 57.60 but the imported rows sum to 45.10',
+        },
+      ]);
+      expect(getImportLogs(1)[0].errors!.map((err) => err.error)).to.include(short.integrityErrors![1].message);
+    } finally {
+      fs.unlinkSync(xlsxFilePath);
+    }
+  });
+
+  it('should import OFX statement with deduplication and logging', () => {
+    const ofxFilePath = path.join(path.dirname(testDbPath), 'test-import.ofx');
+    fs.writeFileSync(
+      ofxFilePath,
+      '<OFX><ACCTID>XXXXXXXXXXX11002<BANKTRANLIST>' +
+        '<STMTTRN><DTPOSTED>20251004<TRNAMT>-45.10<FITID>OFXTEST0001<NAME>COLES 0123 SYDNEY' +
+        '<STMTTRN><DTPOSTED>20251006<TRNAMT>500.00<FITID>OFXTEST0002<NAME>PAYMENT RECEIVED' +
+        '</BANKTRANLIST></OFX>',
+    );
+
+    try {
+      const result1 = importAmExStatementSync(ofxFilePath);
+      expect(result1.success).to.be.true;
+      expect(result1.importedRecords).to.equal(2);
+
+      const result2 = importAmExStatementSync(ofxFilePath, { force: true });
+      expect(result2.importedRecords).to.equal(0);
+      expect(result2.skippedRecords).to.equal(2);
+
+      const logs = getImportLogs(10, 0);
+      expect(logs.map((log) => log.fileName)).to.deep.equal(['test-import.ofx', 'test-import.ofx']);
+      expect(logs[0].parser).to.equal('ofx');
+    } finally {
+      fs.unlinkSync(ofxFilePath);
+    }
+  });
+
   it('should skip validation when requested', () => {
     const result = importAmExStatementSync(testFilePath, { skipValidation: true });
 
@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InboxWatcher } from '../src/services/inboxWatcher';
+import { initializeDatabase, closeDatabase, getTransactionCount, getImportLogs } from '../src/db';
+
+describe('Inbox Watcher', () => {
+  const testDbPath = path.join(__dirname, '..', 'db', 'test-inbox.db');
+  let inboxDir: string;
+  let watcher: InboxWatcher;
+
+  beforeEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    initializeDatabase(testDbPath);
+    inboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amex-inbox-'));
+    watcher = new InboxWatcher(inboxDir, { settleMs: 0 });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(inboxDir, { recursive: true, force: true });
+    closeDatabase();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should import dropped statements and move them to processed/ with a sidecar', async () => {
+    fs.writeFileSync(
+      path.join(inboxDir, 'october.csv'),
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,INBOXTEST00000001\n',
+    );
+
+    const outcomes = await watcher.scan();
+
+    expect(outcomes).to.have.length(1);
+    expect(outcomes[0].result.importedRecords).to.equal(1);
+    expect(fs.existsSync(path.join(inboxDir, 'october.csv'))).to.be.false;
+    expect(fs.existsSync(path.join(inboxDir, 'processed', 'october.csv'))).to.be.true;
+
+    const sidecar = JSON.parse(fs.readFileSync(path.join(inboxDir, 'processed', 'october.csv.json'), 'utf-8'));
+    expect(sidecar.importedRecords).to.equal(1);
+    expect(getTransactionCount()).to.equal(1);
+    expect(getImportLogs(10, 0)[0].fileName).to.equal('october.csv');
+  });
+
+  it('should move unrecognised files to failed/', async () => {
+    fs.writeFileSync(path.join(inboxDir, 'notes.txt'), 'not a statement');
+
+    const outcomes = await watcher.scan();
+
+    expect(outcomes[0].result.success).to.be.false;
+    expect(fs.existsSync(path.join(inboxDir, 'failed', 'notes.txt'))).to.be.true;
+    expect(fs.existsSync(path.join(inboxDir, 'failed', 'notes.txt.json'))).to.be.true;
+  });
+
+  it('should leave files that are still being written for the next scan', async () => {
+    const slowWatcher = new InboxWatcher(inboxDir, { settleMs: 60000 });
+    fs.writeFileSync(path.join(inboxDir, 'partial.csv'), 'Date,Date Processed');
+
+    expect(await slowWatcher.scan()).to.be.empty;
+    expect(fs.existsSync(path.join(inboxDir, 'partial.csv'))).to.be.true;
+  });
+
+  it('should skip a scan while another is still importing', async () => {
+    fs.writeFileSync(
+      path.join(inboxDir, 'october.csv'),
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,INBOXTEST00000002\n',
+    );
+
+    const [first, second] = await Promise.all([watcher.scan(), watcher.scan()]);
+
+    expect(first).to.have.length(1);
+    expect(second).to.be.empty;
+    expect(getTransactionCount()).to.equal(1);
+  });
+
+  it('should not overwrite an earlier file of the same name', async () => {
+    fs.mkdirSync(path.join(inboxDir, 'failed'));
+    fs.writeFileSync(path.join(inboxDir, 'failed', 'notes.txt'), 'earlier');
+    fs.writeFileSync(path.join(inboxDir, 'notes.txt'), 'not a statement');
+
+    const [outcome] = await watcher.scan();
+
+    expect(path.basename(outcome.movedTo)).to.match(/^notes-.+\.txt$/);
+    expect(fs.readFileSync(path.join(inboxDir, 'failed', 'notes.txt'), 'utf-8')).to.equal('earlier');
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { startImportJob, getImportJob, subscribeToImportJob } from '../src/services/jobService';
+import type { ImportJob, ImportResult } from '../src/types/index';
+
+describe('Job Service', () => {
+  const result: ImportResult = {
+    success: true,
+    totalRecords: 1,
+    importedRecords: 1,
+    skippedRecords: 0,
+    errors: [],
+    timestamp: new Date().toISOString(),
+  };
+
+  // Collect a job's updates until it completes or fails
+  const collectUpdates = (id: string) =>
+    new Promise<ImportJob[]>((resolve) => {
+      const updates: ImportJob[] = [];
+      const unsubscribe = subscribeToImportJob(id, (update) => {
+        updates.push(update);
+        if (update.status === 'completed' || update.status === 'failed') {
+          unsubscribe();
+          resolve(updates);
+        }
+      });
+    });
+
+  it('should run the import in the background and report each update', async () => {
+    const job = startImportJob('statement.csv', async (onProgress) => {
+      onProgress({
+        stage: 'parsed',
+        fileName: 'statement.csv',
+        rowsRead: 1,
+        totalRows: 1,
+        importedRecords: 0,
+        skippedRecords: 0,
+      });
+      return result;
+    });
+
+    expect(job).to.include({ fileName: 'statement.csv', status: 'queued' });
+
+    const updates = await collectUpdates(job.id);
+
+    expect(updates.map((update) => update.status)).to.deep.equal(['running', 'running', 'completed']);
+    expect(updates[1].progress).to.include({ stage: 'parsed', rowsRead: 1 });
+    expect(getImportJob(job.id)).to.deep.include({ status: 'completed', result });
+  });
+
+  it('should mark the job failed when the import throws', async () => {
+    const job = startImportJob('broken.csv', async () => {
+      throw new Error('Disk full');
+    });
+
+    const updates = await collectUpdates(job.id);
+
+    expect(updates[updates.length - 1]).to.include({ status: 'failed', error: 'Disk full' });
+    expect(getImportJob(job.id)!.result).to.be.undefined;
+  });
+
+  it('should return undefined for an unknown job', () => {
+    expect(getImportJob('no-such-job')).to.be.undefined;
+  });
+});
@@ -0,0 +1,168 @@
+import { expect } from 'chai';
+import Database from 'better-sqlite3';
+import { getMigrationStatus, getSchemaVersion, migrate, revertMigrations } from '../src/migrations';
+import type { Migration } from '../src/migrations';
+
+describe('Schema Migrations', () => {
+  let database: Database.Database;
+
+  const tableNames = () =>
+    (database.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{ name: string }>).map(
+      (row) => row.name,
+    );
+  const columnNames = (table: string) =>
+    (database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((col) => col.name);
+
+  beforeEach(() => {
+    database = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it('should create the schema on a new database and record the version once', () => {
+    const applied = migrate(database);
+
+    expect(applied.map((migration) => migration.version)).to.deep.equal([1, 2, 3]);
+    expect(applied[0].appliedAt).to.be.a('string');
+    expect(tableNames()).to.include.members(['transactions', 'import_logs', 'failed_rows', 'schema_migrations']);
+    expect(getSchemaVersion(database)).to.equal(3);
+
+    expect(migrate(database)).to.be.empty;
+    expect(getMigrationStatus(database)[0]).to.include({ version: 1, name: 'initial-schema' });
+  });
+
+  it('should bring a database from before versioned migrations up to date', () => {
+    database.exec(`
+      CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, date TEXT NOT NULL, date_processed TEXT NOT NULL,
+        description TEXT NOT NULL, card_member TEXT NOT NULL, account_number TEXT NOT NULL, amount REAL NOT NULL,
+        foreign_spend_amount TEXT, commission TEXT, exchange_rate TEXT, additional_information TEXT,
+        appears_on_statement TEXT, address TEXT, town_city TEXT, postcode TEXT, country TEXT,
+        reference TEXT UNIQUE NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      );
+      INSERT INTO transactions (date, date_processed, description, card_member, account_number, amount, reference,
+        created_at, updated_at)
+      VALUES ('2025-10-04', '2025-10-05', 'COLES', 'JOHN DOE', '-11002', 45.1, 'LEGACY0001', '', '');
+    `);
+
+    migrate(database);
+
+    expect(columnNames('transactions')).to.include.members(['reconciled', 'import_id', 'status', 'pending_reference']);
+    expect(database.prepare('SELECT status FROM transactions').get()).to.deep.equal({ status: 'posted' });
+    expect(getSchemaVersion(database)).to.equal(3);
+    const matches = database.prepare("SELECT rowid FROM transactions_fts WHERE transactions_fts MATCH 'coles'").all();
+    expect(matches).to.have.length(1);
+  });
+
+  it('should convert stored amounts to minor units and parse FX columns, and convert them back on revert', () => {
+    migrate(database, { to: 1 });
+    database.exec(`
+      INSERT INTO transactions (date, date_processed, description, card_member, account_number, amount,
+        foreign_spend_amount, commission, exchange_rate, appears_on_statement, country, reference,
+        created_at, updated_at)
+      VALUES
+        ('2025-10-04', '2025-10-05', 'COLES', 'JOHN DOE', '-11002', 45.1, NULL, NULL, NULL, '', '', 'REF1', '', ''),
+        ('2025-10-06', '2025-10-07', 'HOTEL', 'JOHN DOE', '-11002', 19.89, '12.50 USD', '0.58', '1.5912', '', '',
+          'REF2', '', '');
+    `);
+
+    migrate(database);
+
+    expect(columnNames('transactions')).to.not.include('amount');
+    const rows = database
+      .prepare(
+        `SELECT amount_minor, currency, foreign_amount_minor, foreign_currency, commission_minor, fx_rate
+         FROM transactions ORDER BY reference`,
+      )
+      .all();
+    expect(rows).to.deep.equal([
+      {
+        amount_minor: 4510,
+        currency: 'AUD',
+        foreign_amount_minor: null,
+        foreign_currency: null,
+        commission_minor: null,
+        fx_rate: null,
+      },
+      {
+        amount_minor: 1989,
+        currency: 'AUD',
+        foreign_amount_minor: 1250,
+        foreign_currency: 'USD',
+        commission_minor: 58,
+        fx_rate: 1.5912,
+      },
+    ]);
+
+    revertMigrations(database, { to: 1 });
+
+    expect(columnNames('transactions')).to.include('amount').and.not.include('amount_minor');
+    const amounts = database.prepare('SELECT amount FROM transactions ORDER BY reference').all();
+    expect(amounts).to.deep.equal([{ amount: 45.1 }, { amount: 19.89 }]);
+  });
+
+  it('should only list pending migrations on a dry run', () => {
+    expect(migrate(database, { dryRun: true })).to.deep.equal([
+      { version: 1, name: 'initial-schema' },
+      { version: 2, name: 'money-minor-units' },
+      { version: 3, name: 'transactions-fts' },
+    ]);
+    expect(tableNames()).to.not.include('transactions');
+    expect(getSchemaVersion(database)).to.equal(0);
+  });
+
+  describe('with custom migrations', () => {
+    const createTable = (version: number, table: string): Migration => ({
+      version,
+      name: `create-${table}`,
+      up: (db) => db.exec(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY)`),
+      down: (db) => db.exec(`DROP TABLE ${table}`),
+    });
+    const migrations = [createTable(2, 'second'), createTable(1, 'first'), createTable(3, 'third')];
+
+    it('should apply in version order, stop at a version and revert newest first', () => {
+      expect(migrate(database, { to: 2 }, migrations).map((m) => m.name)).to.deep.equal([
+        'create-first',
+        'create-second',
+      ]);
+      expect(getSchemaVersion(database)).to.equal(2);
+
+      migrate(database, {}, migrations);
+      expect(revertMigrations(database, { to: 1, dryRun: true }, migrations).map((m) => m.version)).to.deep.equal([
+        3, 2,
+      ]);
+      expect(tableNames()).to.include('third');
+
+      expect(revertMigrations(database, { to: 1 }, migrations)).to.deep.equal([
+        { version: 3, name: 'create-third' },
+        { version: 2, name: 'create-second' },
+      ]);
+      expect(tableNames()).to.include('first').and.not.include.members(['second', 'third']);
+      expect(getSchemaVersion(database)).to.equal(1);
+    });
+
+    it('should roll back a migration that fails part way', () => {
+      const failing: Migration = {
+        version: 2,
+        name: 'half-done',
+        up: (db) => {
+          db.exec('CREATE TABLE half (id INTEGER PRIMARY KEY)');
+          throw new Error('boom');
+        },
+        down: () => undefined,
+      };
+
+      expect(() => migrate(database, {}, [createTable(1, 'first'), failing])).to.throw('boom');
+      expect(tableNames()).to.include('first').and.not.include('half');
+      expect(getSchemaVersion(database)).to.equal(1);
+    });
+
+    it('should refuse a database migrated by a newer release', () => {
+      migrate(database, {}, migrations);
+
+      expect(() => migrate(database, {}, [createTable(1, 'first')])).to.throw("doesn't know");
+    });
+  });
+});
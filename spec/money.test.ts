@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { fromMinorUnits, getCurrencyExponent, toMilliunits, toMinorUnits, toMoneyColumns } from '../src/money';
+
+describe('Money', () => {
+  it('should convert amounts to integer minor units without float noise', () => {
+    expect(toMinorUnits(45.1, 'AUD')).to.equal(4510);
+    expect(toMinorUnits(0.29, 'AUD')).to.equal(29);
+    expect(toMinorUnits(0.1 + 0.2, 'AUD')).to.equal(30);
+    expect(toMinorUnits(-25.5, 'AUD')).to.equal(-2550);
+    expect(toMinorUnits(1500, 'JPY')).to.equal(1500);
+    expect(toMinorUnits(1.234, 'KWD')).to.equal(1234);
+  });
+
+  it('should use two decimals for unknown or missing currencies', () => {
+    expect(getCurrencyExponent('XYZ')).to.equal(2);
+    expect(getCurrencyExponent('')).to.equal(2);
+    expect(getCurrencyExponent('jpy')).to.equal(0);
+  });
+
+  it('should convert minor units back to currency units and YNAB milliunits', () => {
+    expect(fromMinorUnits(4510, 'AUD')).to.equal(45.1);
+    expect(fromMinorUnits(1500, 'JPY')).to.equal(1500);
+    expect(toMilliunits(4999, 'AUD')).to.equal(49990);
+    expect(toMilliunits(1500, 'JPY')).to.equal(1500000);
+    expect(toMilliunits(1234, 'KWD')).to.equal(1234);
+  });
+
+  it('should parse foreign spend, commission and rate into typed columns', () => {
+    expect(
+      toMoneyColumns({
+        amount: 1989.5,
+        currency: 'JPY',
+        foreignSpendAmount: '12.50 UNITED STATES DOLLARS',
+        commission: '$58',
+        exchangeRate: '0.0063',
+      }),
+    ).to.deep.equal({
+      amount_minor: 1990,
+      currency: 'JPY',
+      foreign_amount_minor: 1250,
+      foreign_currency: 'USD',
+      commission_minor: 58,
+      fx_rate: 0.0063,
+    });
+  });
+
+  it('should default to the statement currency', () => {
+    const previous = process.env.STATEMENT_CURRENCY;
+    process.env.STATEMENT_CURRENCY = 'nzd';
+    try {
+      expect(toMoneyColumns({ amount: 10 })).to.include({ amount_minor: 1000, currency: 'NZD' });
+    } finally {
+      if (previous === undefined) delete process.env.STATEMENT_CURRENCY;
+      else process.env.STATEMENT_CURRENCY = previous;
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import { parseOfxStatement } from '../src/ofxParser';
+import { parseStatementFile } from '../src/statementParser';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('OFX Parser', () => {
+  const sgmlFilePath = path.join(os.tmpdir(), `ofx-parser-${process.pid}.qfx`);
+  const xmlFilePath = path.join(os.tmpdir(), `ofx-parser-${process.pid}.ofx`);
+
+  before(() => {
+    // OFX 1.x SGML: no closing tags on elements
+    fs.writeFileSync(
+      sgmlFilePath,
+      [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        '',
+        '<OFX>',
+        '<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>',
+        '<CCACCTFROM><ACCTID>XXXXXXXXXXX11002</CCACCTFROM>',
+        '<BANKTRANLIST>',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20251004120000.000[-5:EST]',
+        '<TRNAMT>-45.10',
+        '<FITID>320252770123-456',
+        '<NAME>COLES 0123 SYDNEY',
+        '<MEMO>GROCERIES &amp; HOUSEHOLD',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20251006',
+        '<TRNAMT>500.00',
+        '<FITID>320252790000789',
+        '<NAME>PAYMENT RECEIVED',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20251007',
+        '<TRNAMT>-12.00',
+        '<NAME>NO FITID',
+        '</BANKTRANLIST>',
+        '</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>',
+        '</OFX>',
+      ].join('\r\n'),
+    );
+
+    // OFX 2.x XML: every element closed
+    fs.writeFileSync(
+      xmlFilePath,
+      '<?xml version="1.0" encoding="UTF-8"?><?OFX OFXHEADER="200" VERSION="220"?>' +
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>usd</CURDEF>' +
+        '<BANKACCTFROM><ACCTID>123456</ACCTID></BANKACCTFROM>' +
+        '<BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240112</DTPOSTED><TRNAMT>-9.99</TRNAMT>' +
+        '<FITID>ABC123</FITID><NAME>NETFLIX.COM</NAME></STMTTRN></BANKTRANLIST></STMTRS></STMTTRNRS>' +
+        '</BANKMSGSRSV1></OFX>',
+    );
+  });
+
+  after(() => {
+    [sgmlFilePath, xmlFilePath].forEach((file) => {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    });
+  });
+
+  it('should parse STMTTRN entries from SGML OFX', () => {
+    const { transactions, errors } = parseOfxStatement(sgmlFilePath);
+
+    expect(transactions.length).to.equal(2);
+    expect(errors.length).to.equal(1);
+    expect(errors[0].row).to.equal(3);
+    expect(errors[0].error).to.include('FITID');
+  });
+
+  it('should map OFX fields to AmExTransaction', () => {
+    const { transactions } = parseOfxStatement(sgmlFilePath);
+
+    expect(transactions[0]).to.include({
+      date: '2025-10-04',
+      dateProcessed: '2025-10-04',
+      description: 'COLES 0123 SYDNEY',
+      appearsOnStatement: 'COLES 0123 SYDNEY',
+      additionalInformation: 'GROCERIES & HOUSEHOLD',
+      accountNumber: 'XXXXXXXXXXX11002',
+      amount: 45.1,
+      reference: `OFX${Buffer.from('320252770123-456').toString('hex').toUpperCase()}`,
+    });
+    expect(transactions[1].amount).to.equal(-500);
+    expect(transactions[0]).to.not.have.property('currency');
+  });
+
+  it('should parse XML OFX', () => {
+    const { transactions, errors } = parseOfxStatement(xmlFilePath);
+
+    expect(errors).to.be.empty;
+    expect(transactions).to.have.length(1);
+    expect(transactions[0]).to.include({
+      date: '2024-01-12',
+      accountNumber: '123456',
+      amount: 9.99,
+      currency: 'USD',
+      reference: 'ABC123',
+    });
+  });
+
+  it('should keep FITIDs that differ only in separators distinct', () => {
+    const filePath = path.join(os.tmpdir(), `ofx-parser-${process.pid}-fitid.ofx`);
+    const entry = (fitId: string) =>
+      `<STMTTRN><DTPOSTED>20240112</DTPOSTED><TRNAMT>-9.99</TRNAMT><FITID>${fitId}</FITID><NAME>SHOP</NAME></STMTTRN>`;
+    fs.writeFileSync(
+      filePath,
+      `<OFX><BANKTRANLIST>${['12-34', '1-234', 'OFX3132', '1234'].map(entry).join('')}</BANKTRANLIST></OFX>`,
+    );
+
+    try {
+      const references = parseOfxStatement(filePath).transactions.map((t) => t.reference);
+      expect(new Set(references).size).to.equal(4);
+      expect(references[3]).to.equal('1234');
+      references.forEach((reference) => expect(reference).to.match(/^[A-Za-z0-9]+$/));
+    } finally {
+      fs.unlinkSync(filePath);
+    }
+  });
+
+  it('should refuse files with statements for more than one account', () => {
+    const filePath = path.join(os.tmpdir(), `ofx-parser-${process.pid}-accounts.ofx`);
+    const statement = (accountId: string) =>
+      `<STMTTRNRS><STMTRS><BANKACCTFROM><ACCTID>${accountId}</ACCTID></BANKACCTFROM><BANKTRANLIST>` +
+      '</BANKTRANLIST></STMTRS></STMTTRNRS>';
+    fs.writeFileSync(filePath, `<OFX><BANKMSGSRSV1>${statement('111')}${statement('222')}</BANKMSGSRSV1></OFX>`);
+
+    try {
+      expect(() => parseOfxStatement(filePath)).to.throw('statements for 2 accounts');
+    } finally {
+      fs.unlinkSync(filePath);
+    }
+  });
+
+  it('should be detected by parseStatementFile', () => {
+    expect(parseStatementFile(sgmlFilePath).transactions).to.have.length(2);
+    expect(parseStatementFile(xmlFilePath).transactions).to.have.length(1);
+  });
+
+  it('should throw error for non-OFX content', () => {
+    const badFilePath = path.join(os.tmpdir(), `ofx-parser-${process.pid}-bad.ofx`);
+    fs.writeFileSync(badFilePath, 'Date,Amount\n');
+
+    try {
+      expect(() => parseOfxStatement(badFilePath)).to.throw('not a valid OFX');
+    } finally {
+      fs.unlinkSync(badFilePath);
+    }
+  });
+});
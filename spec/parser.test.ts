@@ -1,7 +1,16 @@
 import { expect } from 'chai';
-import { parseAmExStatement } from '../src/parser';
+import {
+  MAX_WORKBOOK_BYTES,
+  parseAmExStatement,
+  parseMappedStatement,
+  parseRawTransaction,
+  streamAmExCsv,
+  streamAmExWorkbook,
+} from '../src/parser';
+import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 
 describe('AmEx Parser', () => {
   const testFilePath = path.join(__dirname, '..', 'activity.xlsx');
@@ -84,3 +93,559 @@ describe('AmEx Parser', () => {
     expect(() => parseAmExStatement('/path/to/file.csv')).to.throw();
   });
 });
+
+describe('AmEx CSV Parser', () => {
+  const csvFilePath = path.join(os.tmpdir(), `amex-parser-${process.pid}.csv`);
+
+  before(() => {
+    fs.writeFileSync(
+      csvFilePath,
+      '\uFEFFDate,Date Processed,Description,Card Member,Account #,Amount,Foreign Spend Amount,Commission,' +
+        'Exchange Rate,Additional Information,Appears On Your Statement As,Address,Town/City,Postcode,Country,Reference\r\n' +
+        '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,"1,234.50",,,,,COLES 0123,"1 George St, Level 2",' +
+        'SYDNEY,2000,AUSTRALIA,AT252780012000010012345\r\n' +
+        '06/10/2025,06/10/2025,"PAYMENT ""THANK YOU""",JOHN DOE,-11002,-500.00,,,,,PAYMENT,,,,,AT252790012000010012346\r\n' +
+        ',,,,,,,,,,,,,,,\r\n',
+    );
+  });
+
+  after(() => {
+    if (fs.existsSync(csvFilePath)) {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should parse AmEx CSV statement successfully', () => {
+    const { transactions, errors } = parseAmExStatement(csvFilePath);
+
+    expect(errors).to.be.empty;
+    expect(transactions.length).to.equal(2);
+  });
+
+  it('should produce the same fields as the XLSX parser', () => {
+    const { transactions } = parseAmExStatement(csvFilePath);
+
+    expect(transactions[0]).to.deep.equal({
+      date: '2025-10-04',
+      dateProcessed: '2025-10-05',
+      description: 'COLES 0123 SYDNEY',
+      cardMember: 'JOHN DOE',
+      accountNumber: '-11002',
+      amount: 1234.5,
+      foreignSpendAmount: undefined,
+      commission: undefined,
+      exchangeRate: undefined,
+      additionalInformation: undefined,
+      appearsOnStatement: 'COLES 0123',
+      address: '1 George St, Level 2',
+      townCity: 'SYDNEY',
+      postcode: '2000',
+      country: 'AUSTRALIA',
+      reference: 'AT252780012000010012345',
+      status: 'posted',
+      rowNumber: 2,
+    });
+  });
+
+  it('should handle quoted fields and negative amounts', () => {
+    const { transactions } = parseAmExStatement(csvFilePath);
+
+    expect(transactions[1].description).to.equal('PAYMENT "THANK YOU"');
+    expect(transactions[1].amount).to.equal(-500);
+    expect(transactions[1].country).to.equal('');
+  });
+
+  it('should throw error for unsupported file extension', () => {
+    const txtFilePath = path.join(os.tmpdir(), `amex-parser-${process.pid}.txt`);
+    fs.writeFileSync(txtFilePath, 'not a statement');
+
+    try {
+      expect(() => parseAmExStatement(txtFilePath)).to.throw('XLSX or CSV');
+    } finally {
+      fs.unlinkSync(txtFilePath);
+    }
+  });
+});
+
+describe('AmEx XLSX header detection', () => {
+  const xlsxFilePath = path.join(os.tmpdir(), `amex-parser-${process.pid}.xlsx`);
+  const header = ['Date', 'Date Processed', 'Description', 'Card Member', 'Account #', 'Amount', 'Reference'];
+  const dataRow = ['04/10/2025', '05/10/2025', 'COLES 0123', 'JOHN DOE', '-11002', 45.1, 'AT252780012000010012345'];
+
+  const writeWorkbook = (sheets: Record<string, unknown[][]>) => {
+    const workbook = XLSX.utils.book_new();
+    Object.entries(sheets).forEach(([name, rows]) => {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+    });
+    XLSX.writeFile(workbook, xlsxFilePath, { bookType: 'xlsx' });
+  };
+
+  afterEach(() => {
+    if (fs.existsSync(xlsxFilePath)) {
+      fs.unlinkSync(xlsxFilePath);
+    }
+  });
+
+  it('should refuse workbooks too large to load', () => {
+    writeWorkbook({ 'Transaction Details': [header, dataRow] });
+
+    // Record an oversized sheet in the central directory; nothing should be inflated to find out
+    const zip = fs.readFileSync(xlsxFilePath);
+    const centralHeader = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    zip.writeUInt32LE(MAX_WORKBOOK_BYTES + 1, centralHeader + 24);
+    fs.writeFileSync(xlsxFilePath, zip);
+
+    expect(() => parseAmExStatement(xlsxFilePath)).to.throw('export the statement as CSV');
+  });
+
+  it('should find the header row after extra banner rows', () => {
+    writeWorkbook({
+      Summary: [['Statement Summary'], ['Balance', 1234.56]],
+      'Transaction Details': [['Transaction Details'], ['Banner'], [], ['New banner'], [], [], [], header, dataRow],
+    });
+
+    const result = parseAmExStatement(xlsxFilePath);
+
+    expect(result.errors).to.be.empty;
+    expect(result.transactions).to.have.length(1);
+    expect(result.worksheetName).to.equal('Transaction Details');
+    expect(result.headerRowNumber).to.equal(7);
+  });
+
+  it('should read the statement summary from other sheets and the banner rows', () => {
+    writeWorkbook({
+      Summary: [
+        ['Statement Summary'],
+        ['Statement Balance:', '$1,234.56'],
+        [],
+        ['Card Member', 'Account #', 'Total'],
+        ['JOHN DOE', '-11002', 45.1],
+        ['JANE DOE', '-11010', '-12.00'],
+        ['Total', '', 33.1],
+      ],
+      'Transaction Details': [['Transaction Details'], ['Total for JOHN DOE:', 45.1], header, dataRow],
+    });
+
+    expect(parseAmExStatement(xlsxFilePath).summary).to.deep.equal({
+      statementBalance: 1234.56,
+      totalAmount: 33.1,
+      cardMemberTotals: [
+        { cardMember: 'JOHN DOE', accountNumber: '-11002', total: 45.1 },
+        { cardMember: 'JANE DOE', accountNumber: '-11010', total: -12 },
+      ],
+    });
+  });
+
+  it('should leave the summary unset when the workbook states no totals', () => {
+    writeWorkbook({ 'Transaction Details': [['Transaction Details'], header, dataRow] });
+
+    expect(parseAmExStatement(xlsxFilePath)).to.not.have.property('summary');
+  });
+
+  it('should scan other worksheets when Transaction Details is missing', () => {
+    writeWorkbook({
+      Summary: [['Statement Summary']],
+      Activity: [['Card activity'], header, dataRow],
+    });
+
+    const result = parseAmExStatement(xlsxFilePath);
+
+    expect(result.worksheetName).to.equal('Activity');
+    expect(result.headerRowNumber).to.equal(1);
+    expect(result.transactions[0].reference).to.equal('AT252780012000010012345');
+  });
+
+  it('should honour explicit worksheet and header row overrides', () => {
+    writeWorkbook({
+      First: [header, dataRow],
+      Second: [['Banner'], header, dataRow, dataRow.map((cell) => (cell === 45.1 ? 10 : cell))],
+    });
+
+    const result = parseAmExStatement(xlsxFilePath, { worksheetName: 'Second', headerRowNumber: 1 });
+
+    expect(result.worksheetName).to.equal('Second');
+    expect(result.headerRowNumber).to.equal(1);
+    expect(result.transactions).to.have.length(2);
+  });
+
+  it('should throw when no header signature is found', () => {
+    writeWorkbook({ Summary: [['Statement Summary'], ['Date', 'Amount']] });
+
+    expect(() => parseAmExStatement(xlsxFilePath)).to.throw('header row');
+  });
+});
+
+describe('Mapped statement parser', () => {
+  const csvFilePath = path.join(os.tmpdir(), `mapped-parser-${process.pid}.csv`);
+  const profile = {
+    name: 'Visa',
+    columns: { date: 'Transaction Date', description: 'Merchant', amount: 'Debit/Credit' },
+    referenceColumn: 'Txn ID',
+    dateFormat: 'MM/DD/YYYY' as const,
+    signConvention: 'charges-negative' as const,
+    defaults: { cardMember: 'JANE DOE', accountNumber: '-4242' },
+  };
+
+  before(() => {
+    fs.writeFileSync(
+      csvFilePath,
+      'Visa statement export\n' +
+        'Txn ID,Transaction Date,Merchant,Debit/Credit\n' +
+        'V-001,10/04/2025,WOOLWORTHS METRO,-12.50\n' +
+        'V-002,10/05/2025,REFUND WOOLWORTHS,3.00\n',
+    );
+  });
+
+  after(() => {
+    if (fs.existsSync(csvFilePath)) {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should map profile columns onto transaction fields', () => {
+    const { transactions, errors, headerRowNumber } = parseMappedStatement(csvFilePath, profile);
+
+    expect(errors).to.be.empty;
+    expect(headerRowNumber).to.equal(1);
+    expect(transactions[0]).to.include({
+      date: '2025-10-04',
+      dateProcessed: '2025-10-04',
+      description: 'WOOLWORTHS METRO',
+      cardMember: 'JANE DOE',
+      accountNumber: '-4242',
+      reference: 'V-001',
+    });
+  });
+
+  it('should apply the sign convention so charges are positive', () => {
+    const { transactions } = parseMappedStatement(csvFilePath, profile);
+
+    expect(transactions[0].amount).to.equal(12.5);
+    expect(transactions[1].amount).to.equal(-3);
+  });
+
+  it('should throw when the mapped columns are missing', () => {
+    const wrongProfile = { ...profile, columns: { ...profile.columns, amount: 'Amount' } };
+
+    expect(() => parseMappedStatement(csvFilePath, wrongProfile)).to.throw('Columns for profile "Visa"');
+  });
+
+  it('should reject ambiguous dates rather than read a US export as day-first', () => {
+    const { dateFormat, ...undatedProfile } = profile;
+    expect(dateFormat).to.equal('MM/DD/YYYY');
+
+    const { transactions, errors } = parseMappedStatement(csvFilePath, undatedProfile);
+
+    expect(transactions).to.be.empty;
+    expect(errors.map((err) => err.row)).to.deep.equal([3, 4]);
+    expect(errors[0].error).to.include('Ambiguous date "10/04/2025" could be DD/MM/YYYY or MM/DD/YYYY');
+    expect(errors[0].values).to.include({ date: '10/04/2025', reference: 'V-001' });
+  });
+});
+
+describe('Date format handling', () => {
+  const csvFilePath = path.join(os.tmpdir(), `amex-dates-${process.pid}.csv`);
+  const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+  const row = (date: string, processed: string, reference: string) =>
+    `${date},${processed},COLES 0123,JOHN DOE,-11002,45.10,${reference}\n`;
+
+  afterEach(() => {
+    if (fs.existsSync(csvFilePath)) {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should detect MM/DD/YYYY from any row across the file', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header + row('03/04/2025', '03/04/2025', 'REF1') + row('03/25/2025', '03/26/2025', 'REF2'),
+    );
+
+    const { transactions, warnings } = parseAmExStatement(csvFilePath);
+
+    expect(transactions[0].date).to.equal('2025-03-04');
+    expect(transactions[1].dateProcessed).to.equal('2025-03-26');
+    expect(warnings).to.be.empty;
+  });
+
+  it('should reject rows whose dates contradict the rest of the file', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header +
+        row('13/01/2025', '14/01/2025', 'REF1') +
+        row('01/13/2025', '01/13/2025', 'REF2') +
+        row('20/01/2025', '20/01/2025', 'REF3'),
+    );
+
+    const { transactions, errors } = parseAmExStatement(csvFilePath);
+
+    expect(transactions.map((t) => t.date)).to.deep.equal(['2025-01-13', '2025-01-20']);
+    expect(errors).to.have.length(1);
+    expect(errors[0].row).to.equal(3);
+    expect(errors[0].error).to.include('Date "01/13/2025" is MM/DD/YYYY, but the file\'s dates are DD/MM/YYYY');
+  });
+
+  it('should refuse a file split evenly between day-first and month-first dates', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header + row('13/01/2025', '13/01/2025', 'REF1') + row('01/13/2025', '01/13/2025', 'REF2'),
+    );
+
+    expect(() => parseAmExStatement(csvFilePath)).to.throw('as many DD/MM/YYYY dates as MM/DD/YYYY dates');
+  });
+
+  it('should warn about ambiguous dates instead of guessing silently', () => {
+    fs.writeFileSync(csvFilePath, header + row('03/04/2025', '05/05/2025', 'REF1'));
+
+    const { transactions, warnings } = parseAmExStatement(csvFilePath);
+
+    expect(transactions[0].date).to.equal('2025-04-03');
+    expect(warnings).to.have.length(1);
+    expect(warnings![0].row).to.equal(2);
+    expect(warnings![0].message).to.include('Ambiguous date "03/04/2025"');
+  });
+
+  it('should use an explicit date format without warnings', () => {
+    fs.writeFileSync(csvFilePath, header + row('03/04/2025', '03/04/2025', 'REF1'));
+
+    const { transactions, warnings } = parseAmExStatement(csvFilePath, { dateFormat: 'MM/DD/YYYY' });
+
+    expect(transactions[0].date).to.equal('2025-03-04');
+    expect(warnings).to.be.empty;
+  });
+
+  it('should parse ISO and named-month dates in UTC', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header + row('2024-01-12', '12 Jan 2024', 'REF1') + row('1 Feb 2024', '2024-02-01T00:00:00Z', 'REF2'),
+    );
+
+    const { transactions, errors } = parseAmExStatement(csvFilePath);
+
+    expect(errors).to.be.empty;
+    expect(transactions[0].date).to.equal('2024-01-12');
+    expect(transactions[0].dateProcessed).to.equal('2024-01-12');
+    expect(transactions[1].date).to.equal('2024-02-01');
+    expect(transactions[1].dateProcessed).to.equal('2024-02-01');
+  });
+
+  it('should reject impossible dates', () => {
+    fs.writeFileSync(csvFilePath, header + row('31/02/2025', '31/02/2025', 'REF1'));
+
+    const { transactions, errors } = parseAmExStatement(csvFilePath);
+
+    expect(transactions).to.be.empty;
+    expect(errors[0].error).to.include('Unable to parse date "31/02/2025"');
+  });
+
+  it('should convert Excel date serials without a timezone shift', () => {
+    const xlsxFilePath = path.join(os.tmpdir(), `amex-dates-${process.pid}.xlsx`);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ['Date', 'Date Processed', 'Description', 'Card Member', 'Account #', 'Amount', 'Reference'],
+        [45934, 45934.75, 'COLES 0123', 'JOHN DOE', '-11002', 45.1, 'REF1'],
+      ]),
+      'Transaction Details',
+    );
+    XLSX.writeFile(workbook, xlsxFilePath, { bookType: 'xlsx' });
+
+    try {
+      const { transactions } = parseAmExStatement(xlsxFilePath);
+
+      expect(transactions[0].date).to.equal('2025-10-04');
+      expect(transactions[0].dateProcessed).to.equal('2025-10-04');
+    } finally {
+      fs.unlinkSync(xlsxFilePath);
+    }
+  });
+});
+
+describe('Synthetic references', () => {
+  const csvFilePath = path.join(os.tmpdir(), `amex-synthetic-${process.pid}.csv`);
+
+  afterEach(() => {
+    if (fs.existsSync(csvFilePath)) {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should generate deterministic references when the Reference column is missing', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount\n' +
+        '04/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50\n' +
+        '04/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50\n' +
+        '05/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50\n',
+    );
+
+    const first = parseAmExStatement(csvFilePath);
+    const second = parseAmExStatement(csvFilePath);
+    const references = first.transactions.map((t) => t.reference);
+
+    expect(first.errors).to.be.empty;
+    expect(references).to.deep.equal(second.transactions.map((t) => t.reference));
+    expect(new Set(references).size).to.equal(3);
+    references.forEach((reference) => expect(reference).to.match(/^FP[A-F0-9]{24}$/));
+  });
+
+  it('should only generate references for rows with a blank Reference', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50,AT252780012000010012345\n' +
+        '04/10/2025,05/10/2025,COFFEE CART,JOHN DOE,-11002,4.50,\n',
+    );
+
+    const { transactions } = parseAmExStatement(csvFilePath);
+
+    expect(transactions[0].reference).to.equal('AT252780012000010012345');
+    expect(transactions[1].reference).to.match(/^FP/);
+  });
+});
+
+describe('Transaction status', () => {
+  const csvFilePath = path.join(os.tmpdir(), `amex-status-${process.pid}.csv`);
+
+  afterEach(() => {
+    if (fs.existsSync(csvFilePath)) {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should mark rows pending from a Status column and default to posted', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference,Status\n' +
+        '04/10/2025,04/10/2025,UBER TRIP,JOHN DOE,-11002,18.20,PENDINGTEST000001,Pending\n' +
+        '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,PENDINGTEST000002,Posted\n' +
+        '04/10/2025,05/10/2025,ALDI,JOHN DOE,-11002,8.00,PENDINGTEST000003,\n',
+    );
+
+    const { transactions } = parseAmExStatement(csvFilePath);
+
+    expect(transactions.map((t) => t.status)).to.deep.equal(['pending', 'posted', 'posted']);
+  });
+});
+
+describe('Rejected rows', () => {
+  const csvFilePath = path.join(os.tmpdir(), `amex-rejected-${process.pid}.csv`);
+
+  afterEach(() => {
+    if (fs.existsSync(csvFilePath)) {
+      fs.unlinkSync(csvFilePath);
+    }
+  });
+
+  it('should keep the raw cell values of rows that fail to parse', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,N/A,REJECTTEST0000001\n',
+    );
+
+    const { errors } = parseAmExStatement(csvFilePath);
+
+    expect(errors).to.have.length(1);
+    expect(errors[0].error).to.equal('Row 2: Invalid amount format "N/A"');
+    expect(errors[0].values).to.deep.equal({
+      date: '04/10/2025',
+      dateProcessed: '05/10/2025',
+      description: 'COLES',
+      cardMember: 'JOHN DOE',
+      accountNumber: '-11002',
+      amount: 'N/A',
+      reference: 'REJECTTEST0000001',
+    });
+  });
+
+  it('should parse corrected raw values like a statement row', () => {
+    const values = {
+      date: '10/04/2025',
+      dateProcessed: '10/05/2025',
+      description: 'COLES',
+      cardMember: 'JOHN DOE',
+      accountNumber: '-11002',
+      amount: '-45.10',
+      reference: 'REJECTTEST0000001',
+    };
+
+    const transaction = parseRawTransaction(values, 2, {
+      profile: {
+        name: 'Negative charges',
+        columns: {},
+        dateFormat: 'MM/DD/YYYY',
+        signConvention: 'charges-negative',
+      },
+      dateFormat: 'MM/DD/YYYY',
+    });
+
+    expect(transaction).to.include({ date: '2025-10-04', dateProcessed: '2025-10-05', amount: 45.1, status: 'posted' });
+    expect(() => parseRawTransaction({ ...values, amount: 'N/A' }, 2)).to.throw('Row 2: Invalid amount format');
+  });
+});
+
+describe('Streaming parser', () => {
+  const csvFilePath = path.join(os.tmpdir(), `amex-stream-${process.pid}.csv`);
+  const xlsxFilePath = path.join(os.tmpdir(), `amex-stream-${process.pid}.xlsx`);
+  const header = ['Date', 'Date Processed', 'Description', 'Card Member', 'Account #', 'Amount', 'Reference'];
+
+  // Enough rows to span several 64KB read blocks, with quoted, multi-line and malformed cells mixed in
+  const buildRows = (count: number) =>
+    Array.from({ length: count }, (_, i) => [
+      `${String((i % 28) + 1).padStart(2, '0')}/${String((i % 12) + 1).padStart(2, '0')}/2024`,
+      `${String((i % 28) + 1).padStart(2, '0')}/${String((i % 12) + 1).padStart(2, '0')}/2024`,
+      i % 7 === 0 ? `"MERCHANT ${i}, ""QUOTED""\r\nSECOND LINE"` : `MERCHANT ${i} SYDNEY`,
+      'JOHN DOE',
+      '-11002',
+      i % 500 === 499 ? 'abc' : (i % 300 === 0 ? -(i / 100) : i / 100 + 1).toFixed(2),
+      `STREAM${String(i).padStart(8, '0')}`,
+    ]);
+
+  afterEach(() => {
+    [csvFilePath, xlsxFilePath].forEach((filePath) => {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    });
+  });
+
+  it('should parse a large CSV in chunks exactly like a whole-file parse', () => {
+    const rows = buildRows(3000);
+    fs.writeFileSync(csvFilePath, '\ufeff' + [header, ...rows].map((row) => row.join(',')).join('\r\n') + '\r\n');
+
+    const whole = parseAmExStatement(csvFilePath);
+    const stream = streamAmExCsv(csvFilePath);
+    const chunks = Array.from(stream.chunks(250));
+
+    expect(whole.transactions).to.have.length(2994);
+    expect(whole.errors).to.have.length(6);
+    expect(whole.transactions[0].description).to.equal('MERCHANT 0, "QUOTED"\r\nSECOND LINE');
+    expect(stream.totalRows).to.equal(3000);
+    expect(chunks).to.have.length(12);
+    expect(chunks.map((chunk) => chunk.rowsRead)).to.deep.equal(chunks.map((_, i) => (i + 1) * 250));
+    expect(chunks.flatMap((chunk) => chunk.transactions)).to.deep.equal(whole.transactions);
+    expect(chunks.flatMap((chunk) => chunk.errors)).to.deep.equal(whole.errors);
+  });
+
+  it('should stream XLSX worksheets with the same results as a whole-sheet parse', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([['Statement export'], [], header, ...buildRows(2500)]),
+      'Transaction Details',
+    );
+    XLSX.writeFile(workbook, xlsxFilePath, { bookType: 'xlsx' });
+
+    const whole = parseAmExStatement(xlsxFilePath);
+    const stream = streamAmExWorkbook(xlsxFilePath);
+    const chunks = Array.from(stream.chunks(400));
+
+    expect(stream.headerRowNumber).to.equal(2);
+    expect(stream.totalRows).to.equal(2500);
+    expect(whole.transactions).to.have.length(2495);
+    expect(chunks.flatMap((chunk) => chunk.transactions)).to.deep.equal(whole.transactions);
+    expect(chunks.flatMap((chunk) => chunk.errors)).to.deep.equal(whole.errors);
+  });
+});
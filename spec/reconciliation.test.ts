@@ -48,6 +48,8 @@ describe('Reconciliation Service', () => {
     card_member: 'John Doe',
     account_number: '****1234',
     amount: 49.99,
+    amount_minor: 4999,
+    currency: 'AUD',
     appears_on_statement: 'Amazon',
     country: 'US',
     reference: 'REF001',
@@ -191,9 +193,9 @@ describe('Reconciliation Service', () => {
     it('should handle multiple transactions', () => {
       const service = reconciliationService as any;
 
-      const card1 = { ...mockCardTransaction, id: 1, reference: 'REF001', amount: 100 };
-      const card2 = { ...mockCardTransaction, id: 2, reference: 'REF002', amount: 50 };
-      const card3 = { ...mockCardTransaction, id: 3, reference: 'REF003', amount: 25 };
+      const card1 = { ...mockCardTransaction, id: 1, reference: 'REF001', amount: 100, amount_minor: 10000 };
+      const card2 = { ...mockCardTransaction, id: 2, reference: 'REF002', amount: 50, amount_minor: 5000 };
+      const card3 = { ...mockCardTransaction, id: 3, reference: 'REF003', amount: 25, amount_minor: 2500 };
 
       const ynab1 = { ...mockYnabTransaction, id: 'ynab-1', amount: 100000 };
       const ynab2 = { ...mockYnabTransaction, id: 'ynab-2', amount: 50000 };
@@ -209,7 +211,7 @@ describe('Reconciliation Service', () => {
   describe('edge cases', () => {
     it('should handle zero amounts', () => {
       const reconcile = reconciliationService as any;
-      const cardZero = { ...mockCardTransaction, amount: 0 };
+      const cardZero = { ...mockCardTransaction, amount: 0, amount_minor: 0 };
       const ynabZero = { ...mockYnabTransaction, amount: 0 };
 
       const candidates = reconcile.findMatchingYnabTransactions(cardZero, [ynabZero]);
@@ -218,7 +220,7 @@ describe('Reconciliation Service', () => {
 
     it('should handle negative amounts (credits)', () => {
       const reconcile = reconciliationService as any;
-      const cardCredit = { ...mockCardTransaction, amount: -25.5 };
+      const cardCredit = { ...mockCardTransaction, amount: -25.5, amount_minor: -2550 };
       const ynabCredit = { ...mockYnabTransaction, amount: -25500 };
 
       const candidates = reconcile.findMatchingYnabTransactions(cardCredit, [ynabCredit]);
@@ -227,7 +229,7 @@ describe('Reconciliation Service', () => {
 
     it('should handle very large amounts', () => {
       const reconcile = reconciliationService as any;
-      const cardLarge = { ...mockCardTransaction, amount: 9999.99 };
+      const cardLarge = { ...mockCardTransaction, amount: 9999.99, amount_minor: 999999 };
       const ynabLarge = { ...mockYnabTransaction, amount: 9999990 };
 
       const candidates = reconcile.findMatchingYnabTransactions(cardLarge, [ynabLarge]);
@@ -236,7 +238,7 @@ describe('Reconciliation Service', () => {
 
     it('should handle very small amounts', () => {
       const reconcile = reconciliationService as any;
-      const cardSmall = { ...mockCardTransaction, amount: 0.01 };
+      const cardSmall = { ...mockCardTransaction, amount: 0.01, amount_minor: 1 };
       const ynabSmall = { ...mockYnabTransaction, amount: 10 };
 
       const candidates = reconcile.findMatchingYnabTransactions(cardSmall, [ynabSmall]);
@@ -248,7 +250,7 @@ describe('Reconciliation Service', () => {
     it('should match positive card amount with negative YNAB amount (typical expense)', () => {
       const reconcile = reconciliationService as any;
       // Card shows expenses as positive
-      const cardExpense = { ...mockCardTransaction, amount: 30.00 };
+      const cardExpense = { ...mockCardTransaction, amount: 30.00, amount_minor: 3000 };
       // YNAB shows expenses as negative
       const ynabExpense = { ...mockYnabTransaction, amount: -30000 };
 
@@ -263,6 +265,7 @@ describe('Reconciliation Service', () => {
         date: '2026-02-01',
         description: 'COLES STANHOPE GARDENS',
         amount: 30.00,
+        amount_minor: 3000,
         reference: 'AT260320012000010163948',
       };
       const colesYnab: YnabTransaction = {
@@ -284,6 +287,7 @@ describe('Reconciliation Service', () => {
         date: '2026-02-01',
         description: 'BUNNINGS GROUP LTD RIVE',
         amount: 414.00,
+        amount_minor: 41400,
         reference: 'AT260320003000010160795',
       };
       const bunningsYnab: YnabTransaction = {
@@ -300,7 +304,7 @@ describe('Reconciliation Service', () => {
 
     it('should NOT match when amounts differ despite sign', () => {
       const reconcile = reconciliationService as any;
-      const cardExpense = { ...mockCardTransaction, amount: 30.00 };
+      const cardExpense = { ...mockCardTransaction, amount: 30.00, amount_minor: 3000 };
       const ynabExpense = { ...mockYnabTransaction, amount: -50000 }; // -$50.00
 
       const candidates = reconcile.findMatchingYnabTransactions(cardExpense, [ynabExpense]);
@@ -310,7 +314,7 @@ describe('Reconciliation Service', () => {
     it('should match negative card amount (refund) with positive YNAB amount', () => {
       const reconcile = reconciliationService as any;
       // Card refund (negative on card)
-      const cardRefund = { ...mockCardTransaction, amount: -50.00 };
+      const cardRefund = { ...mockCardTransaction, amount: -50.00, amount_minor: -5000 };
       // YNAB inflow (positive in YNAB)
       const ynabInflow = { ...mockYnabTransaction, amount: 50000 };
 
@@ -322,8 +326,8 @@ describe('Reconciliation Service', () => {
       const service = reconciliationService as any;
 
       // Card transactions (all positive for expenses, negative for refunds)
-      const cardExpense = { ...mockCardTransaction, id: 1, amount: 100.00, reference: 'EXP1' };
-      const cardRefund = { ...mockCardTransaction, id: 2, amount: -25.00, reference: 'REF1' };
+      const cardExpense = { ...mockCardTransaction, id: 1, amount: 100.00, amount_minor: 10000, reference: 'EXP1' };
+      const cardRefund = { ...mockCardTransaction, id: 2, amount: -25.00, amount_minor: -2500, reference: 'REF1' };
 
       // YNAB transactions (negative for expenses, positive for inflows)
       const ynabExpense = { ...mockYnabTransaction, id: 'y1', amount: -100000 };
@@ -342,7 +346,7 @@ describe('Reconciliation Service', () => {
     it('should respect amount tolerance even with opposite signs', () => {
       const reconcile = reconciliationService as any;
       // Card: $30.00
-      const cardExpense = { ...mockCardTransaction, amount: 30.00 };
+      const cardExpense = { ...mockCardTransaction, amount: 30.00, amount_minor: 3000 };
       // YNAB: -$30.005 (0.005 difference, clearly within 0.01 tolerance)
       const ynabExpense = { ...mockYnabTransaction, amount: -30005 };
 
@@ -353,7 +357,7 @@ describe('Reconciliation Service', () => {
     it('should not match when difference exceeds tolerance with opposite signs', () => {
       const reconcile = reconciliationService as any;
       // Card: $30.00
-      const cardExpense = { ...mockCardTransaction, amount: 30.00 };
+      const cardExpense = { ...mockCardTransaction, amount: 30.00, amount_minor: 3000 };
       // YNAB: -$30.02 (exceeds 0.01 tolerance)
       const ynabExpense = { ...mockYnabTransaction, amount: -30020 };
 
@@ -372,7 +376,7 @@ describe('Reconciliation Service', () => {
       const service = reconciliationService as any;
 
       // Card transaction
-      const cardTxn = { ...mockCardTransaction, amount: 100.00 };
+      const cardTxn = { ...mockCardTransaction, amount: 100.00, amount_minor: 10000 };
 
       // YNAB transactions from different accounts
       const ynabCreditCard = {
@@ -418,7 +422,7 @@ describe('Reconciliation Service', () => {
       const service = reconciliationService as any;
 
       // Card transaction for $50
-      const cardTxn = { ...mockCardTransaction, amount: 50.00 };
+      const cardTxn = { ...mockCardTransaction, amount: 50.00, amount_minor: 5000 };
 
       // YNAB transaction from checking account with same amount
       const ynabChecking = {
@@ -441,8 +445,8 @@ describe('Reconciliation Service', () => {
       const service = reconciliationService as any;
 
       // Two card transactions
-      const card1 = { ...mockCardTransaction, id: 1, amount: 25.00, reference: 'REF1' };
-      const card2 = { ...mockCardTransaction, id: 2, amount: 75.00, reference: 'REF2' };
+      const card1 = { ...mockCardTransaction, id: 1, amount: 25.00, amount_minor: 2500, reference: 'REF1' };
+      const card2 = { ...mockCardTransaction, id: 2, amount: 75.00, amount_minor: 7500, reference: 'REF2' };
 
       // Two YNAB transactions from credit card account
       const ynab1 = {
@@ -486,7 +490,7 @@ describe('Reconciliation Service', () => {
       const service = reconciliationService as any;
 
       // Single card transaction
-      const cardTxn = { ...mockCardTransaction, amount: 100.00 };
+      const cardTxn = { ...mockCardTransaction, amount: 100.00, amount_minor: 10000 };
 
       // YNAB has this transaction on credit card
       const ynabCreditCard = {
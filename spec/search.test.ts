@@ -0,0 +1,26 @@
+import { expect } from 'chai';
+import { toFtsQuery } from '../src/search';
+
+describe('Transaction Search', () => {
+  it('should quote every word so all of them must match', () => {
+    expect(toFtsQuery('coles  sydney')).to.equal('"coles" "sydney"');
+  });
+
+  it('should keep prefix and phrase queries', () => {
+    expect(toFtsQuery('woolw*')).to.equal('"woolw"*');
+    expect(toFtsQuery('"coles sydney" groc*')).to.equal('"coles sydney" "groc"*');
+    expect(toFtsQuery('"coles syd"*')).to.equal('"coles syd"*');
+    expect(toFtsQuery('"coles syd')).to.equal('"coles syd"');
+  });
+
+  it('should search FTS5 syntax as text', () => {
+    expect(toFtsQuery('description:uber OR NOT')).to.equal('"description:uber" "OR" "NOT"');
+    expect(toFtsQuery('7-eleven')).to.equal('"7-eleven"');
+    expect(toFtsQuery('mc"donalds')).to.equal('"mcdonalds"');
+  });
+
+  it('should return null when there is nothing to search for', () => {
+    expect(toFtsQuery('')).to.be.null;
+    expect(toFtsQuery(' * - "" ')).to.be.null;
+  });
+});
@@ -1,5 +1,6 @@
 import { expect } from 'chai';
 import request from 'supertest';
+import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createApp } from '../src/server/app';
@@ -48,6 +49,129 @@ describe('API Server', () => {
       expect(res.body.data.importedRecords).to.equal(164);
     });
 
+    it('should import CSV file successfully', async () => {
+      const csvFile = path.join(__dirname, '..', 'test-api.csv');
+      fs.writeFileSync(
+        csvFile,
+        'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,45.10,CSVAPITEST000000001\n',
+      );
+
+      try {
+        const res = await request(app).post('/api/import').attach('file', csvFile);
+
+        expect(res.status).to.equal(200);
+        expect(res.body.success).to.be.true;
+        expect(res.body.data.totalRecords).to.equal(1);
+        expect(res.body.data.importedRecords).to.equal(1);
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    it('should refuse a repeat upload of the same file unless forced', async () => {
+      const csvFile = path.join(__dirname, '..', 'test-api-repeat.csv');
+      fs.writeFileSync(
+        csvFile,
+        'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,45.10,CSVAPITEST000000003\n',
+      );
+
+      try {
+        const firstRes = await request(app).post('/api/import').attach('file', csvFile);
+        expect(firstRes.status).to.equal(200);
+
+        const repeatRes = await request(app).post('/api/import').attach('file', csvFile);
+        expect(repeatRes.status).to.equal(409);
+        expect(repeatRes.body.code).to.equal('ALREADY_IMPORTED');
+        expect(repeatRes.body.error).to.match(/^File already imported on .* as import #\d+/);
+
+        const stageRes = await request(app).post('/api/import/staged').attach('file', csvFile);
+        expect(stageRes.status).to.equal(409);
+        expect(stageRes.body.code).to.equal('ALREADY_IMPORTED');
+
+        // Forced through the file check, the row itself is still skipped as a duplicate reference
+        const forcedRes = await request(app).post('/api/import').field('force', 'true').attach('file', csvFile);
+        expect(forcedRes.status).to.equal(207);
+        expect(forcedRes.body.data.skippedRecords).to.equal(1);
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    it('should accept worksheet and header row overrides', async () => {
+      const csvFile = path.join(__dirname, '..', 'test-api-override.csv');
+      fs.writeFileSync(
+        csvFile,
+        'Exported from AmEx\n' +
+          'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,45.10,CSVAPITEST000000002\n',
+      );
+
+      try {
+        const res = await request(app)
+          .post('/api/import/validate')
+          .field('headerRow', '2')
+          .attach('file', csvFile);
+
+        expect(res.status).to.equal(200);
+        expect(res.body.data.totalRecords).to.equal(1);
+        expect(res.body.data.source).to.deep.equal({ parser: 'amex-csv', headerRow: 2 });
+
+        const badRes = await request(app)
+          .post('/api/import')
+          .field('headerRow', 'zero')
+          .attach('file', csvFile);
+
+        expect(badRes.status).to.equal(400);
+        expect(badRes.body.code).to.equal('INVALID_HEADER_ROW');
+
+        const badDateRes = await request(app)
+          .post('/api/import/validate')
+          .field('dateFormat', 'YYYY/DD/MM')
+          .attach('file', csvFile);
+
+        expect(badDateRes.status).to.equal(400);
+        expect(badDateRes.body.code).to.equal('INVALID_DATE_FORMAT');
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    it('should import a ZIP archive of statements', async () => {
+      const zipFile = path.join(__dirname, '..', 'test-api-batch.zip');
+      const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+      const container = XLSX.CFB.utils.cfb_new();
+      XLSX.CFB.utils.cfb_add(
+        container,
+        '/october.csv',
+        Buffer.from(header + '04/10/2025,05/10/2025,COLES 0123,JOHN DOE,-11002,45.10,ZIPAPITEST0000001\n'),
+      );
+      XLSX.CFB.utils.cfb_add(
+        container,
+        '/november.csv',
+        Buffer.from(header + '04/11/2025,05/11/2025,COLES 0123,JOHN DOE,-11002,12.00,ZIPAPITEST0000002\n'),
+      );
+      fs.writeFileSync(zipFile, XLSX.CFB.write(container, { fileType: 'zip', type: 'buffer' }));
+
+      try {
+        const res = await request(app).post('/api/import').attach('file', zipFile);
+
+        expect(res.status).to.equal(200);
+        expect(res.body.data.batchId).to.be.a('string');
+        expect(res.body.data.files).to.have.length(2);
+        expect(res.body.data.importedRecords).to.equal(2);
+
+        const historyRes = await request(app).get('/api/import-history');
+        const batchLogs = historyRes.body.data.logs.filter(
+          (log: { batchId?: string }) => log.batchId === res.body.data.batchId,
+        );
+        expect(batchLogs).to.have.length(2);
+      } finally {
+        fs.unlinkSync(zipFile);
+      }
+    });
+
     it('should handle missing file', async () => {
       const res = await request(app).post('/api/import');
 
@@ -67,6 +191,7 @@ describe('API Server', () => {
 
       expect(res.status).to.equal(400);
       expect(res.body.success).to.be.false;
+      expect(res.body.code).to.equal('INVALID_FILE_FORMAT');
 
       fs.unlinkSync(tempFile);
     });
@@ -91,6 +216,211 @@ describe('API Server', () => {
       expect(res.status).to.equal(400);
       expect(res.body.success).to.be.false;
     });
+
+    it('should reject files no parser recognises by their contents', async () => {
+      const tempFile = path.join(__dirname, '..', 'test-validate.xlsx');
+      fs.writeFileSync(tempFile, 'not really a workbook');
+
+      try {
+        const res = await request(app).post('/api/import/validate').attach('file', tempFile);
+
+        expect(res.status).to.equal(400);
+        expect(res.body.code).to.equal('INVALID_FILE_FORMAT');
+      } finally {
+        fs.unlinkSync(tempFile);
+      }
+    });
+
+    it('should reject uploads larger than MAX_FILE_SIZE', async () => {
+      const previous = process.env.MAX_FILE_SIZE;
+      process.env.MAX_FILE_SIZE = '100';
+
+      try {
+        const res = await request(createApp())
+          .post('/api/import/validate')
+          .attach('file', Buffer.alloc(200, 'a'), 'large.csv');
+
+        expect(res.status).to.equal(400);
+        expect(res.body.code).to.equal('UPLOAD_ERROR');
+        expect(res.body.error).to.equal('File is too large');
+      } finally {
+        if (previous === undefined) {
+          delete process.env.MAX_FILE_SIZE;
+        } else {
+          process.env.MAX_FILE_SIZE = previous;
+        }
+      }
+    });
+  });
+
+  describe('/api/import/profiles', () => {
+    const profile = {
+      name: 'Test Visa',
+      columns: { date: 'Transaction Date', description: 'Merchant', amount: 'Debit/Credit' },
+      referenceColumn: 'Txn ID',
+      dateFormat: 'MM/DD/YYYY',
+      signConvention: 'charges-negative',
+      defaults: { cardMember: 'JANE DOE', accountNumber: '-4242' },
+    };
+
+    it('should create, list, update and delete profiles', async () => {
+      const createRes = await request(app).post('/api/import/profiles').send(profile);
+
+      expect(createRes.status).to.equal(201);
+      expect(createRes.body.data).to.include({ name: 'Test Visa', referenceColumn: 'Txn ID' });
+      const id = createRes.body.data.id;
+
+      const duplicateRes = await request(app).post('/api/import/profiles').send(profile);
+      expect(duplicateRes.status).to.equal(409);
+      expect(duplicateRes.body.code).to.equal('DUPLICATE_PROFILE');
+
+      const listRes = await request(app).get('/api/import/profiles');
+      expect(listRes.body.data.map((p: { id: number }) => p.id)).to.include(id);
+
+      const updateRes = await request(app)
+        .put(`/api/import/profiles/${id}`)
+        .send({ ...profile, dateFormat: 'DD/MM/YYYY' });
+      expect(updateRes.status).to.equal(200);
+      expect(updateRes.body.data.dateFormat).to.equal('DD/MM/YYYY');
+
+      const deleteRes = await request(app).delete(`/api/import/profiles/${id}`);
+      expect(deleteRes.status).to.equal(200);
+
+      const missingRes = await request(app).delete(`/api/import/profiles/${id}`);
+      expect(missingRes.status).to.equal(404);
+    });
+
+    it('should reject profiles without required columns', async () => {
+      const res = await request(app)
+        .post('/api/import/profiles')
+        .send({ ...profile, columns: { date: 'Transaction Date' } });
+
+      expect(res.status).to.equal(400);
+      expect(res.body.code).to.equal('VALIDATION_ERROR');
+      expect(res.body.error).to.include('Column for amount is required');
+    });
+
+    it('should import a bank CSV using a profile', async () => {
+      const createRes = await request(app)
+        .post('/api/import/profiles')
+        .send({ ...profile, name: 'Test Visa Import' });
+      const csvFile = path.join(__dirname, '..', 'test-api-profile.csv');
+      fs.writeFileSync(
+        csvFile,
+        'Txn ID,Transaction Date,Merchant,Debit/Credit\nVISAAPITEST0001,10/04/2025,WOOLWORTHS METRO,-12.50\n',
+      );
+
+      try {
+        const res = await request(app)
+          .post('/api/import')
+          .field('profileId', String(createRes.body.data.id))
+          .attach('file', csvFile);
+
+        expect(res.status).to.equal(200);
+        expect(res.body.data.importedRecords).to.equal(1);
+        expect(res.body.data.source.parser).to.equal('profile:Test Visa Import');
+
+        const missingRes = await request(app)
+          .post('/api/import/validate')
+          .field('profileId', '99999')
+          .attach('file', csvFile);
+
+        expect(missingRes.status).to.equal(404);
+        expect(missingRes.body.code).to.equal('PROFILE_NOT_FOUND');
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+  });
+
+  describe('/api/import/staged', () => {
+    const csvFile = path.join(__dirname, '..', 'test-api-staged.csv');
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        csvFile,
+        'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,STAGED COFFEE,JOHN DOE,-11002,4.50,STAGEDAPITEST0001\n' +
+          '04/10/2025,05/10/2025,,JOHN DOE,-11002,9.00,STAGEDAPITEST0002\n' +
+          '05/10/2025,05/10/2025,STAGED LUNCH,JOHN DOE,-11002,18.00,STAGEDAPITEST0003\n',
+      );
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(csvFile)) {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    it('should stage, fix, drop and commit rows', async () => {
+      const before = getTransactionCount();
+      const stageRes = await request(app).post('/api/import/staged').attach('file', csvFile);
+
+      expect(stageRes.status).to.equal(201);
+      expect(stageRes.body.data.status).to.equal('pending');
+      expect(stageRes.body.data.fileName).to.equal('test-api-staged.csv');
+      expect(stageRes.body.data.parseErrors).to.have.length(1);
+      expect(stageRes.body.data.rows).to.have.length(2);
+      expect(getTransactionCount()).to.equal(before);
+
+      const { id, rows } = stageRes.body.data;
+      const fixRes = await request(app)
+        .patch(`/api/import/staged/${id}/rows/${rows[0].id}`)
+        .send({ transaction: { description: 'STAGED FLAT WHITE', amount: '5.20' } });
+
+      expect(fixRes.status).to.equal(200);
+      expect(fixRes.body.data.transaction).to.include({ description: 'STAGED FLAT WHITE', amount: 5.2 });
+
+      const dropRes = await request(app).patch(`/api/import/staged/${id}/rows/${rows[1].id}`).send({ dropped: true });
+      expect(dropRes.body.data.dropped).to.be.true;
+
+      const listRes = await request(app).get('/api/import/staged');
+      expect(listRes.body.data.map((staged: { id: number }) => staged.id)).to.include(id);
+
+      const commitRes = await request(app).post(`/api/import/staged/${id}/commit`);
+      expect(commitRes.status).to.equal(200);
+      expect(commitRes.body.data.importedRecords).to.equal(1);
+      expect(commitRes.body.data.errors).to.have.length(1); // the unparseable row
+      expect(getTransactionCount()).to.equal(before + 1);
+
+      const closedRes = await request(app).post(`/api/import/staged/${id}/commit`);
+      expect(closedRes.status).to.equal(409);
+      expect(closedRes.body.code).to.equal('STAGED_IMPORT_CLOSED');
+    });
+
+    it('should discard a staged import without touching transactions', async () => {
+      const before = getTransactionCount();
+      // The first test commits this same file
+      const stageRes = await request(app).post('/api/import/staged').field('force', 'true').attach('file', csvFile);
+
+      const discardRes = await request(app).delete(`/api/import/staged/${stageRes.body.data.id}`);
+      expect(discardRes.status).to.equal(200);
+      expect(discardRes.body.data.discarded).to.be.true;
+
+      const detailRes = await request(app).get(`/api/import/staged/${stageRes.body.data.id}`);
+      expect(detailRes.body.data.status).to.equal('discarded');
+      expect(detailRes.body.data.rows).to.be.empty;
+      expect(getTransactionCount()).to.equal(before);
+    });
+
+    it('should reject invalid row changes and unknown staged imports', async () => {
+      // The first test commits this same file
+      const stageRes = await request(app).post('/api/import/staged').field('force', 'true').attach('file', csvFile);
+      const { id, rows } = stageRes.body.data;
+
+      const badRes = await request(app)
+        .patch(`/api/import/staged/${id}/rows/${rows[0].id}`)
+        .send({ transaction: { amount: 'lots' } });
+      expect(badRes.status).to.equal(400);
+      expect(badRes.body.code).to.equal('VALIDATION_ERROR');
+
+      const missingRes = await request(app).get('/api/import/staged/99999');
+      expect(missingRes.status).to.equal(404);
+
+      const statusRes = await request(app).get('/api/import/staged?status=unknown');
+      expect(statusRes.status).to.equal(400);
+      expect(statusRes.body.code).to.equal('INVALID_STATUS');
+    });
   });
 
   describe('GET /api/transactions', () => {
@@ -109,18 +439,37 @@ describe('API Server', () => {
       expect(res.body.data.transactions.length).to.be.greaterThan(0);
       expect(res.body.data.total).to.be.greaterThan(0);
       expect(res.body.data.limit).to.equal(50);
-      expect(res.body.data.offset).to.equal(0);
     });
 
-    it('should support pagination', async () => {
-      const res = await request(app)
-        .get('/api/transactions')
-        .query({ limit: 10, offset: 5 });
+    it('should page through transactions with cursors', async () => {
+      const all = await request(app).get('/api/transactions').query({ sort: 'amount' });
+      const references: string[] = [];
+      let cursor: string | undefined;
 
-      expect(res.status).to.equal(200);
-      expect(res.body.data.transactions.length).to.be.at.most(10);
-      expect(res.body.data.limit).to.equal(10);
-      expect(res.body.data.offset).to.equal(5);
+      do {
+        const res = await request(app).get('/api/transactions').query({ sort: 'amount', limit: 2, cursor });
+        expect(res.status).to.equal(200);
+        expect(res.body.data.limit).to.equal(2);
+        expect(res.body.data.total).to.equal(all.body.data.total);
+        references.push(...res.body.data.transactions.map((t: any) => t.reference));
+        cursor = res.body.data.nextCursor;
+      } while (cursor);
+
+      expect(references).to.deep.equal(all.body.data.transactions.map((t: any) => t.reference));
+      expect(all.body.data.nextCursor).to.be.undefined;
+    });
+
+    it('should reject a malformed cursor or one from a different query', async () => {
+      const first = await request(app).get('/api/transactions').query({ limit: 1 });
+      const cursor = first.body.data.nextCursor;
+      expect(cursor).to.be.a('string');
+
+      const malformed = Buffer.from('["key"]').toString('base64url');
+      for (const query of [{ cursor: 'not-a-cursor' }, { cursor: malformed }, { cursor, sort: 'amount' }]) {
+        const res = await request(app).get('/api/transactions').query({ limit: 1, ...query });
+        expect(res.status, JSON.stringify(query)).to.equal(400);
+        expect(res.body.code).to.equal('VALIDATION_ERROR');
+      }
     });
 
     it('should enforce limit bounds', async () => {
@@ -130,6 +479,61 @@ describe('API Server', () => {
 
       expect(res.body.data.limit).to.equal(500); // Max limit
     });
+
+    it('should search transactions with q', async () => {
+      const res = await request(app).get('/api/transactions').query({ q: '"coles 0123" sydn*' });
+
+      expect(res.status).to.equal(200);
+      expect(res.body.data.transactions.map((t: any) => t.reference)).to.include('CSVAPITEST000000001');
+      expect(res.body.data.transactions.every((t: any) => /COLES 0123 SYDN/.test(t.description))).to.be.true;
+      expect(res.body.data.total).to.equal(res.body.data.transactions.length);
+
+      const none = await request(app).get('/api/transactions').query({ q: 'nosuchmerchantxyz' });
+      expect(none.body.data.transactions).to.be.empty;
+      expect(none.body.data.total).to.equal(0);
+    });
+
+    it('should filter and sort transactions with totals for the filtered set', async () => {
+      const res = await request(app).get('/api/transactions').query({
+        startDate: '2025-10-04',
+        endDate: '2025-10-04',
+        cardMember: 'john doe',
+        minAmount: '45.1',
+        maxAmount: '45.1',
+        reconciled: 'false',
+        sort: 'amount',
+        order: 'asc',
+      });
+
+      expect(res.status).to.equal(200);
+      expect(res.body.data.transactions.map((t: any) => t.reference)).to.include('CSVAPITEST000000001');
+      expect(res.body.data.transactions.every((t: any) => t.amount === 45.1 && t.date === '2025-10-04')).to.be.true;
+      expect(res.body.data.total).to.equal(res.body.data.transactions.length);
+      expect(res.body.data).to.not.have.property('pages');
+    });
+
+    it('should reject malformed filters and sort fields', async () => {
+      for (const query of [
+        { startDate: '04/10/2025' },
+        { startDate: '2025-10-05', endDate: '2025-10-04' },
+        { minAmount: 'ten' },
+        { reconciled: 'yes' },
+        { importId: '0' },
+        { sort: 'reference' },
+        { order: 'up' },
+      ]) {
+        const res = await request(app).get('/api/transactions').query(query);
+        expect(res.status, JSON.stringify(query)).to.equal(400);
+        expect(res.body.code).to.equal('VALIDATION_ERROR');
+      }
+    });
+
+    it('should reject a search with nothing to search for', async () => {
+      const res = await request(app).get('/api/transactions').query({ q: '*' });
+
+      expect(res.status).to.equal(400);
+      expect(res.body.code).to.equal('VALIDATION_ERROR');
+    });
   });
 
   describe('GET /api/transactions/:reference', () => {
@@ -160,6 +564,90 @@ describe('API Server', () => {
     });
   });
 
+  describe('Background import jobs', () => {
+    const csvFile = path.join(__dirname, '..', 'test-api-job.csv');
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        csvFile,
+        'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,JOB COFFEE,JOHN DOE,-11002,4.50,JOBAPITEST0000001\n' +
+          '05/10/2025,05/10/2025,JOB LUNCH,JOHN DOE,-11002,18.00,JOBAPITEST0000002\n',
+      );
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(csvFile)) {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    // Read a whole SSE response as text
+    const readStream = (res: any, callback: (err: Error | null, body: string) => void) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => (body += chunk));
+      res.on('end', () => callback(null, body));
+    };
+
+    it('should import in the background and report the result', async () => {
+      const startRes = await request(app).post('/api/import').field('async', 'true').attach('file', csvFile);
+
+      expect(startRes.status).to.equal(202);
+      expect(startRes.body.data).to.include({ fileName: 'test-api-job.csv', status: 'queued' });
+
+      const jobId = startRes.body.data.id;
+      const eventsRes = await request(app).get(`/api/jobs/${jobId}/events`).buffer(true).parse(readStream);
+
+      expect(eventsRes.status).to.equal(200);
+      expect(eventsRes.headers['content-type']).to.match(/^text\/event-stream/);
+      expect(eventsRes.body).to.match(/event: completed\ndata: /);
+
+      const jobRes = await request(app).get(`/api/jobs/${jobId}`);
+      expect(jobRes.status).to.equal(200);
+      expect(jobRes.body.data.status).to.equal('completed');
+      expect(jobRes.body.data.result.importedRecords).to.equal(2);
+      expect(jobRes.body.data.progress).to.include({ stage: 'inserted', rowsRead: 2, totalRows: 2 });
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const res = await request(app).get('/api/jobs/no-such-job');
+      expect(res.status).to.equal(404);
+      expect(res.body.code).to.equal('NOT_FOUND');
+
+      const eventsRes = await request(app).get('/api/jobs/no-such-job/events');
+      expect(eventsRes.status).to.equal(404);
+    });
+  });
+
+  describe('GET /api/transactions/:reference/changes', () => {
+    it('should return the changes made by an upsert import', async () => {
+      const csvFile = path.join(__dirname, '..', 'test-api-upsert.csv');
+      const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+
+      try {
+        fs.writeFileSync(csvFile, header + '04/10/2025,05/10/2025,KMART,JOHN DOE,-11002,20.00,UPSERTAPITEST0001\n');
+        await request(app).post('/api/import').attach('file', csvFile);
+
+        fs.writeFileSync(csvFile, header + '04/10/2025,05/10/2025,KMART,JOHN DOE,-11002,25.00,UPSERTAPITEST0001\n');
+        const upsertRes = await request(app).post('/api/import').field('upsert', 'true').attach('file', csvFile);
+
+        expect(upsertRes.status).to.equal(200);
+        expect(upsertRes.body.data.updatedRecords).to.equal(1);
+
+        const res = await request(app).get('/api/transactions/UPSERTAPITEST0001/changes');
+        expect(res.status).to.equal(200);
+        expect(res.body.data).to.have.length(1);
+        expect(res.body.data[0]).to.include({ field: 'amount', oldValue: '20', newValue: '25' });
+
+        const missingRes = await request(app).get('/api/transactions/NONEXISTENT_REF_12345/changes');
+        expect(missingRes.status).to.equal(404);
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+  });
+
   describe('GET /api/import-history', () => {
     it('should list import history', async () => {
       // Ensure data is imported
@@ -177,12 +665,176 @@ describe('API Server', () => {
     });
 
     it('should support pagination in history', async () => {
+      const all = await request(app).get('/api/import-history');
+      const first = await request(app).get('/api/import-history').query({ limit: 1 });
+
+      expect(first.status).to.equal(200);
+      expect(first.body.data.limit).to.equal(1);
+      expect(first.body.data.total).to.equal(all.body.data.logs.length);
+      expect(first.body.data.logs.map((log: any) => log.id)).to.deep.equal([all.body.data.logs[0].id]);
+
+      if (all.body.data.total > 1) {
+        const next = await request(app)
+          .get('/api/import-history')
+          .query({ limit: 500, cursor: first.body.data.nextCursor });
+        expect(next.body.data.logs.map((log: any) => log.id)).to.deep.equal(
+          all.body.data.logs.slice(1).map((log: any) => log.id),
+        );
+        expect(next.body.data.nextCursor).to.be.undefined;
+      }
+
+      const stale = await request(app).get('/api/import-history').query({ cursor: 'not-a-cursor' });
+      expect(stale.status).to.equal(400);
+      expect(stale.body.code).to.equal('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /api/import-history/:id', () => {
+    it('should return an import log that is not the most recent', async () => {
+      const all = await request(app).get('/api/import-history').query({ limit: 500 });
+      const oldest = all.body.data.logs[all.body.data.logs.length - 1];
+
+      const res = await request(app).get(`/api/import-history/${oldest.id}`);
+      expect(res.status).to.equal(200);
+      expect(res.body.data.id).to.equal(oldest.id);
+      expect(res.body.data.filename).to.equal(oldest.filename);
+    });
+
+    it('should return 404 for an unknown import', async () => {
+      const res = await request(app).get('/api/import-history/99999');
+      expect(res.status).to.equal(404);
+      expect(res.body.code).to.equal('NOT_FOUND');
+    });
+  });
+
+  describe('POST /api/import-history/:id/rollback', () => {
+    it('should roll back an import and refuse a second rollback', async () => {
+      const csvFile = path.join(__dirname, '..', 'test-api-rollback.csv');
+      fs.writeFileSync(
+        csvFile,
+        'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,WRONG FILE,JOHN DOE,-11002,45.10,ROLLBACKAPITEST001\n',
+      );
+
+      try {
+        await request(app).post('/api/import').attach('file', csvFile);
+        const before = getTransactionCount();
+        const historyRes = await request(app).get('/api/import-history');
+        const logId = historyRes.body.data.logs[0].id;
+
+        const res = await request(app).post(`/api/import-history/${logId}/rollback`);
+        expect(res.status).to.equal(200);
+        expect(res.body.data.deletedRecords).to.equal(1);
+        expect(getTransactionCount()).to.equal(before - 1);
+
+        const againRes = await request(app).post(`/api/import-history/${logId}/rollback`);
+        expect(againRes.status).to.equal(409);
+        expect(againRes.body.code).to.equal('ALREADY_ROLLED_BACK');
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    it('should return 404 for an unknown import', async () => {
+      const res = await request(app).post('/api/import-history/99999/rollback');
+      expect(res.status).to.equal(404);
+      expect(res.body.code).to.equal('NOT_FOUND');
+    });
+  });
+
+  describe('/api/import-history/:id/failed-rows', () => {
+    it('should list rejected rows and import them once corrected', async () => {
+      const csvFile = path.join(__dirname, '..', 'test-api-failed-rows.csv');
+      fs.writeFileSync(
+        csvFile,
+        'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+          '04/10/2025,05/10/2025,GOOD ROW,JOHN DOE,-11002,45.10,FAILEDROWAPITEST01\n' +
+          '05/10/2025,05/10/2025,BAD AMOUNT,JOHN DOE,-11002,N/A,FAILEDROWAPITEST02\n',
+      );
+
+      try {
+        await request(app).post('/api/import').attach('file', csvFile);
+        const historyRes = await request(app).get('/api/import-history');
+        const log = historyRes.body.data.logs[0];
+        expect(log.failedRowCount).to.equal(1);
+
+        const rowsRes = await request(app).get(`/api/import-history/${log.id}/failed-rows`);
+        expect(rowsRes.status).to.equal(200);
+        expect(rowsRes.body.data).to.have.length(1);
+        expect(rowsRes.body.data[0].values.amount).to.equal('N/A');
+
+        const rowId = rowsRes.body.data[0].id;
+        const invalidRes = await request(app)
+          .post(`/api/import-history/${log.id}/failed-rows/resubmit`)
+          .send({ rows: [{ id: rowId, values: { colour: 'red' } }] });
+        expect(invalidRes.status).to.equal(400);
+        expect(invalidRes.body.code).to.equal('VALIDATION_ERROR');
+
+        const res = await request(app)
+          .post(`/api/import-history/${log.id}/failed-rows/resubmit`)
+          .send({ rows: [{ id: rowId, values: { ...rowsRes.body.data[0].values, amount: '9.99' } }] });
+        expect(res.status).to.equal(200);
+        expect(res.body.data.importedRecords).to.equal(1);
+        expect(res.body.data.rows[0].resolvedReference).to.equal('FAILEDROWAPITEST02');
+
+        const againRes = await request(app)
+          .post(`/api/import-history/${log.id}/failed-rows/resubmit`)
+          .send({ rows: [{ id: rowId }] });
+        expect(againRes.status).to.equal(409);
+        expect(againRes.body.code).to.equal('ROW_ALREADY_IMPORTED');
+      } finally {
+        fs.unlinkSync(csvFile);
+      }
+    });
+
+    it('should return 404 for an unknown import', async () => {
+      const res = await request(app).get('/api/import-history/99999/failed-rows');
+      expect(res.status).to.equal(404);
+      expect(res.body.code).to.equal('NOT_FOUND');
+    });
+  });
+
+  describe('/api/validation-rules', () => {
+    afterEach(async () => {
+      await request(app).put('/api/validation-rules').send({ rules: {} });
+    });
+
+    it('should list the rules with their global settings', async () => {
+      const res = await request(app).get('/api/validation-rules');
+
+      expect(res.status).to.equal(200);
+      expect(res.body.data.version).to.match(/^v\d+-[0-9a-f]{8}$/);
+      expect(res.body.data.rules).to.deep.include({
+        id: 'country-required',
+        description: 'Country is present',
+        enabled: false,
+        severity: 'warning',
+        defaultEnabled: false,
+        defaultSeverity: 'warning',
+      });
+    });
+
+    it('should replace the global settings', async () => {
+      const before = await request(app).get('/api/validation-rules');
       const res = await request(app)
-        .get('/api/import-history')
-        .query({ limit: 5, offset: 0 });
+        .put('/api/validation-rules')
+        .send({ rules: { 'country-required': { enabled: true, severity: 'info' } } });
 
       expect(res.status).to.equal(200);
-      expect(res.body.data.limit).to.equal(5);
+      expect(res.body.data.version).to.not.equal(before.body.data.version);
+      expect(res.body.data.rules.find((rule: { id: string }) => rule.id === 'country-required')).to.include({
+        enabled: true,
+        severity: 'info',
+      });
+    });
+
+    it('should reject unknown rules', async () => {
+      const res = await request(app)
+        .put('/api/validation-rules')
+        .send({ rules: { 'no-such-rule': { enabled: true } } });
+
+      expect(res.status).to.equal(400);
+      expect(res.body.code).to.equal('VALIDATION_ERROR');
     });
   });
 
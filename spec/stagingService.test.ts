@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import {
+  stageStatement,
+  getStagedImportDetail,
+  reviseStagedRow,
+  commitStagedImport,
+  discardStagedImport,
+} from '../src/services/stagingService';
+import { importAmExStatementSync } from '../src/services/importService';
+import { initializeDatabase, closeDatabase, getTransactionCount, getImportLogs } from '../src/db';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('Staging Service', () => {
+  const testDbPath = path.join(__dirname, '..', 'db', 'test-staging.db');
+  const csvFilePath = path.join(__dirname, '..', 'db', 'test-staging.csv');
+  const header = 'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n';
+
+  beforeEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    initializeDatabase(testDbPath);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    [testDbPath, csvFilePath].forEach((filePath) => {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    });
+  });
+
+  it('should stage rows with validation errors and duplicate markers without importing', () => {
+    fs.writeFileSync(csvFilePath, header + '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,STAGETEST00000001\n');
+    importAmExStatementSync(csvFilePath);
+
+    fs.writeFileSync(
+      csvFilePath,
+      header +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,STAGETEST00000001\n' +
+        '05/10/2025,05/10/2025,WOOLWORTHS,JOHN DOE,-11002,12.00,STAGE-TEST-0002\n' +
+        '06/10/2025,06/10/2025,ALDI,JOHN DOE,-11002,8.00,STAGETEST00000003\n' +
+        '06/10/2025,06/10/2025,ALDI,JOHN DOE,-11002,8.00,STAGETEST00000003\n',
+    );
+
+    const staged = stageStatement(csvFilePath);
+
+    expect(getTransactionCount()).to.equal(1);
+    expect(staged).to.include({ status: 'pending', rowCount: 4, invalidCount: 1, duplicateCount: 2 });
+    expect(staged.source.parser).to.equal('amex-csv');
+    expect(staged.rows.map((row) => row.duplicate)).to.deep.equal([true, false, false, true]);
+    expect(staged.rows[1].errors).to.deep.equal(['Reference must contain only alphanumeric characters']);
+  });
+
+  it('should re-validate fixed rows and recompute duplicates when rows are dropped', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header +
+        '05/10/2025,05/10/2025,WOOLWORTHS,JOHN DOE,-11002,12.00,STAGE-TEST-0002\n' +
+        '06/10/2025,06/10/2025,ALDI,JOHN DOE,-11002,8.00,STAGETEST00000003\n' +
+        '06/10/2025,06/10/2025,ALDI,JOHN DOE,-11002,8.00,STAGETEST00000003\n',
+    );
+
+    const staged = stageStatement(csvFilePath);
+    const fixed = reviseStagedRow(staged.id, staged.rows[0].id, { transaction: { reference: 'STAGETEST00000002' } });
+    reviseStagedRow(staged.id, staged.rows[1].id, { dropped: true });
+
+    const detail = getStagedImportDetail(staged.id)!;
+
+    expect(fixed.errors).to.be.empty;
+    expect(fixed.transaction.reference).to.equal('STAGETEST00000002');
+    expect(detail.rows.map((row) => row.duplicate)).to.deep.equal([false, false, false]);
+    expect(detail).to.include({ invalidCount: 0, duplicateCount: 0, droppedCount: 1 });
+  });
+
+  it('should commit kept rows and log the import', () => {
+    fs.writeFileSync(
+      csvFilePath,
+      header +
+        '04/10/2025,05/10/2025,COLES,JOHN DOE,-11002,45.10,STAGETEST00000001\n' +
+        '05/10/2025,05/10/2025,WOOLWORTHS,JOHN DOE,-11002,12.00,STAGE-TEST-0002\n' +
+        '06/10/2025,06/10/2025,ALDI,JOHN DOE,-11002,8.00,STAGETEST00000003\n',
+    );
+
+    const staged = stageStatement(csvFilePath, { fileName: 'october.csv' });
+    reviseStagedRow(staged.id, staged.rows[2].id, { dropped: true });
+
+    const result = commitStagedImport(staged.id);
+
+    expect(result.totalRecords).to.equal(2);
+    expect(result.importedRecords).to.equal(1);
+    expect(result.errors.map((err) => err.error)).to.deep.equal([
+      'Row 3: Reference must contain only alphanumeric characters',
+    ]);
+    expect(getTransactionCount()).to.equal(1);
+    expect(getStagedImportDetail(staged.id)).to.include({ status: 'committed', rowCount: 0 });
+    expect(getImportLogs(1, 0)[0]).to.include({ fileName: 'october.csv', importedRecords: 1, parser: 'amex-csv' });
+
+    expect(() => commitStagedImport(staged.id)).to.throw('already committed');
+    expect(() => discardStagedImport(staged.id)).to.throw('already committed');
+  });
+});
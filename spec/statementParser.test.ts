@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import {
+  detectParser,
+  parseStatementFile,
+  registerParser,
+  getParser,
+  getParserNames,
+} from '../src/statementParser';
+import * as XLSX from 'xlsx';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Statement Parser Registry', () => {
+  const tmpPath = (name: string) => path.join(os.tmpdir(), `statement-parser-${process.pid}-${name}`);
+  const csvFilePath = tmpPath('statement.txt');
+  const ofxFilePath = tmpPath('statement.dat');
+  const xlsxFilePath = tmpPath('statement.bin');
+  const unknownFilePath = tmpPath('unknown.csv');
+
+  before(() => {
+    // Deliberately misleading extensions: detection must use contents
+    fs.writeFileSync(
+      csvFilePath,
+      'Date,Date Processed,Description,Card Member,Account #,Amount,Reference\n' +
+        '04/10/2025,05/10/2025,COLES 0123 SYDNEY,JOHN DOE,-11002,45.10,AT252780012000010012345\n',
+    );
+    fs.writeFileSync(
+      ofxFilePath,
+      'OFXHEADER:100\nDATA:OFXSGML\n\n<OFX><ACCTID>11002<STMTTRN><DTPOSTED>20251004<TRNAMT>-45.10<FITID>F1<NAME>COLES</OFX>',
+    );
+
+    const rows = [
+      ['Transaction Details'],
+      [],
+      [],
+      [],
+      [],
+      [],
+      ['Date', 'Date Processed', 'Description', 'Card Member', 'Account #', 'Amount', 'Reference'],
+      ['04/10/2025', '05/10/2025', 'COLES 0123 SYDNEY', 'JOHN DOE', '-11002', 45.1, 'AT252780012000010012345'],
+    ];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Transaction Details');
+    XLSX.writeFile(workbook, xlsxFilePath, { bookType: 'xlsx' });
+
+    fs.writeFileSync(unknownFilePath, 'hello,world\n1,2\n');
+  });
+
+  after(() => {
+    [csvFilePath, ofxFilePath, xlsxFilePath, unknownFilePath].forEach((file) => {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    });
+  });
+
+  it('should register built-in parsers', () => {
+    expect(getParserNames()).to.include.members(['amex-xlsx', 'amex-csv', 'ofx']);
+  });
+
+  it('should detect format from file contents, not extension', () => {
+    expect(detectParser(csvFilePath)?.name).to.equal('amex-csv');
+    expect(detectParser(ofxFilePath)?.name).to.equal('ofx');
+    expect(detectParser(xlsxFilePath)?.name).to.equal('amex-xlsx');
+    expect(detectParser(unknownFilePath)).to.be.undefined;
+  });
+
+  it('should report the chosen parser name', () => {
+    const parsed = parseStatementFile(xlsxFilePath);
+
+    expect(parsed.parser).to.equal('amex-xlsx');
+    expect(parsed.transactions).to.have.length(1);
+    expect(parsed.transactions[0].reference).to.equal('AT252780012000010012345');
+  });
+
+  it('should throw for unrecognised formats and unknown parser names', () => {
+    expect(() => parseStatementFile(unknownFilePath)).to.throw('Unrecognised statement format');
+    expect(() => parseStatementFile(csvFilePath, 'no-such-parser')).to.throw('Unknown statement parser');
+  });
+
+  it('should try later registrations before built-ins', () => {
+    registerParser({
+      name: 'test-issuer',
+      detect: (head) => head.toString('utf-8').startsWith('Date,Date Processed'),
+      parse: () => ({ transactions: [], errors: [] }),
+    });
+
+    expect(getParser('test-issuer')).to.exist;
+    expect(detectParser(csvFilePath)?.name).to.equal('test-issuer');
+    expect(parseStatementFile(csvFilePath, 'amex-csv').parser).to.equal('amex-csv');
+
+    // Re-registering replaces the parser; make it never match so other specs are unaffected
+    registerParser({ name: 'test-issuer', detect: () => false, parse: () => ({ transactions: [], errors: [] }) });
+    expect(getParserNames().filter((name) => name === 'test-issuer')).to.have.length(1);
+    expect(detectParser(csvFilePath)?.name).to.equal('amex-csv');
+  });
+});
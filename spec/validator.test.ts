@@ -0,0 +1,167 @@
+import { expect } from 'chai';
+import {
+  checkTransaction,
+  checkTransactionBatch,
+  getRulesetVersion,
+  getValidationRules,
+  mergeRuleSettings,
+  validateAmExTransaction,
+  validateRuleSettings,
+} from '../src/validator';
+import type { AmExTransaction } from '../src/types/index';
+
+describe('Validation Rules', () => {
+  const transaction: AmExTransaction = {
+    date: '2025-10-04',
+    dateProcessed: '2025-10-05',
+    description: 'COLES 0123 SYDNEY',
+    cardMember: 'JOHN DOE',
+    accountNumber: '-11002',
+    amount: -45.1,
+    reference: 'AT252780012000010012345',
+  };
+
+  it('should keep the default behaviour when no settings are given', () => {
+    expect(validateAmExTransaction(transaction)).to.deep.equal([]);
+    expect(validateAmExTransaction({ ...transaction, reference: 'REF-1', description: '' }, 3)).to.deep.equal([
+      'Row 3: Description is required',
+      'Row 3: Reference must contain only alphanumeric characters',
+    ]);
+
+    // Credits and blank countries are allowed unless their rules are switched on
+    const rules = getValidationRules();
+    expect(rules.find((rule) => rule.id === 'amount-non-negative')).to.include({ enabled: false });
+    expect(rules.find((rule) => rule.id === 'country-required')).to.include({ enabled: false });
+  });
+
+  it('should skip disabled rules and report warning rules without rejecting the row', () => {
+    const invalid = { ...transaction, reference: 'REF-1', description: '' };
+    const settings = {
+      'description-required': { enabled: false },
+      'reference-alphanumeric': { severity: 'warning' as const },
+      'amount-non-negative': { enabled: true },
+    };
+
+    expect(validateAmExTransaction(invalid, 2, settings)).to.deep.equal([]);
+    expect(checkTransaction(invalid, 2, settings)).to.deep.equal([
+      {
+        ruleId: 'amount-non-negative',
+        severity: 'warning',
+        message: 'Row 2: Amount cannot be negative',
+      },
+      {
+        ruleId: 'reference-alphanumeric',
+        severity: 'warning',
+        message: 'Row 2: Reference must contain only alphanumeric characters',
+      },
+    ]);
+
+    const batch = checkTransactionBatch([transaction, invalid], 0, settings);
+    expect(batch.errors).to.deep.equal([]);
+    expect(batch.warnings.map((warning) => [warning.rowNumber, warning.ruleId])).to.deep.equal([
+      [1, 'amount-non-negative'],
+      [2, 'amount-non-negative'],
+      [2, 'reference-alphanumeric'],
+    ]);
+  });
+
+  it('should let later settings layers override earlier ones per rule', () => {
+    const merged = mergeRuleSettings(
+      { 'country-required': { enabled: true, severity: 'info' } },
+      { 'country-required': { severity: 'error' } },
+      undefined,
+    );
+
+    expect(merged).to.deep.equal({ 'country-required': { enabled: true, severity: 'error' } });
+  });
+
+  it('should change the ruleset version only when the active rules change', () => {
+    const defaultVersion = getRulesetVersion();
+
+    expect(defaultVersion).to.match(/^v\d+-[0-9a-f]{8}$/);
+    expect(getRulesetVersion({ 'date-required': { enabled: true } })).to.equal(defaultVersion);
+    expect(getRulesetVersion({ 'date-required': { enabled: false } })).to.not.equal(defaultVersion);
+    expect(getRulesetVersion({ 'date-required': { severity: 'warning' } })).to.not.equal(defaultVersion);
+  });
+
+  describe('Foreign exchange', () => {
+    // 100 USD at 1.5 is 150.00, plus the 3% fee of 4.50
+    const foreign = {
+      ...transaction,
+      amount: 154.5,
+      foreignSpendAmount: '100.00 UNITED STATES DOLLARS',
+      exchangeRate: '1.5000',
+      commission: '4.50',
+    };
+
+    const ruleIds = (t: AmExTransaction, settings = {}) =>
+      checkTransaction(t, undefined, settings).map((violation) => violation.ruleId);
+
+    it('should accept a consistent conversion and fee', () => {
+      expect(ruleIds(foreign)).to.deep.equal([]);
+      expect(ruleIds({ ...foreign, amount: 154.51 })).to.deep.equal([]);
+      // Domestic transactions have nothing to check
+      expect(ruleIds(transaction)).to.deep.equal([]);
+    });
+
+    it('should flag an amount that does not match the conversion', () => {
+      expect(checkTransaction({ ...foreign, amount: 160 }, 4)).to.deep.equal([
+        {
+          ruleId: 'fx-amount-consistent',
+          severity: 'warning',
+          message:
+            'Row 4: Amount 160.00 does not match Foreign Spend Amount 100 USD × Exchange Rate 1.5 ' +
+            '+ Commission 4.50 = 154.50',
+        },
+      ]);
+      const lenient = { 'fx-amount-consistent': { params: { tolerance: 10 } } };
+      expect(ruleIds({ ...foreign, amount: 160 }, lenient)).to.be.empty;
+    });
+
+    it('should flag a commission that differs from the expected fee', () => {
+      const overcharged = { ...foreign, amount: 156, commission: '6.00' };
+
+      expect(checkTransaction(overcharged)).to.deep.equal([
+        {
+          ruleId: 'fx-commission-rate',
+          severity: 'warning',
+          message: 'Commission 6.00 is 4.00% of the converted amount 150.00, expected 3%',
+        },
+      ]);
+      expect(ruleIds(overcharged, { 'fx-commission-rate': { params: { feePercent: 4 } } })).to.be.empty;
+    });
+
+    it('should merge params and include them in the ruleset version', () => {
+      const merged = mergeRuleSettings(
+        { 'fx-commission-rate': { params: { feePercent: 2.5 } } },
+        { 'fx-commission-rate': { severity: 'error', params: { tolerancePercent: 0.1 } } },
+      );
+
+      expect(getValidationRules(merged).find((rule) => rule.id === 'fx-commission-rate')).to.deep.include({
+        severity: 'error',
+        params: { feePercent: 2.5, tolerancePercent: 0.1 },
+        defaultParams: { feePercent: 3, tolerancePercent: 0.05 },
+      });
+      expect(getRulesetVersion(merged)).to.not.equal(getRulesetVersion());
+      expect(validateRuleSettings({ 'fx-commission-rate': { params: { feePercent: -1, fee: 3 } } })).to.deep.equal([
+        'Param "feePercent" for rule "fx-commission-rate" must be a non-negative number',
+        'Unknown param "fee" for rule "fx-commission-rate"',
+      ]);
+    });
+  });
+
+  it('should reject unknown rules and invalid settings', () => {
+    expect(validateRuleSettings({ 'date-required': { enabled: false } })).to.deep.equal([]);
+    expect(validateRuleSettings([])).to.deep.equal(['Rule settings must be an object keyed by rule ID']);
+    expect(
+      validateRuleSettings({
+        'no-such-rule': { enabled: true },
+        'date-required': { enabled: 'no', severity: 'fatal' },
+      }),
+    ).to.deep.equal([
+      'Unknown validation rule "no-such-rule"',
+      'enabled for rule "date-required" must be a boolean',
+      'severity for rule "date-required" must be one of: error, warning, info',
+    ]);
+  });
+});
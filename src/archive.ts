@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+/**
+ * Statement file in a ZIP archive, inflated from the archive when read
+ */
+export interface ArchiveEntry {
+  /** Path inside the archive, e.g. "2024/january.xlsx" */
+  name: string;
+  /** Uncompressed size in bytes, as recorded in the archive's central directory */
+  size: number;
+  /** Inflate the entry; throws if it is corrupt or doesn't match its recorded size */
+  read: () => Buffer;
+}
+
+/**
+ * Most statement files imported from one archive
+ */
+export const MAX_ARCHIVE_ENTRIES = 100;
+
+/**
+ * Largest uncompressed statement file accepted from an archive (50 MB)
+ */
+export const MAX_ARCHIVE_ENTRY_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Largest central directory read (entry names and sizes, not file contents)
+ */
+const MAX_CENTRAL_DIRECTORY_BYTES = 4 * 1024 * 1024;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_BYTES = 30;
+const CENTRAL_HEADER_BYTES = 46;
+const END_OF_CENTRAL_DIRECTORY_BYTES = 22;
+const MAX_ARCHIVE_COMMENT_BYTES = 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Entry as listed in the central directory
+ */
+interface CentralDirectoryEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * List the statement files in a ZIP archive without inflating them
+ * Returns null when the file is not a ZIP, or is an XLSX workbook (which is also a ZIP).
+ * Only the header and central directory are read here; each entry is inflated when read, one at a time,
+ * so memory is bounded by the largest entry. Throws for archives with more than MAX_ARCHIVE_ENTRIES
+ * statements or an entry larger than MAX_ARCHIVE_ENTRY_BYTES, so a zip bomb is refused before inflating.
+ * Directories, hidden files and macOS resource forks are skipped.
+ */
+export function readStatementArchive(filePath: string): ArchiveEntry[] | null {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const head = readAt(fd, 0, Math.min(4, fileSize));
+    if (head.length < 4 || head.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      return null;
+    }
+
+    const directory = readCentralDirectory(fd, fileSize);
+    if (directory.some((entry) => entry.name === '[Content_Types].xml')) {
+      return null;
+    }
+
+    const statements = directory.filter((entry) => {
+      const baseName = entry.name.split('/').pop() || '';
+      return !entry.name.endsWith('/') && !entry.name.startsWith('__MACOSX/') && !baseName.startsWith('.');
+    });
+
+    if (statements.length > MAX_ARCHIVE_ENTRIES) {
+      throw new Error(`Archive has ${statements.length} files; at most ${MAX_ARCHIVE_ENTRIES} can be imported at once`);
+    }
+    for (const entry of statements) {
+      if (entry.size > MAX_ARCHIVE_ENTRY_BYTES) {
+        throw new Error(
+          `Archive entry ${entry.name} is ${entry.size} bytes uncompressed; the limit is ${MAX_ARCHIVE_ENTRY_BYTES}`,
+        );
+      }
+      if (entry.flags & 0x1) {
+        throw new Error(`Archive entry ${entry.name} is encrypted`);
+      }
+      if (entry.method !== STORED && entry.method !== DEFLATED) {
+        throw new Error(`Archive entry ${entry.name} uses an unsupported compression method (${entry.method})`);
+      }
+    }
+
+    return statements.map((entry) => ({
+      name: entry.name,
+      size: entry.size,
+      read: () => readEntry(filePath, entry),
+    }));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Total uncompressed size of every entry in a ZIP file (e.g. an XLSX workbook), from its central directory
+ * Nothing is inflated, so this is cheap to check before loading the file.
+ */
+export function getZipUncompressedSize(filePath: string): number {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    return readCentralDirectory(fd, fs.fstatSync(fd).size).reduce((total, entry) => total + entry.size, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read length bytes at position (fewer at the end of the file)
+ */
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Parse the central directory found through the end of central directory record at the end of the file
+ */
+function readCentralDirectory(fd: number, fileSize: number): CentralDirectoryEntry[] {
+  // The end record is the last thing in the file, followed only by an optional comment
+  const tailLength = Math.min(fileSize, END_OF_CENTRAL_DIRECTORY_BYTES + MAX_ARCHIVE_COMMENT_BYTES);
+  const tail = readAt(fd, fileSize - tailLength, tailLength);
+  let end = -1;
+  for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_BYTES; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('ZIP archive is truncated or corrupt (no central directory)');
+  }
+
+  const entryCount = tail.readUInt16LE(end + 10);
+  const directorySize = tail.readUInt32LE(end + 12);
+  const directoryOffset = tail.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  if (directorySize > MAX_CENTRAL_DIRECTORY_BYTES || directoryOffset + directorySize > fileSize) {
+    throw new Error('ZIP archive has an oversized or corrupt central directory');
+  }
+
+  const directory = readAt(fd, directoryOffset, directorySize);
+  const entries: CentralDirectoryEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + CENTRAL_HEADER_BYTES > directory.length ||
+      directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new Error('ZIP archive has a corrupt central directory');
+    }
+
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    entries.push({
+      name: directory.toString('utf-8', offset + CENTRAL_HEADER_BYTES, offset + CENTRAL_HEADER_BYTES + nameLength),
+      flags: directory.readUInt16LE(offset + 8),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42),
+    });
+
+    offset += CENTRAL_HEADER_BYTES + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read and inflate one entry; the output is capped at the size the central directory recorded
+ */
+function readEntry(filePath: string, entry: CentralDirectoryEntry): Buffer {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = readAt(fd, entry.localHeaderOffset, LOCAL_HEADER_BYTES);
+    if (header.length < LOCAL_HEADER_BYTES || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Archive entry ${entry.name} is corrupt`);
+    }
+
+    const dataOffset = entry.localHeaderOffset + LOCAL_HEADER_BYTES + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = readAt(fd, dataOffset, entry.compressedSize);
+
+    let content: Buffer;
+    try {
+      content =
+        entry.method === STORED ? data : zlib.inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) });
+    } catch {
+      throw new Error(`Archive entry ${entry.name} is corrupt or larger than recorded`);
+    }
+
+    if (data.length !== entry.compressedSize || content.length !== entry.size) {
+      throw new Error(`Archive entry ${entry.name} is corrupt or larger than recorded`);
+    }
+    return content;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -1,12 +1,30 @@
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { AmExTransaction, AmExTransactionRow, ImportLog } from './types/index';
+import { migrate } from './migrations';
+import { currencyUnitsSql, fromMinorUnits, toMoneyColumns } from './money';
+import type {
+  AmExTransaction,
+  AmExTransactionRow,
+  ImportLog,
+  MappingProfile,
+  MappingProfileInput,
+  StagedImport,
+  StagedImportStatus,
+  StagedRow,
+  FailedRow,
+  TransactionChange,
+  TransactionFieldChange,
+  TransactionFilters,
+  TransactionSort,
+  TransactionSortField,
+  PageKey,
+} from './types/index';
 
 let db: Database.Database | null = null;
 
 /**
- * Initialize database and create tables if they don't exist
+ * Initialize database and apply pending schema migrations
  */
 export function initializeDatabase(dbPath: string = 'db/transactions.db'): Database.Database {
   // Ensure db directory exists
@@ -18,50 +36,12 @@ export function initializeDatabase(dbPath: string = 'db/transactions.db'): Datab
   db = new Database(dbPath);
   db.pragma('journal_mode = WAL');
 
-  // Run migrations FIRST for existing databases
-  runMigrations(db);
-
-  // Then execute schema (which will create tables/indexes if they don't exist)
-  const schemaPath = path.join(__dirname, '..', 'src', 'schema.sql');
-  const schema = fs.readFileSync(schemaPath, 'utf-8');
-  db.exec(schema);
+  // Bring the schema up to date (creates every table on a new database)
+  migrate(db);
 
   return db;
 }
 
-/**
- * Run database migrations for existing databases
- */
-function runMigrations(database: Database.Database): void {
-  // Check if transactions table exists first
-  const tables = database.prepare(
-    "SELECT name FROM sqlite_master WHERE type='table' AND name='transactions'"
-  ).all() as Array<{ name: string }>;
-
-  if (tables.length === 0) {
-    // Table doesn't exist yet, schema will create it
-    return;
-  }
-
-  // Check if reconciliation columns exist
-  const tableInfo = database.prepare("PRAGMA table_info(transactions)").all() as Array<{ name: string }>;
-  const columnNames = tableInfo.map(col => col.name);
-
-  // Add reconciliation columns if they don't exist
-  if (!columnNames.includes('reconciled')) {
-    console.log('Adding reconciled column to transactions table');
-    database.exec('ALTER TABLE transactions ADD COLUMN reconciled BOOLEAN DEFAULT 0');
-  }
-  if (!columnNames.includes('ynab_transaction_id')) {
-    console.log('Adding ynab_transaction_id column to transactions table');
-    database.exec('ALTER TABLE transactions ADD COLUMN ynab_transaction_id TEXT');
-  }
-  if (!columnNames.includes('reconciled_at')) {
-    console.log('Adding reconciled_at column to transactions table');
-    database.exec('ALTER TABLE transactions ADD COLUMN reconciled_at TEXT');
-  }
-}
-
 /**
  * Get database instance (throws if not initialized)
  */
@@ -92,22 +72,29 @@ export function insertTransaction(transaction: AmExTransaction): AmExTransaction
   const stmt = database.prepare(`
     INSERT INTO transactions (
       date, date_processed, description, card_member, account_number,
-      amount, foreign_spend_amount, commission, exchange_rate,
+      amount_minor, currency, foreign_spend_amount, foreign_amount_minor, foreign_currency,
+      commission, commission_minor, exchange_rate, fx_rate,
       additional_information, appears_on_statement, address, town_city,
-      postcode, country, reference, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      postcode, country, reference, created_at, updated_at, status
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const money = toMoneyColumns(transaction);
   stmt.run(
     transaction.date,
     transaction.dateProcessed,
     transaction.description,
     transaction.cardMember,
     transaction.accountNumber,
-    transaction.amount,
+    money.amount_minor,
+    money.currency,
     transaction.foreignSpendAmount || null,
+    money.foreign_amount_minor,
+    money.foreign_currency,
     transaction.commission || null,
+    money.commission_minor,
     transaction.exchangeRate || null,
+    money.fx_rate,
     transaction.additionalInformation || null,
     transaction.appearsOnStatement,
     transaction.address || null,
@@ -117,6 +104,7 @@ export function insertTransaction(transaction: AmExTransaction): AmExTransaction
     transaction.reference,
     now,
     now,
+    transaction.status ?? 'posted',
   );
 
   return getTransactionByReference(transaction.reference) as AmExTransactionRow;
@@ -124,9 +112,11 @@ export function insertTransaction(transaction: AmExTransaction): AmExTransaction
 
 /**
  * Batch insert transactions within a transaction
+ * importId links each row to the import log that inserted it (for rollback)
  */
 export function batchInsertTransactions(
   transactions: AmExTransaction[],
+  importId?: number,
 ): { inserted: number; errors: Array<{ index: number; reference: string; error: string }> } {
   const database = getDatabase();
   const errors: Array<{ index: number; reference: string; error: string }> = [];
@@ -135,10 +125,11 @@ export function batchInsertTransactions(
   const insertStmt = database.prepare(`
     INSERT INTO transactions (
       date, date_processed, description, card_member, account_number,
-      amount, foreign_spend_amount, commission, exchange_rate,
+      amount_minor, currency, foreign_spend_amount, foreign_amount_minor, foreign_currency,
+      commission, commission_minor, exchange_rate, fx_rate,
       additional_information, appears_on_statement, address, town_city,
-      postcode, country, reference, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      postcode, country, reference, created_at, updated_at, import_id, status
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const transaction = database.transaction((txns: AmExTransaction[]) => {
@@ -146,16 +137,22 @@ export function batchInsertTransactions(
     for (let i = 0; i < txns.length; i++) {
       const txn = txns[i];
       try {
+        const money = toMoneyColumns(txn);
         insertStmt.run(
           txn.date,
           txn.dateProcessed,
           txn.description,
           txn.cardMember,
           txn.accountNumber,
-          txn.amount,
+          money.amount_minor,
+          money.currency,
           txn.foreignSpendAmount || null,
+          money.foreign_amount_minor,
+          money.foreign_currency,
           txn.commission || null,
+          money.commission_minor,
           txn.exchangeRate || null,
+          money.fx_rate,
           txn.additionalInformation || null,
           txn.appearsOnStatement,
           txn.address || null,
@@ -165,6 +162,8 @@ export function batchInsertTransactions(
           txn.reference,
           now,
           now,
+          importId ?? null,
+          txn.status ?? 'posted',
         );
         inserted++;
       } catch (err) {
@@ -186,14 +185,213 @@ export function batchInsertTransactions(
  */
 export function transactionExists(reference: string): boolean {
   const database = getDatabase();
-  const stmt = database.prepare('SELECT 1 FROM transactions WHERE reference = ?');
-  return stmt.get(reference) !== undefined;
+  // A pending reference that was superseded by its posted row still counts as imported
+  const stmt = database.prepare('SELECT 1 FROM transactions WHERE reference = ? OR pending_reference = ?');
+  return stmt.get(reference, reference) !== undefined;
+}
+
+/**
+ * Statement fields the typed money columns are derived from
+ */
+const MONEY_FIELDS: Array<keyof AmExTransactionRow> = ['amount', 'foreign_spend_amount', 'commission', 'exchange_rate'];
+
+/**
+ * Apply field changes to a transaction and record each one in its change history
+ * Changes to the amount or FX text recompute the typed money columns
+ */
+export function updateTransactionFields(
+  transactionId: number,
+  changes: TransactionFieldChange[],
+  importId?: number,
+): boolean {
+  const database = getDatabase();
+
+  const apply = database.transaction(() => {
+    const row = database.prepare('SELECT reference FROM transactions WHERE id = ?').get(transactionId) as
+      | { reference: string }
+      | undefined;
+    if (!row) return false;
+
+    const now = new Date().toISOString();
+    const historyStmt = database.prepare(`
+      INSERT INTO transaction_changes (transaction_id, reference, import_id, field, old_value, new_value, changed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const change of changes) {
+      // Field names come from TransactionFieldChange, never from request input. The amount is stored
+      // in minor units, written below with the other money columns.
+      if (change.field !== 'amount') {
+        database.prepare(`UPDATE transactions SET ${change.field} = ?, updated_at = ? WHERE id = ?`).run(
+          change.newValue,
+          now,
+          transactionId,
+        );
+      }
+      historyStmt.run(
+        transactionId,
+        row.reference,
+        importId ?? null,
+        change.field,
+        change.oldValue,
+        change.newValue,
+        now,
+      );
+    }
+
+    if (changes.some((change) => MONEY_FIELDS.includes(change.field))) {
+      const current = transformTransactionRow(
+        database.prepare('SELECT * FROM transactions WHERE id = ?').get(transactionId) as TransactionRow,
+      );
+      const amountChange = changes.find((change) => change.field === 'amount');
+      const money = toMoneyColumns({
+        amount: amountChange ? Number(amountChange.newValue) : current.amount,
+        currency: current.currency,
+        foreignSpendAmount: current.foreign_spend_amount ?? undefined,
+        commission: current.commission ?? undefined,
+        exchangeRate: current.exchange_rate ?? undefined,
+      });
+      database
+        .prepare(
+          `
+        UPDATE transactions
+        SET amount_minor = @amount_minor, currency = @currency,
+            foreign_amount_minor = @foreign_amount_minor, foreign_currency = @foreign_currency,
+            commission_minor = @commission_minor, fx_rate = @fx_rate, updated_at = @now
+        WHERE id = @id
+      `,
+        )
+        .run({ ...money, now, id: transactionId });
+    }
+    return true;
+  });
+
+  return apply();
+}
+
+/**
+ * Change history of a transaction by reference, oldest first
+ */
+export function getTransactionChanges(reference: string): TransactionChange[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare('SELECT * FROM transaction_changes WHERE reference = ? ORDER BY changed_at, id')
+    .all(reference) as TransactionChangeRow[];
+  return rows.map(transformTransactionChangeRow);
+}
+
+/**
+ * transaction_changes table row as SQLite returns it
+ */
+interface TransactionChangeRow {
+  id: number;
+  transaction_id: number;
+  reference: string;
+  import_id: number | null;
+  field: TransactionFieldChange['field'];
+  old_value: string | null;
+  new_value: string | null;
+  changed_at: string;
+}
+
+/**
+ * Transform transaction_changes row to TransactionChange
+ */
+function transformTransactionChangeRow(row: TransactionChangeRow): TransactionChange {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    reference: row.reference,
+    importId: row.import_id ?? undefined,
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    changedAt: row.changed_at,
+  };
+}
+
+/**
+ * Pending transactions on an account dated within windowDays of a date (candidates for a posted row)
+ */
+export function getPendingTransactions(accountNumber: string, date: string, windowDays: number): AmExTransactionRow[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+    SELECT * FROM transactions
+    WHERE status = 'pending' AND account_number = ?
+      AND date BETWEEN date(?, ?) AND date(?, ?)
+    ORDER BY date, id
+  `,
+    )
+    .all(accountNumber, date, `-${windowDays} days`, date, `+${windowDays} days`) as TransactionRow[];
+  return rows.map(transformTransactionRow);
+}
+
+/**
+ * Replace a pending transaction with its posted row
+ * The posted row takes over the pending row's reconciliation link and records its reference; the pending row
+ * is kept as superseded (left out of listings) so rolling back the posted row's import can restore it.
+ * Returns false if either row is missing or the pending row was already posted.
+ */
+export function supersedePendingTransaction(pendingId: number, postedReference: string): boolean {
+  const database = getDatabase();
+
+  const supersede = database.transaction(() => {
+    const pending = database
+      .prepare(`SELECT * FROM transactions WHERE id = ? AND status = 'pending'`)
+      .get(pendingId) as TransactionRow | undefined;
+    if (!pending) return false;
+
+    const updated = database
+      .prepare(
+        `
+      UPDATE transactions
+      SET pending_reference = ?,
+          reconciled = CASE WHEN ? = 1 THEN 1 ELSE reconciled END,
+          ynab_transaction_id = COALESCE(?, ynab_transaction_id),
+          reconciled_at = COALESCE(?, reconciled_at),
+          updated_at = ?
+      WHERE reference = ? AND status = 'posted'
+    `,
+      )
+      .run(
+        pending.reference,
+        pending.reconciled,
+        pending.ynab_transaction_id,
+        pending.reconciled_at,
+        new Date().toISOString(),
+        postedReference,
+      );
+    if (updated.changes === 0) return false;
+
+    database
+      .prepare(
+        `
+      UPDATE transactions
+      SET status = 'superseded', reconciled = 0, ynab_transaction_id = NULL, reconciled_at = NULL, updated_at = ?
+      WHERE id = ?
+    `,
+      )
+      .run(new Date().toISOString(), pendingId);
+    return true;
+  });
+
+  return supersede();
+}
+
+/**
+ * transactions table row as SQLite returns it: the columns of AmExTransactionRow without the derived amount,
+ * with reconciled stored as 0 or 1
+ */
+interface TransactionRow extends Omit<AmExTransactionRow, 'amount' | 'reconciled'> {
+  reconciled: number;
 }
 
 /**
  * Transform database row to AmExTransactionRow (ensure all snake_case fields)
  */
-function transformTransactionRow(row: any): AmExTransactionRow {
+function transformTransactionRow(row: TransactionRow): AmExTransactionRow {
   return {
     id: row.id,
     date: row.date,
@@ -201,10 +399,16 @@ function transformTransactionRow(row: any): AmExTransactionRow {
     description: row.description,
     card_member: row.card_member,
     account_number: row.account_number,
-    amount: row.amount,
+    amount: fromMinorUnits(row.amount_minor, row.currency),
+    amount_minor: row.amount_minor,
+    currency: row.currency,
     foreign_spend_amount: row.foreign_spend_amount,
+    foreign_amount_minor: row.foreign_amount_minor ?? undefined,
+    foreign_currency: row.foreign_currency || undefined,
     commission: row.commission,
+    commission_minor: row.commission_minor ?? undefined,
     exchange_rate: row.exchange_rate,
+    fx_rate: row.fx_rate ?? undefined,
     additional_information: row.additional_information,
     appears_on_statement: row.appears_on_statement,
     address: row.address,
@@ -217,6 +421,9 @@ function transformTransactionRow(row: any): AmExTransactionRow {
     reconciled: row.reconciled === 1,
     ynab_transaction_id: row.ynab_transaction_id || undefined,
     reconciled_at: row.reconciled_at || undefined,
+    import_id: row.import_id ?? undefined,
+    status: row.status,
+    pending_reference: row.pending_reference || undefined,
   };
 }
 
@@ -226,35 +433,171 @@ function transformTransactionRow(row: any): AmExTransactionRow {
 export function getTransactionByReference(reference: string): AmExTransactionRow | null {
   const database = getDatabase();
   const stmt = database.prepare('SELECT * FROM transactions WHERE reference = ?');
-  const row = stmt.get(reference) as any;
+  const row = stmt.get(reference) as TransactionRow | undefined;
   if (!row) return null;
   return transformTransactionRow(row);
 }
 
 /**
- * Get all transactions with pagination
+ * Amount of a transaction in currency units, as SQL
+ */
+const AMOUNT_SQL = currencyUnitsSql('amount_minor', 'currency');
+
+/**
+ * Column (or expression) each sort field orders by
+ */
+const TRANSACTION_SORT_COLUMNS: Record<TransactionSortField, string> = {
+  date: 'date',
+  dateProcessed: 'date_processed',
+  amount: AMOUNT_SQL,
+  description: 'description COLLATE NOCASE',
+  cardMember: 'card_member COLLATE NOCASE',
+  createdAt: 'created_at',
+};
+
+/**
+ * Value of a row's sort field, as the sort column holds it (the page key for keyset pagination)
  */
-export function getTransactions(limit: number = 50, offset: number = 0): AmExTransactionRow[] {
+const TRANSACTION_SORT_VALUES: Record<TransactionSortField, (row: AmExTransactionRow) => string | number> = {
+  date: (row) => row.date,
+  dateProcessed: (row) => row.date_processed,
+  // Same division as AMOUNT_SQL, so the value compares equal to the row's own sort key
+  amount: (row) => row.amount,
+  description: (row) => row.description,
+  cardMember: (row) => row.card_member,
+  createdAt: (row) => row.created_at,
+};
+
+const DEFAULT_TRANSACTION_SORT: TransactionSort = { field: 'date', direction: 'desc' };
+
+/**
+ * Get transactions matching filters with pagination, newest first unless sorted otherwise
+ * Rows that tie on the sort field are ordered by ID in the same direction, so pages don't overlap
+ */
+export function getTransactions(
+  limit: number = 50,
+  offset: number = 0,
+  filters: TransactionFilters = {},
+  sort: TransactionSort = DEFAULT_TRANSACTION_SORT,
+): AmExTransactionRow[] {
   const database = getDatabase();
+  const { conditions, params } = buildTransactionFilter(filters);
+  const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
   const stmt = database.prepare(`
     SELECT * FROM transactions
-    ORDER BY date DESC
-    LIMIT ? OFFSET ?
+    ${toWhereClause(conditions)}
+    ORDER BY ${TRANSACTION_SORT_COLUMNS[sort.field]} ${direction}, id ${direction}
+    LIMIT @limit OFFSET @offset
   `);
-  const rows = stmt.all(limit, offset) as any[];
+  const rows = stmt.all({ ...params, limit, offset }) as TransactionRow[];
   return rows.map(transformTransactionRow);
 }
 
 /**
- * Get transaction count
+ * Get a page of transactions matching filters, starting after a page key (keyset pagination)
+ * Unlike an offset, the key keeps pages stable while rows are inserted or deleted. nextKey is set
+ * when there are more rows after this page.
  */
-export function getTransactionCount(): number {
+export function getTransactionPage(
+  limit: number,
+  filters: TransactionFilters = {},
+  sort: TransactionSort = DEFAULT_TRANSACTION_SORT,
+  after?: PageKey,
+): { transactions: AmExTransactionRow[]; nextKey?: PageKey } {
   const database = getDatabase();
-  const stmt = database.prepare('SELECT COUNT(*) as count FROM transactions');
-  const result = stmt.get() as { count: number };
+  const { conditions, params } = buildTransactionFilter(filters);
+  const column = TRANSACTION_SORT_COLUMNS[sort.field];
+  const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+
+  if (after) {
+    conditions.push(keysetCondition(column, direction));
+  }
+
+  // One extra row tells whether there is a next page
+  const stmt = database.prepare(`
+    SELECT * FROM transactions
+    ${toWhereClause(conditions)}
+    ORDER BY ${column} ${direction}, id ${direction}
+    LIMIT @limit
+  `);
+  const rows = (stmt.all({ ...params, ...toKeysetParams(after), limit: limit + 1 }) as TransactionRow[]).map(
+    transformTransactionRow,
+  );
+
+  const transactions = rows.slice(0, limit);
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    ...(rows.length > limit && { nextKey: { value: TRANSACTION_SORT_VALUES[sort.field](last), id: last.id } }),
+  };
+}
+
+/**
+ * Get transaction count, of those matching filters when given
+ */
+export function getTransactionCount(filters: TransactionFilters = {}): number {
+  const database = getDatabase();
+  const { conditions, params } = buildTransactionFilter(filters);
+  const stmt = database.prepare(`SELECT COUNT(*) as count FROM transactions ${toWhereClause(conditions)}`);
+  const result = stmt.get(params) as { count: number };
   return result.count;
 }
 
+/**
+ * WHERE conditions and named parameters for transaction filters
+ */
+function buildTransactionFilter(filters: TransactionFilters): {
+  conditions: string[];
+  params: Record<string, unknown>;
+} {
+  // Superseded pending rows are only kept for rollback
+  const conditions: string[] = ["status != 'superseded'"];
+  const params: Record<string, unknown> = {};
+
+  const add = (condition: string, name: keyof TransactionFilters, value: unknown) => {
+    conditions.push(condition);
+    params[name] = value;
+  };
+
+  if (filters.search) {
+    add('id IN (SELECT rowid FROM transactions_fts WHERE transactions_fts MATCH @search)', 'search', filters.search);
+  }
+  if (filters.startDate) add('date >= @startDate', 'startDate', filters.startDate);
+  if (filters.endDate) add('date <= @endDate', 'endDate', filters.endDate);
+  if (filters.cardMember) add('card_member = @cardMember COLLATE NOCASE', 'cardMember', filters.cardMember);
+  if (filters.accountNumber) add('account_number = @accountNumber', 'accountNumber', filters.accountNumber);
+  if (filters.minAmount !== undefined) add(`${AMOUNT_SQL} >= @minAmount`, 'minAmount', filters.minAmount);
+  if (filters.maxAmount !== undefined) add(`${AMOUNT_SQL} <= @maxAmount`, 'maxAmount', filters.maxAmount);
+  if (filters.country) add('country = @country COLLATE NOCASE', 'country', filters.country);
+  if (filters.reconciled !== undefined) {
+    add('COALESCE(reconciled, 0) = @reconciled', 'reconciled', filters.reconciled ? 1 : 0);
+  }
+  if (filters.importId !== undefined) add('import_id = @importId', 'importId', filters.importId);
+
+  return { conditions, params };
+}
+
+/**
+ * WHERE clause matching every condition (empty when there are none)
+ */
+function toWhereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * Condition selecting rows after the page key (@afterValue, @afterId) in the order of column, then ID
+ */
+function keysetCondition(column: string, direction: 'ASC' | 'DESC'): string {
+  return `(${column}, id) ${direction === 'ASC' ? '>' : '<'} (@afterValue, @afterId)`;
+}
+
+/**
+ * Named parameters for keysetCondition (none for the first page)
+ */
+function toKeysetParams(after?: PageKey): Record<string, unknown> {
+  return after ? { afterValue: after.value, afterId: after.id } : {};
+}
+
 /**
  * Delete transaction by ID
  */
@@ -273,11 +616,11 @@ export function insertImportLog(log: Omit<ImportLog, 'id'>): ImportLog {
   const stmt = database.prepare(`
     INSERT INTO import_logs (
       file_name, file_size, total_records, imported_records,
-      skipped_records, error_count, errors, import_timestamp
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      skipped_records, error_count, errors, import_timestamp, parser, batch_id, file_hash, ruleset_version
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  stmt.run(
+  const info = stmt.run(
     log.fileName,
     log.fileSize || null,
     log.totalRecords,
@@ -286,51 +629,795 @@ export function insertImportLog(log: Omit<ImportLog, 'id'>): ImportLog {
     log.errorCount,
     log.errors ? JSON.stringify(log.errors) : null,
     log.importTimestamp,
+    log.parser || null,
+    log.batchId || null,
+    log.fileHash || null,
+    log.rulesetVersion || null,
   );
 
-  // Get the inserted log
-  const getStmt = database.prepare(
-    'SELECT id, file_name as fileName, file_size as fileSize, total_records as totalRecords, imported_records as importedRecords, skipped_records as skippedRecords, error_count as errorCount, errors, import_timestamp as importTimestamp FROM import_logs ORDER BY id DESC LIMIT 1',
-  );
-  const result = getStmt.get() as ImportLog & { errors: string | null };
-  return {
-    ...result,
-    errors: result.errors ? JSON.parse(result.errors) : undefined,
-  };
+  return getImportLogById(Number(info.lastInsertRowid)) as ImportLog;
 }
 
+/**
+ * Update an import log's counts, errors and parser (an import's log is opened before its rows are inserted)
+ */
+export function updateImportLog(id: number, log: Omit<ImportLog, 'id'>): boolean {
+  const database = getDatabase();
+  const info = database
+    .prepare(
+      `
+    UPDATE import_logs
+    SET file_name = ?, file_size = ?, total_records = ?, imported_records = ?, skipped_records = ?,
+        error_count = ?, errors = ?, parser = ?, batch_id = ?, file_hash = ?, ruleset_version = ?
+    WHERE id = ?
+  `,
+    )
+    .run(
+      log.fileName,
+      log.fileSize || null,
+      log.totalRecords,
+      log.importedRecords,
+      log.skippedRecords,
+      log.errorCount,
+      log.errors ? JSON.stringify(log.errors) : null,
+      log.parser || null,
+      log.batchId || null,
+      log.fileHash || null,
+      log.rulesetVersion || null,
+      id,
+    );
+
+  return info.changes > 0;
+}
+
+/**
+ * Import log columns, with the count of its unresolved failed rows as failed_row_count
+ */
+const IMPORT_LOG_COLUMNS = `import_logs.*,
+    (SELECT COUNT(*) FROM failed_rows WHERE failed_rows.import_id = import_logs.id AND failed_rows.resolved_at IS NULL)
+      AS failed_row_count`;
+
 /**
  * Get import logs with pagination
  */
 export function getImportLogs(limit: number = 50, offset: number = 0): ImportLog[] {
   const database = getDatabase();
   const stmt = database.prepare(`
-    SELECT * FROM import_logs
-    ORDER BY import_timestamp DESC
+    SELECT ${IMPORT_LOG_COLUMNS} FROM import_logs
+    ORDER BY import_timestamp DESC, id DESC
     LIMIT ? OFFSET ?
   `);
-  const logs = stmt.all(limit, offset) as Array<{
-    id: number;
-    file_name: string;
-    file_size: number;
-    total_records: number;
-    imported_records: number;
-    skipped_records: number;
-    error_count: number;
-    errors: string | null;
-    import_timestamp: string;
-  }>;
-  return logs.map((log) => ({
-    id: log.id,
-    fileName: log.file_name,
-    fileSize: log.file_size,
-    totalRecords: log.total_records,
-    importedRecords: log.imported_records,
-    skippedRecords: log.skipped_records,
-    errorCount: log.error_count,
-    importTimestamp: log.import_timestamp,
-    errors: log.errors ? JSON.parse(log.errors) : undefined,
-  }));
+  const logs = stmt.all(limit, offset) as ImportLogRow[];
+  return logs.map(transformImportLogRow);
+}
+
+/**
+ * Get a page of import logs, newest first, starting after a page key (keyset pagination)
+ * nextKey is set when there are older logs after this page
+ */
+export function getImportLogPage(limit: number, after?: PageKey): { logs: ImportLog[]; nextKey?: PageKey } {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    SELECT ${IMPORT_LOG_COLUMNS} FROM import_logs
+    ${after ? `WHERE ${keysetCondition('import_timestamp', 'DESC')}` : ''}
+    ORDER BY import_timestamp DESC, id DESC
+    LIMIT @limit
+  `);
+  const rows = (stmt.all({ ...toKeysetParams(after), limit: limit + 1 }) as ImportLogRow[]).map(
+    transformImportLogRow,
+  );
+
+  const logs = rows.slice(0, limit);
+  const last = logs[logs.length - 1];
+  return { logs, ...(rows.length > limit && { nextKey: { value: last.importTimestamp, id: last.id } }) };
+}
+
+/**
+ * Get import log count
+ */
+export function getImportLogCount(): number {
+  const database = getDatabase();
+  const result = database.prepare('SELECT COUNT(*) as count FROM import_logs').get() as { count: number };
+  return result.count;
+}
+
+/**
+ * Get an import log by ID
+ */
+export function getImportLogById(id: number): ImportLog | null {
+  const database = getDatabase();
+  const row = database.prepare(`SELECT ${IMPORT_LOG_COLUMNS} FROM import_logs WHERE id = ?`).get(id) as
+    | ImportLogRow
+    | undefined;
+  return row ? transformImportLogRow(row) : null;
+}
+
+/**
+ * Find the latest import of a file with this SHA-256 that still has its transactions
+ * Imports that inserted nothing, or were rolled back, don't count
+ */
+export function findImportLogByFileHash(fileHash: string): ImportLog | null {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+    SELECT ${IMPORT_LOG_COLUMNS} FROM import_logs
+    WHERE file_hash = ? AND imported_records > 0 AND rolled_back_at IS NULL
+    ORDER BY id DESC
+    LIMIT 1
+  `,
+    )
+    .get(fileHash) as ImportLogRow | undefined;
+  return row ? transformImportLogRow(row) : null;
+}
+
+/**
+ * Count the transactions still linked to an import, and how many of them are reconciled
+ * A reconciled row that superseded a pending row isn't counted: rollback hands its link back to that row.
+ */
+export function getImportTransactionCounts(importId: number): { total: number; reconciled: number } {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+    SELECT COUNT(*) as total, COALESCE(SUM(CASE WHEN t.reconciled = 1 AND superseded.id IS NULL THEN 1 ELSE 0 END), 0)
+      as reconciled
+    FROM transactions t
+    LEFT JOIN transactions superseded
+      ON superseded.reference = t.pending_reference AND superseded.status = 'superseded'
+    WHERE t.import_id = ?
+  `,
+    )
+    .get(importId) as { total: number; reconciled: number };
+}
+
+/**
+ * Delete every transaction an import inserted and mark its log as rolled back, in one transaction
+ * Fields the import changed in place (upserts) get their old values back, unless a later change has
+ * overwritten them; the undo is recorded in each row's change history. Pending rows superseded by a
+ * deleted posted row are restored, taking back its reconciliation link.
+ * Returns the number of transactions deleted, reverted and restored
+ */
+export function rollbackImportLog(importId: number): { deleted: number; reverted: number; restored: number } {
+  const database = getDatabase();
+
+  const rollback = database.transaction(() => {
+    const changes = (
+      database
+        .prepare('SELECT * FROM transaction_changes WHERE import_id = ? ORDER BY id DESC')
+        .all(importId) as TransactionChangeRow[]
+    ).map(transformTransactionChangeRow);
+    const reverted = new Set<number>();
+
+    for (const change of changes) {
+      const row = database
+        .prepare('SELECT * FROM transactions WHERE id = ?')
+        .get(change.transactionId) as TransactionRow | undefined;
+      if (!row) continue;
+
+      // Compared in the text form changes are recorded in (null when blank)
+      const value = transformTransactionRow(row)[change.field];
+      const current = value === undefined || value === null || value === '' ? null : String(value);
+      if (current !== change.newValue) continue;
+
+      updateTransactionFields(change.transactionId, [
+        { field: change.field, oldValue: change.newValue, newValue: change.oldValue },
+      ]);
+      reverted.add(change.transactionId);
+    }
+
+    const restored = database
+      .prepare(
+        `
+      UPDATE transactions
+      SET status = 'pending', reconciled = posted.reconciled, ynab_transaction_id = posted.ynab_transaction_id,
+          reconciled_at = posted.reconciled_at, updated_at = @now
+      FROM (SELECT * FROM transactions WHERE import_id = @importId AND pending_reference IS NOT NULL) AS posted
+      WHERE transactions.status = 'superseded' AND transactions.reference = posted.pending_reference
+        AND COALESCE(transactions.import_id, -1) != @importId
+    `,
+      )
+      .run({ importId, now: new Date().toISOString() }).changes;
+
+    const deleted = database.prepare('DELETE FROM transactions WHERE import_id = ?').run(importId).changes;
+    database
+      .prepare('UPDATE import_logs SET rolled_back_at = ?, rolled_back_records = ? WHERE id = ?')
+      .run(new Date().toISOString(), deleted, importId);
+    return { deleted, reverted: reverted.size, restored };
+  });
+
+  return rollback();
+}
+
+/**
+ * Add rows imported after the fact (resubmitted failed rows) to an import's count
+ */
+export function addImportedRecords(importId: number, count: number): boolean {
+  const database = getDatabase();
+  const info = database
+    .prepare('UPDATE import_logs SET imported_records = imported_records + ? WHERE id = ?')
+    .run(count, importId);
+  return info.changes > 0;
+}
+
+/**
+ * import_logs table row as selected with IMPORT_LOG_COLUMNS; errors is JSON text
+ */
+interface ImportLogRow {
+  id: number;
+  file_name: string;
+  file_size: number | null;
+  total_records: number;
+  imported_records: number;
+  skipped_records: number;
+  error_count: number;
+  errors: string | null;
+  import_timestamp: string;
+  parser: string | null;
+  batch_id: string | null;
+  rolled_back_at: string | null;
+  rolled_back_records: number | null;
+  file_hash: string | null;
+  ruleset_version: string | null;
+  failed_row_count: number;
+}
+
+/**
+ * Transform database row to ImportLog (snake_case to camelCase, errors parsed)
+ */
+function transformImportLogRow(row: ImportLogRow): ImportLog {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileSize: row.file_size ?? undefined,
+    totalRecords: row.total_records,
+    importedRecords: row.imported_records,
+    skippedRecords: row.skipped_records,
+    errorCount: row.error_count,
+    importTimestamp: row.import_timestamp,
+    errors: row.errors ? JSON.parse(row.errors) : undefined,
+    parser: row.parser || undefined,
+    batchId: row.batch_id || undefined,
+    rolledBackAt: row.rolled_back_at || undefined,
+    rolledBackRecords: row.rolled_back_records ?? undefined,
+    fileHash: row.file_hash || undefined,
+    rulesetVersion: row.ruleset_version || undefined,
+    failedRowCount: row.failed_row_count,
+  };
+}
+
+/**
+ * Insert a column mapping profile
+ */
+export function insertMappingProfile(profile: MappingProfileInput): MappingProfile {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const stmt = database.prepare(`
+    INSERT INTO mapping_profiles (
+      name, column_map, reference_column, date_format, sign_convention, defaults, rule_settings,
+      created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    profile.name,
+    JSON.stringify(profile.columns),
+    profile.referenceColumn || null,
+    profile.dateFormat,
+    profile.signConvention,
+    profile.defaults ? JSON.stringify(profile.defaults) : null,
+    profile.ruleSettings ? JSON.stringify(profile.ruleSettings) : null,
+    now,
+    now,
+  );
+
+  return getMappingProfileById(Number(info.lastInsertRowid)) as MappingProfile;
+}
+
+/**
+ * Get all column mapping profiles, ordered by name
+ */
+export function getMappingProfiles(): MappingProfile[] {
+  const database = getDatabase();
+  const rows = database.prepare('SELECT * FROM mapping_profiles ORDER BY name').all() as MappingProfileRow[];
+  return rows.map(transformMappingProfileRow);
+}
+
+/**
+ * Get a column mapping profile by ID
+ */
+export function getMappingProfileById(id: number): MappingProfile | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM mapping_profiles WHERE id = ?').get(id) as MappingProfileRow | undefined;
+  return row ? transformMappingProfileRow(row) : null;
+}
+
+/**
+ * Replace a column mapping profile's settings
+ */
+export function updateMappingProfile(id: number, profile: MappingProfileInput): MappingProfile | null {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    UPDATE mapping_profiles
+    SET name = ?, column_map = ?, reference_column = ?, date_format = ?,
+        sign_convention = ?, defaults = ?, rule_settings = ?, updated_at = ?
+    WHERE id = ?
+  `);
+
+  const info = stmt.run(
+    profile.name,
+    JSON.stringify(profile.columns),
+    profile.referenceColumn || null,
+    profile.dateFormat,
+    profile.signConvention,
+    profile.defaults ? JSON.stringify(profile.defaults) : null,
+    profile.ruleSettings ? JSON.stringify(profile.ruleSettings) : null,
+    new Date().toISOString(),
+    id,
+  );
+
+  return info.changes > 0 ? getMappingProfileById(id) : null;
+}
+
+/**
+ * Delete a column mapping profile
+ */
+export function deleteMappingProfile(id: number): boolean {
+  const database = getDatabase();
+  const info = database.prepare('DELETE FROM mapping_profiles WHERE id = ?').run(id);
+  return info.changes > 0;
+}
+
+/**
+ * mapping_profiles table row as SQLite returns it; column_map, defaults and rule_settings are JSON text
+ */
+interface MappingProfileRow {
+  id: number;
+  name: string;
+  column_map: string;
+  reference_column: string | null;
+  date_format: MappingProfile['dateFormat'];
+  sign_convention: MappingProfile['signConvention'];
+  defaults: string | null;
+  rule_settings: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Transform database row to MappingProfile (snake_case to camelCase, JSON columns parsed)
+ */
+function transformMappingProfileRow(row: MappingProfileRow): MappingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    columns: JSON.parse(row.column_map),
+    referenceColumn: row.reference_column || undefined,
+    dateFormat: row.date_format,
+    signConvention: row.sign_convention,
+    defaults: row.defaults ? JSON.parse(row.defaults) : undefined,
+    ruleSettings: row.rule_settings ? JSON.parse(row.rule_settings) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Get an application setting's stored value (JSON text), or null if it was never set
+ */
+export function getSetting(key: string): string | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row ? row.value : null;
+}
+
+/**
+ * Store an application setting's value (JSON text), replacing any previous value
+ */
+export function setSetting(key: string, value: string): void {
+  const database = getDatabase();
+  database
+    .prepare(
+      `
+    INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `,
+    )
+    .run(key, value, new Date().toISOString());
+}
+
+/**
+ * Insert a staged import header (rows are added with insertStagedRows)
+ */
+export function insertStagedImport(
+  staged: Pick<
+    StagedImport,
+    'fileName' | 'fileSize' | 'fileHash' | 'profileId' | 'source' | 'parseErrors' | 'warnings'
+  >,
+): number {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const stmt = database.prepare(`
+    INSERT INTO staged_imports (
+      file_name, file_size, file_hash, profile_id, parser, worksheet, header_row, status, parse_errors, warnings,
+      created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    staged.fileName,
+    staged.fileSize || null,
+    staged.fileHash || null,
+    staged.profileId ?? null,
+    staged.source.parser,
+    staged.source.worksheet || null,
+    staged.source.headerRow ?? null,
+    JSON.stringify(staged.parseErrors),
+    JSON.stringify(staged.warnings),
+    now,
+    now,
+  );
+
+  return Number(info.lastInsertRowid);
+}
+
+/**
+ * Add parsed rows to a staged import in one transaction
+ */
+export function insertStagedRows(
+  stagedImportId: number,
+  rows: Array<Pick<StagedRow, 'rowNumber' | 'transaction' | 'errors'>>,
+): void {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    INSERT INTO staged_rows (staged_import_id, row_number, reference, data, errors)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertAll = database.transaction(() => {
+    for (const row of rows) {
+      stmt.run(
+        stagedImportId,
+        row.rowNumber,
+        row.transaction.reference || '',
+        JSON.stringify(row.transaction),
+        row.errors.length > 0 ? JSON.stringify(row.errors) : null,
+      );
+    }
+  });
+
+  insertAll();
+}
+
+/**
+ * Recompute duplicate markers for a staged import
+ * A row is a duplicate if its reference is already in transactions, or on an earlier kept row of the same import
+ */
+export function refreshStagedDuplicates(stagedImportId: number): void {
+  const database = getDatabase();
+  database
+    .prepare(
+      `
+    UPDATE staged_rows
+    SET duplicate = (
+      EXISTS (
+        SELECT 1 FROM transactions t
+        WHERE t.reference = staged_rows.reference OR t.pending_reference = staged_rows.reference
+      )
+      OR EXISTS (
+        SELECT 1 FROM staged_rows earlier
+        WHERE earlier.staged_import_id = staged_rows.staged_import_id
+          AND earlier.reference = staged_rows.reference
+          AND earlier.dropped = 0
+          AND earlier.row_number < staged_rows.row_number
+      )
+    )
+    WHERE staged_import_id = ?
+  `,
+    )
+    .run(stagedImportId);
+}
+
+/**
+ * Get staged imports, newest first, optionally filtered by status
+ */
+export function getStagedImports(status?: StagedImportStatus): StagedImport[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+    SELECT * FROM staged_imports
+    ${status ? 'WHERE status = ?' : ''}
+    ORDER BY created_at DESC, id DESC
+  `,
+    )
+    .all(...(status ? [status] : [])) as StagedImportRow[];
+  return rows.map(transformStagedImportRow);
+}
+
+/**
+ * Get a staged import by ID
+ */
+export function getStagedImportById(id: number): StagedImport | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM staged_imports WHERE id = ?').get(id) as StagedImportRow | undefined;
+  return row ? transformStagedImportRow(row) : null;
+}
+
+/**
+ * Get the rows of a staged import in file order
+ */
+export function getStagedRows(stagedImportId: number): StagedRow[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare('SELECT * FROM staged_rows WHERE staged_import_id = ? ORDER BY row_number')
+    .all(stagedImportId) as StagedRowRow[];
+  return rows.map(transformStagedRow);
+}
+
+/**
+ * Get one row of a staged import
+ */
+export function getStagedRowById(stagedImportId: number, rowId: number): StagedRow | null {
+  const database = getDatabase();
+  const row = database
+    .prepare('SELECT * FROM staged_rows WHERE staged_import_id = ? AND id = ?')
+    .get(stagedImportId, rowId) as StagedRowRow | undefined;
+  return row ? transformStagedRow(row) : null;
+}
+
+/**
+ * Replace a staged row's transaction, validation errors and dropped flag
+ */
+export function updateStagedRow(
+  rowId: number,
+  update: Pick<StagedRow, 'transaction' | 'errors' | 'dropped'>,
+): boolean {
+  const database = getDatabase();
+  const info = database
+    .prepare('UPDATE staged_rows SET reference = ?, data = ?, errors = ?, dropped = ? WHERE id = ?')
+    .run(
+      update.transaction.reference || '',
+      JSON.stringify(update.transaction),
+      update.errors.length > 0 ? JSON.stringify(update.errors) : null,
+      update.dropped ? 1 : 0,
+      rowId,
+    );
+
+  if (info.changes > 0) {
+    database
+      .prepare(
+        'UPDATE staged_imports SET updated_at = ? WHERE id = (SELECT staged_import_id FROM staged_rows WHERE id = ?)',
+      )
+      .run(new Date().toISOString(), rowId);
+  }
+
+  return info.changes > 0;
+}
+
+/**
+ * Close a staged import (committed or discarded) and delete its rows
+ */
+export function closeStagedImport(id: number, status: Exclude<StagedImportStatus, 'pending'>): boolean {
+  const database = getDatabase();
+
+  const close = database.transaction(() => {
+    database.prepare('DELETE FROM staged_rows WHERE staged_import_id = ?').run(id);
+    return database
+      .prepare("UPDATE staged_imports SET status = ?, updated_at = ? WHERE id = ? AND status = 'pending'")
+      .run(status, new Date().toISOString(), id).changes;
+  });
+
+  return close() > 0;
+}
+
+/**
+ * staged_imports table row as SQLite returns it; parse_errors and warnings are JSON text
+ */
+interface StagedImportRow {
+  id: number;
+  file_name: string;
+  file_size: number | null;
+  file_hash: string | null;
+  profile_id: number | null;
+  parser: string;
+  worksheet: string | null;
+  header_row: number | null;
+  status: StagedImportStatus;
+  parse_errors: string | null;
+  warnings: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Transform database row to StagedImport, with row counts from staged_rows
+ */
+function transformStagedImportRow(row: StagedImportRow): StagedImport {
+  const database = getDatabase();
+  const counts = database
+    .prepare(
+      `
+    SELECT
+      COUNT(*) as rowCount,
+      COALESCE(SUM(CASE WHEN dropped = 0 AND errors IS NOT NULL THEN 1 ELSE 0 END), 0) as invalidCount,
+      COALESCE(SUM(CASE WHEN dropped = 0 AND duplicate = 1 THEN 1 ELSE 0 END), 0) as duplicateCount,
+      COALESCE(SUM(CASE WHEN dropped = 1 THEN 1 ELSE 0 END), 0) as droppedCount
+    FROM staged_rows WHERE staged_import_id = ?
+  `,
+    )
+    .get(row.id) as { rowCount: number; invalidCount: number; duplicateCount: number; droppedCount: number };
+
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileSize: row.file_size ?? undefined,
+    fileHash: row.file_hash || undefined,
+    profileId: row.profile_id ?? undefined,
+    status: row.status,
+    source: {
+      parser: row.parser,
+      worksheet: row.worksheet || undefined,
+      headerRow: row.header_row ?? undefined,
+    },
+    parseErrors: row.parse_errors ? JSON.parse(row.parse_errors) : [],
+    warnings: row.warnings ? JSON.parse(row.warnings) : [],
+    ...counts,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * staged_rows table row as SQLite returns it; data and errors are JSON text, flags are 0 or 1
+ */
+interface StagedRowRow {
+  id: number;
+  staged_import_id: number;
+  row_number: number;
+  reference: string;
+  data: string;
+  errors: string | null;
+  duplicate: number;
+  dropped: number;
+}
+
+/**
+ * Transform database row to StagedRow (JSON columns parsed, flags as booleans)
+ */
+function transformStagedRow(row: StagedRowRow): StagedRow {
+  return {
+    id: row.id,
+    stagedImportId: row.staged_import_id,
+    rowNumber: row.row_number,
+    transaction: JSON.parse(row.data),
+    errors: row.errors ? JSON.parse(row.errors) : [],
+    duplicate: row.duplicate === 1,
+    dropped: row.dropped === 1,
+  };
+}
+
+/**
+ * Keep the rows an import rejected, with their values, for correction and resubmission
+ */
+export function insertFailedRows(
+  importId: number,
+  rows: Array<Pick<FailedRow, 'rowNumber' | 'stage' | 'values' | 'errors' | 'profileId' | 'dateFormat'>>,
+): void {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const stmt = database.prepare(`
+    INSERT INTO failed_rows (
+      import_id, row_number, stage, data, errors, profile_id, date_format, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertAll = database.transaction(() => {
+    for (const row of rows) {
+      stmt.run(
+        importId,
+        row.rowNumber,
+        row.stage,
+        JSON.stringify(row.values),
+        JSON.stringify(row.errors),
+        row.profileId ?? null,
+        row.dateFormat || null,
+        now,
+        now,
+      );
+    }
+  });
+
+  insertAll();
+}
+
+/**
+ * Get the rows an import rejected, resolved ones included
+ */
+export function getFailedRows(importId: number): FailedRow[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare('SELECT * FROM failed_rows WHERE import_id = ? ORDER BY row_number, id')
+    .all(importId) as FailedRowRow[];
+  return rows.map(transformFailedRow);
+}
+
+/**
+ * Get one rejected row of an import
+ */
+export function getFailedRowById(importId: number, rowId: number): FailedRow | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM failed_rows WHERE import_id = ? AND id = ?').get(importId, rowId) as
+    | FailedRowRow
+    | undefined;
+  return row ? transformFailedRow(row) : null;
+}
+
+/**
+ * Replace a rejected row's values and errors (after a resubmission that failed again)
+ */
+export function updateFailedRow(rowId: number, update: Pick<FailedRow, 'values' | 'errors'>): boolean {
+  const database = getDatabase();
+  const info = database
+    .prepare('UPDATE failed_rows SET data = ?, errors = ?, updated_at = ? WHERE id = ?')
+    .run(JSON.stringify(update.values), JSON.stringify(update.errors), new Date().toISOString(), rowId);
+  return info.changes > 0;
+}
+
+/**
+ * Mark a rejected row as imported, with the values it was imported from
+ */
+export function resolveFailedRow(rowId: number, values: FailedRow['values'], reference: string): boolean {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const info = database
+    .prepare(
+      `
+    UPDATE failed_rows
+    SET data = ?, errors = '[]', resolved_reference = ?, resolved_at = ?, updated_at = ?
+    WHERE id = ?
+  `,
+    )
+    .run(JSON.stringify(values), reference, now, now, rowId);
+  return info.changes > 0;
+}
+
+/**
+ * failed_rows table row as SQLite returns it; data and errors are JSON text
+ */
+interface FailedRowRow {
+  id: number;
+  import_id: number;
+  row_number: number;
+  stage: FailedRow['stage'];
+  data: string;
+  errors: string;
+  profile_id: number | null;
+  date_format: FailedRow['dateFormat'] | null;
+  resolved_reference: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Transform database row to FailedRow
+ */
+function transformFailedRow(row: FailedRowRow): FailedRow {
+  return {
+    id: row.id,
+    importId: row.import_id,
+    rowNumber: row.row_number,
+    stage: row.stage,
+    values: JSON.parse(row.data),
+    errors: JSON.parse(row.errors),
+    profileId: row.profile_id ?? undefined,
+    dateFormat: row.date_format || undefined,
+    resolvedReference: row.resolved_reference || undefined,
+    resolvedAt: row.resolved_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
 }
 
 /**
@@ -413,11 +1500,12 @@ export function getUnreconciledTransactions(startDate: string, endDate: string):
   const stmt = database.prepare(`
     SELECT * FROM transactions
     WHERE reconciled = 0
+    AND status != 'superseded'
     AND date >= ?
     AND date <= ?
     ORDER BY date DESC
   `);
-  const rows = stmt.all(startDate, endDate) as any[];
+  const rows = stmt.all(startDate, endDate) as TransactionRow[];
   return rows.map(transformTransactionRow);
 }
 
@@ -430,9 +1518,10 @@ export function getTransactionsByDateRange(startDate: string, endDate: string):
     SELECT * FROM transactions
     WHERE date >= ?
     AND date <= ?
+    AND status != 'superseded'
     ORDER BY date DESC
   `);
-  const rows = stmt.all(startDate, endDate) as any[];
+  const rows = stmt.all(startDate, endDate) as TransactionRow[];
   return rows.map(transformTransactionRow);
 }
 
@@ -472,26 +1561,46 @@ export function insertReconciliationLog(
 }
 
 /**
- * Get reconciliation logs with pagination
+ * Get a page of reconciliation logs, newest first, starting after a page key (keyset pagination)
+ * nextKey is set when there are older logs after this page
  */
-export function getReconciliationLogs(
-  budgetId?: string,
-  limit: number = 50,
-  offset: number = 0,
-): import('./types/index').ReconciliationLog[] {
+export function getReconciliationLogPage(
+  budgetId: string | undefined,
+  limit: number,
+  after?: PageKey,
+): { logs: import('./types/index').ReconciliationLog[]; nextKey?: PageKey } {
   const database = getDatabase();
-  let query = 'SELECT * FROM reconciliation_logs';
-  const params: any[] = [];
-
-  if (budgetId) {
-    query += ' WHERE budget_id = ?';
-    params.push(budgetId);
+  const conditions = budgetId ? ['budget_id = @budgetId'] : [];
+  if (after) {
+    conditions.push(keysetCondition('reconciled_at', 'DESC'));
   }
 
-  query += ' ORDER BY reconciled_at DESC LIMIT ? OFFSET ?';
-  params.push(limit, offset);
+  const stmt = database.prepare(`
+    SELECT * FROM reconciliation_logs
+    ${toWhereClause(conditions)}
+    ORDER BY reconciled_at DESC, id DESC
+    LIMIT @limit
+  `);
+  const rows = stmt.all({
+    ...(budgetId && { budgetId }),
+    ...toKeysetParams(after),
+    limit: limit + 1,
+  }) as import('./types/index').ReconciliationLog[];
+
+  const logs = rows.slice(0, limit);
+  const last = logs[logs.length - 1];
+  return { logs, ...(rows.length > limit && { nextKey: { value: last.reconciled_at, id: last.id } }) };
+}
 
-  const stmt = database.prepare(query);
-  const logs = stmt.all(...params) as import('./types/index').ReconciliationLog[];
-  return logs;
+/**
+ * Get reconciliation log count, for one budget when given
+ */
+export function getReconciliationLogCount(budgetId?: string): number {
+  const database = getDatabase();
+  const result = (
+    budgetId
+      ? database.prepare('SELECT COUNT(*) as count FROM reconciliation_logs WHERE budget_id = ?').get(budgetId)
+      : database.prepare('SELECT COUNT(*) as count FROM reconciliation_logs').get()
+  ) as { count: number };
+  return result.count;
 }
@@ -0,0 +1,68 @@
+/**
+ * Foreign spend parsed from a statement's "Foreign Spend Amount" column
+ */
+export interface ForeignSpend {
+  amount: number;
+  /** ISO 4217 code, when the column names a currency we recognise */
+  currency?: string;
+}
+
+/**
+ * Currency names as statements spell them out (e.g. "12.50 UNITED STATES DOLLARS"), mapped to ISO 4217 codes
+ */
+const CURRENCY_NAMES: Record<string, string> = {
+  'US DOLLAR': 'USD',
+  'UNITED STATES DOLLAR': 'USD',
+  'AUSTRALIAN DOLLAR': 'AUD',
+  'NEW ZEALAND DOLLAR': 'NZD',
+  'CANADIAN DOLLAR': 'CAD',
+  'SINGAPORE DOLLAR': 'SGD',
+  'HONG KONG DOLLAR': 'HKD',
+  EURO: 'EUR',
+  'POUND STERLING': 'GBP',
+  'BRITISH POUND': 'GBP',
+  'JAPANESE YEN': 'JPY',
+  YEN: 'JPY',
+  'SWISS FRANC': 'CHF',
+  'THAI BAHT': 'THB',
+  'INDONESIAN RUPIAH': 'IDR',
+  'INDIAN RUPEE': 'INR',
+  'CHINESE YUAN': 'CNY',
+  'YUAN RENMINBI': 'CNY',
+};
+
+/**
+ * Parse a decimal number from text that may carry thousands separators, currency symbols or codes
+ * Returns null for blank or non-numeric text
+ */
+export function parseDecimal(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?|-?\.\d+/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Parse a foreign spend amount and its currency
+ * Accepts "12.50 USD", "USD 12.50", "12.50 UNITED STATES DOLLARS" or a bare number
+ */
+export function parseForeignSpend(value: string | undefined): ForeignSpend | null {
+  const amount = parseDecimal(value);
+  if (amount === null || !value) return null;
+
+  const words = value
+    .replace(/[\d.,\-+$€£¥]/g, ' ')
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, ' ');
+
+  const currency = words ? toCurrencyCode(words) : undefined;
+  return currency ? { amount, currency } : { amount };
+}
+
+/**
+ * ISO 4217 code for a currency code or name (plural names like "EUROS" included)
+ */
+function toCurrencyCode(words: string): string | undefined {
+  if (/^[A-Z]{3}$/.test(words)) return words;
+  return CURRENCY_NAMES[words] ?? CURRENCY_NAMES[words.replace(/S$/, '')];
+}
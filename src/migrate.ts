@@ -0,0 +1,83 @@
+import Database from 'better-sqlite3';
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getMigrationStatus, getSchemaVersion, migrate, revertMigrations } from './migrations';
+import type { MigrationStatus } from './migrations';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run migrate -- <command> [--to <version>] [--dry-run] [--db <path>]
+
+Commands:
+  status   List every migration and whether it is applied
+  up       Apply pending migrations (up to --to when given)
+  down     Revert applied migrations newer than --to (the latest one when omitted)
+
+The database defaults to DATABASE_PATH or db/transactions.db.
+Use npm run migrate:prod instead against a compiled build, such as the production image.`;
+
+/**
+ * Value following a flag, e.g. --to 3
+ */
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function formatMigration(migration: MigrationStatus): string {
+  const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+  return `  ${String(migration.version).padStart(4, '0')} ${migration.name} (${state})`;
+}
+
+/**
+ * Run a migration command against the database
+ */
+export function runMigrateCommand(args: string[]): void {
+  const [command] = args;
+  const dryRun = args.includes('--dry-run');
+  const toValue = getFlagValue(args, '--to');
+  const to = toValue !== undefined ? parseInt(toValue, 10) : undefined;
+  const dbPath = getFlagValue(args, '--db') || process.env.DATABASE_PATH || 'db/transactions.db';
+
+  if (!['status', 'up', 'down'].includes(command) || (to !== undefined && isNaN(to))) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const database = new Database(dbPath);
+
+  try {
+    if (command === 'status') {
+      console.log(`Database ${dbPath} is at schema version ${getSchemaVersion(database)}`);
+      getMigrationStatus(database).forEach((migration) => console.log(formatMigration(migration)));
+      return;
+    }
+
+    const migrations =
+      command === 'up'
+        ? migrate(database, { to, dryRun })
+        : revertMigrations(database, { to: to ?? Math.max(0, getSchemaVersion(database) - 1), dryRun });
+
+    const verb = command === 'up' ? 'apply' : 'revert';
+    if (migrations.length === 0) {
+      console.log(`Nothing to ${verb}`);
+    } else {
+      console.log(dryRun ? `Would ${verb}:` : `${verb === 'apply' ? 'Applied' : 'Reverted'}:`);
+      migrations.forEach((migration) => console.log(formatMigration(migration)));
+    }
+    console.log(`Schema version: ${getSchemaVersion(database)}`);
+  } catch (err) {
+    console.error(`Migration failed: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+  } finally {
+    database.close();
+  }
+}
+
+// Run the command if this file is run directly
+if (require.main === module) {
+  runMigrateCommand(process.argv.slice(2));
+}
@@ -0,0 +1,344 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fromMinorUnits, toMoneyColumns } from './money';
+
+/**
+ * A numbered schema change
+ * Migrations run in version order, each in its own transaction together with its schema_migrations row,
+ * so a failing migration leaves the database at the previous version. Append new ones to MIGRATIONS with
+ * the next version number; never edit one that has been released.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (database: Database.Database) => void;
+  down: (database: Database.Database) => void;
+}
+
+/**
+ * A migration and when it was applied to the database (unset if it is pending)
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: string;
+}
+
+export interface MigrateOptions {
+  /** Stop after this version (all pending migrations when omitted) */
+  to?: number;
+  /** List the migrations that would run without running them */
+  dryRun?: boolean;
+}
+
+/**
+ * Typed money columns added to transactions by migration 2, with their definitions
+ */
+const MONEY_COLUMNS: Array<[string, string]> = [
+  ['amount_minor', 'INTEGER NOT NULL DEFAULT 0'],
+  ['currency', "TEXT NOT NULL DEFAULT 'AUD'"],
+  ['foreign_amount_minor', 'INTEGER'],
+  ['foreign_currency', 'TEXT'],
+  ['commission_minor', 'INTEGER'],
+  ['fx_rate', 'REAL'],
+];
+
+/**
+ * Transaction columns indexed for full-text search by migration 3
+ */
+const SEARCH_COLUMNS = ['description', 'appears_on_statement', 'additional_information', 'address', 'town_city'];
+
+/**
+ * Every table the application owns, dropped by the initial migration's down step
+ */
+const APP_TABLES = [
+  'transactions',
+  'transaction_changes',
+  'import_logs',
+  'mapping_profiles',
+  'staged_imports',
+  'staged_rows',
+  'failed_rows',
+  'settings',
+  'reconciliation_logs',
+];
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial-schema',
+    up: (database) => {
+      // Databases created before versioned migrations get the columns they lack first, so the schema's
+      // indexes on those columns can be created
+      addLegacyColumns(database);
+      database.exec(fs.readFileSync(path.join(__dirname, '..', 'src', 'schema.sql'), 'utf-8'));
+    },
+    down: (database) => {
+      for (const table of APP_TABLES) {
+        database.exec(`DROP TABLE IF EXISTS ${table}`);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'money-minor-units',
+    up: (database) => {
+      // Amounts move from REAL currency units to integer minor units with an explicit currency, and the
+      // statement's foreign spend, commission and rate text is parsed into typed columns next to it
+      for (const [column, definition] of MONEY_COLUMNS) {
+        database.exec(`ALTER TABLE transactions ADD COLUMN ${column} ${definition}`);
+      }
+
+      const rows = database
+        .prepare('SELECT id, amount, foreign_spend_amount, commission, exchange_rate FROM transactions')
+        .all() as Array<{
+        id: number;
+        amount: number;
+        foreign_spend_amount: string | null;
+        commission: string | null;
+        exchange_rate: string | null;
+      }>;
+      const update = database.prepare(`
+        UPDATE transactions
+        SET amount_minor = @amount_minor, currency = @currency,
+            foreign_amount_minor = @foreign_amount_minor, foreign_currency = @foreign_currency,
+            commission_minor = @commission_minor, fx_rate = @fx_rate
+        WHERE id = @id
+      `);
+      for (const row of rows) {
+        // Existing rows were all imported from statements in the statement currency
+        const columns = toMoneyColumns({
+          amount: row.amount,
+          foreignSpendAmount: row.foreign_spend_amount ?? undefined,
+          commission: row.commission ?? undefined,
+          exchangeRate: row.exchange_rate ?? undefined,
+        });
+        update.run({ id: row.id, ...columns });
+      }
+
+      database.exec('ALTER TABLE transactions DROP COLUMN amount');
+    },
+    down: (database) => {
+      database.exec('ALTER TABLE transactions ADD COLUMN amount REAL NOT NULL DEFAULT 0');
+
+      const rows = database.prepare('SELECT id, amount_minor, currency FROM transactions').all() as Array<{
+        id: number;
+        amount_minor: number;
+        currency: string;
+      }>;
+      const update = database.prepare('UPDATE transactions SET amount = ? WHERE id = ?');
+      for (const row of rows) {
+        update.run(fromMinorUnits(row.amount_minor, row.currency), row.id);
+      }
+
+      for (const [column] of MONEY_COLUMNS) {
+        database.exec(`ALTER TABLE transactions DROP COLUMN ${column}`);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'transactions-fts',
+    up: (database) => {
+      // External content table: the index reads column values from transactions, and triggers keep it in
+      // step with every insert, update and delete
+      const columns = SEARCH_COLUMNS.join(', ');
+      const values = (row: 'new' | 'old') => SEARCH_COLUMNS.map((column) => `${row}.${column}`).join(', ');
+
+      database.exec(`
+        CREATE VIRTUAL TABLE transactions_fts USING fts5(
+          ${columns},
+          content = 'transactions', content_rowid = 'id', tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER transactions_fts_insert AFTER INSERT ON transactions BEGIN
+          INSERT INTO transactions_fts (rowid, ${columns}) VALUES (new.id, ${values('new')});
+        END;
+
+        CREATE TRIGGER transactions_fts_delete AFTER DELETE ON transactions BEGIN
+          INSERT INTO transactions_fts (transactions_fts, rowid, ${columns})
+          VALUES ('delete', old.id, ${values('old')});
+        END;
+
+        CREATE TRIGGER transactions_fts_update AFTER UPDATE OF ${columns} ON transactions BEGIN
+          INSERT INTO transactions_fts (transactions_fts, rowid, ${columns})
+          VALUES ('delete', old.id, ${values('old')});
+          INSERT INTO transactions_fts (rowid, ${columns}) VALUES (new.id, ${values('new')});
+        END;
+
+        INSERT INTO transactions_fts (transactions_fts) VALUES ('rebuild');
+      `);
+    },
+    down: (database) => {
+      database.exec(`
+        DROP TRIGGER IF EXISTS transactions_fts_insert;
+        DROP TRIGGER IF EXISTS transactions_fts_delete;
+        DROP TRIGGER IF EXISTS transactions_fts_update;
+        DROP TABLE IF EXISTS transactions_fts;
+      `);
+    },
+  },
+];
+
+/**
+ * Every migration with the time it was applied, in version order
+ * Throws if the database has a version this release doesn't know (it was migrated by a newer release)
+ */
+export function getMigrationStatus(
+  database: Database.Database,
+  migrations: Migration[] = MIGRATIONS,
+): MigrationStatus[] {
+  const applied = getAppliedMigrations(database);
+
+  const unknown = [...applied.keys()].filter((version) => !migrations.some((m) => m.version === version));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database has schema migration(s) ${unknown.join(', ')} that this release doesn't know; upgrade the application`,
+    );
+  }
+
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      ...(applied.has(migration.version) && { appliedAt: applied.get(migration.version) }),
+    }));
+}
+
+/**
+ * Apply pending migrations in version order (up to options.to)
+ * Returns the migrations applied, or those that would be with dryRun
+ */
+export function migrate(
+  database: Database.Database,
+  options: MigrateOptions = {},
+  migrations: Migration[] = MIGRATIONS,
+): MigrationStatus[] {
+  const pending = getMigrationStatus(database, migrations).filter(
+    (status) => !status.appliedAt && (options.to === undefined || status.version <= options.to),
+  );
+
+  if (options.dryRun) {
+    return pending;
+  }
+
+  return pending.map((status) => {
+    const migration = migrations.find((m) => m.version === status.version) as Migration;
+    const appliedAt = new Date().toISOString();
+
+    database.transaction(() => {
+      migration.up(database);
+      database
+        .prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, appliedAt);
+    })();
+
+    return { ...status, appliedAt };
+  });
+}
+
+/**
+ * Revert applied migrations newer than version `to`, newest first (0 reverts everything)
+ * Returns the migrations reverted (now pending), or those that would be with dryRun
+ */
+export function revertMigrations(
+  database: Database.Database,
+  options: { to: number; dryRun?: boolean },
+  migrations: Migration[] = MIGRATIONS,
+): MigrationStatus[] {
+  const toRevert = getMigrationStatus(database, migrations)
+    .filter((status) => status.appliedAt && status.version > options.to)
+    .reverse();
+
+  if (options.dryRun) {
+    return toRevert;
+  }
+
+  for (const status of toRevert) {
+    const migration = migrations.find((m) => m.version === status.version) as Migration;
+
+    database.transaction(() => {
+      migration.down(database);
+      database.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+    })();
+  }
+
+  return toRevert.map(({ version, name }) => ({ version, name }));
+}
+
+/**
+ * Latest applied migration version (0 for a new database)
+ */
+export function getSchemaVersion(database: Database.Database): number {
+  return Math.max(0, ...getAppliedMigrations(database).keys());
+}
+
+/**
+ * Applied migration versions with their applied_at times, creating the tracking table if needed
+ */
+function getAppliedMigrations(database: Database.Database): Map<number, string> {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const rows = database.prepare('SELECT version, applied_at FROM schema_migrations').all() as Array<{
+    version: number;
+    applied_at: string;
+  }>;
+  return new Map(rows.map((row) => [row.version, row.applied_at]));
+}
+
+/**
+ * Columns added to tables before versioned migrations existed
+ * No-ops on a new database (schema.sql creates the tables with them) and on one that already has them
+ */
+function addLegacyColumns(database: Database.Database): void {
+  // Reconciliation columns
+  addColumnIfMissing(database, 'transactions', 'reconciled', 'BOOLEAN DEFAULT 0');
+  addColumnIfMissing(database, 'transactions', 'ynab_transaction_id', 'TEXT');
+  addColumnIfMissing(database, 'transactions', 'reconciled_at', 'TEXT');
+
+  // Parser detected for each import
+  addColumnIfMissing(database, 'import_logs', 'parser', 'TEXT');
+
+  // Batch shared by files imported from one ZIP archive
+  addColumnIfMissing(database, 'import_logs', 'batch_id', 'TEXT');
+
+  // Import that inserted each transaction, so a whole import can be rolled back
+  addColumnIfMissing(database, 'transactions', 'import_id', 'INTEGER');
+  addColumnIfMissing(database, 'import_logs', 'rolled_back_at', 'TEXT');
+  addColumnIfMissing(database, 'import_logs', 'rolled_back_records', 'INTEGER');
+
+  // SHA-256 of the uploaded file, to short-circuit repeat uploads
+  addColumnIfMissing(database, 'import_logs', 'file_hash', 'TEXT');
+  addColumnIfMissing(database, 'staged_imports', 'file_hash', 'TEXT');
+
+  // Pending/posted lifecycle: a posted row keeps the reference of the pending row it superseded
+  addColumnIfMissing(database, 'transactions', 'status', "TEXT NOT NULL DEFAULT 'posted'");
+  addColumnIfMissing(database, 'transactions', 'pending_reference', 'TEXT');
+
+  // Validation rule overrides per mapping profile, and the ruleset each import was checked with
+  addColumnIfMissing(database, 'mapping_profiles', 'rule_settings', 'TEXT');
+  addColumnIfMissing(database, 'import_logs', 'ruleset_version', 'TEXT');
+  addColumnIfMissing(database, 'staged_imports', 'profile_id', 'INTEGER');
+}
+
+/**
+ * Add a column to an existing table (no-op if the table doesn't exist yet, schema will create it)
+ */
+function addColumnIfMissing(database: Database.Database, table: string, column: string, definition: string): void {
+  const tableInfo = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+
+  if (tableInfo.length === 0 || tableInfo.some((col) => col.name === column)) {
+    return;
+  }
+
+  console.log(`Adding ${column} column to ${table} table`);
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
@@ -0,0 +1,111 @@
+import { parseDecimal, parseForeignSpend } from './fx';
+import type { AmExTransaction } from './types/index';
+
+/**
+ * Currency of statements that don't state one (AmEx and mapped spreadsheets), when STATEMENT_CURRENCY is unset
+ */
+const FALLBACK_CURRENCY = 'AUD';
+
+/**
+ * ISO 4217 currencies whose minor unit isn't a hundredth; every other currency has two decimals
+ */
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  CLP: 0,
+  ISK: 0,
+  PYG: 0,
+  UGX: 0,
+  XOF: 0,
+  XAF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Currency statement amounts are in unless the file says otherwise (STATEMENT_CURRENCY, AUD by default)
+ */
+export function getStatementCurrency(): string {
+  return (process.env.STATEMENT_CURRENCY || FALLBACK_CURRENCY).toUpperCase();
+}
+
+/**
+ * Decimal places of a currency's minor unit (2 for unknown currencies)
+ */
+export function getCurrencyExponent(currency?: string): number {
+  return currency ? (CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2) : 2;
+}
+
+/**
+ * Convert an amount in currency units to integer minor units: 45.1 AUD -> 4510
+ */
+export function toMinorUnits(amount: number, currency?: string): number {
+  // Rounding the scaled value first keeps float noise (45.1 * 100 = 4509.999...) from truncating
+  return Math.round(Number((amount * 10 ** getCurrencyExponent(currency)).toPrecision(15)));
+}
+
+/**
+ * Convert integer minor units back to currency units: 4510 AUD -> 45.1
+ */
+export function fromMinorUnits(minorUnits: number, currency?: string): number {
+  return minorUnits / 10 ** getCurrencyExponent(currency);
+}
+
+/**
+ * Convert integer minor units to YNAB milliunits (1000 per currency unit): 4510 AUD -> 45100
+ */
+export function toMilliunits(minorUnits: number, currency?: string): number {
+  return minorUnits * 10 ** (3 - getCurrencyExponent(currency));
+}
+
+/**
+ * SQL expression for an amount in currency units from its minor units and currency columns, so queries can
+ * filter and sort amounts in different currencies alike
+ */
+export function currencyUnitsSql(minorUnitsColumn: string, currencyColumn: string): string {
+  const divisors = Object.entries(CURRENCY_EXPONENTS)
+    .map(([currency, exponent]) => `WHEN '${currency}' THEN ${10 ** exponent}`)
+    .join(' ');
+  return `(${minorUnitsColumn} * 1.0 / CASE ${currencyColumn} ${divisors} ELSE 100 END)`;
+}
+
+/**
+ * Typed money columns stored alongside a transaction's statement text
+ */
+export interface MoneyColumns {
+  amount_minor: number;
+  currency: string;
+  foreign_amount_minor: number | null;
+  foreign_currency: string | null;
+  commission_minor: number | null;
+  fx_rate: number | null;
+}
+
+/**
+ * Convert a transaction's amount to minor units and parse its foreign spend, commission and rate text
+ * The amount and commission are in the transaction's currency (the statement currency when unset);
+ * the foreign amount is in its own currency, or hundredths when the statement doesn't name one.
+ */
+export function toMoneyColumns(
+  transaction: Pick<AmExTransaction, 'amount' | 'currency' | 'foreignSpendAmount' | 'commission' | 'exchangeRate'>,
+): MoneyColumns {
+  const currency = (transaction.currency || getStatementCurrency()).toUpperCase();
+  const foreignSpend = parseForeignSpend(transaction.foreignSpendAmount);
+  const commission = parseDecimal(transaction.commission);
+
+  return {
+    amount_minor: toMinorUnits(transaction.amount, currency),
+    currency,
+    foreign_amount_minor: foreignSpend ? toMinorUnits(foreignSpend.amount, foreignSpend.currency) : null,
+    foreign_currency: foreignSpend?.currency ?? null,
+    commission_minor: commission !== null ? toMinorUnits(commission, currency) : null,
+    fx_rate: parseDecimal(transaction.exchangeRate),
+  };
+}
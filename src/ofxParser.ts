@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import type { AmExTransaction, StatementParseResult } from './types/index';
+
+interface OfxParserOptions {
+  cardMember?: string;
+}
+
+/**
+ * Prefix of references hex-encoded from FITIDs that aren't only letters and digits
+ */
+const ENCODED_FITID_PREFIX = 'OFX';
+
+/**
+ * Parse OFX/QFX statement file (OFX 1.x SGML or OFX 2.x XML)
+ * Maps each STMTTRN entry to an AmExTransaction, using FITID as reference
+ * Files with statements for more than one account are refused, since every entry is given the first
+ * account's ID and currency.
+ */
+export function parseOfxStatement(filePath: string, options: OfxParserOptions = {}): StatementParseResult {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  if (!isOfxContent(content)) {
+    throw new Error('File is not a valid OFX/QFX statement');
+  }
+
+  const statementCount = (content.match(/<(?:CC)?STMTRS>/gi) || []).length;
+  if (statementCount > 1) {
+    throw new Error(`OFX file has statements for ${statementCount} accounts; export each account to its own file`);
+  }
+
+  // OFX has no card member field, so account ID identifies the card
+  const accountNumber = getTagValue(content, 'ACCTID') || '';
+  const cardMember = options.cardMember || 'Unknown';
+  const currency = getTagValue(content, 'CURDEF')?.toUpperCase();
+
+  const transactions: AmExTransaction[] = [];
+  const errors: Array<{ row: number; error: string }> = [];
+
+  // SGML (OFX 1.x) may omit closing tags, so each entry ends at the next STMTTRN or list end
+  const entryRegex = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+  let match: RegExpExecArray | null;
+  let entryNumber = 0;
+
+  while ((match = entryRegex.exec(content)) !== null) {
+    entryNumber++;
+    try {
+      transactions.push(parseStatementEntry(match[1], entryNumber, accountNumber, cardMember, currency));
+    } catch (err) {
+      errors.push({
+        row: entryNumber,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { transactions, errors };
+}
+
+/**
+ * Check whether text content is an OFX/QFX document (SGML header or OFX root element)
+ */
+export function isOfxContent(content: string): boolean {
+  return /^\s*OFXHEADER:/.test(content.replace(/^\uFEFF/, '')) || /<OFX>/i.test(content);
+}
+
+/**
+ * Parse a single STMTTRN entry into AmExTransaction object
+ */
+function parseStatementEntry(
+  entry: string,
+  entryNumber: number,
+  accountNumber: string,
+  cardMember: string,
+  currency?: string,
+): AmExTransaction {
+  const fitId = getTagValue(entry, 'FITID');
+  const datePosted = getTagValue(entry, 'DTPOSTED');
+  const amount = getTagValue(entry, 'TRNAMT');
+  const name = getTagValue(entry, 'NAME');
+  const memo = getTagValue(entry, 'MEMO');
+
+  if (!fitId) throw new Error(`Entry ${entryNumber}: Missing required field "FITID"`);
+  if (!datePosted) throw new Error(`Entry ${entryNumber}: Missing required field "DTPOSTED"`);
+  if (!amount) throw new Error(`Entry ${entryNumber}: Missing required field "TRNAMT"`);
+
+  const parsedAmount = parseFloat(amount.replace(/,/g, ''));
+  if (isNaN(parsedAmount)) {
+    throw new Error(`Entry ${entryNumber}: Invalid amount format "${amount}"`);
+  }
+
+  const date = parseOfxDate(datePosted);
+  if (!date) {
+    throw new Error(`Entry ${entryNumber}: Unable to parse date "${datePosted}"`);
+  }
+
+  const description = name || memo;
+  if (!description) throw new Error(`Entry ${entryNumber}: Missing required field "NAME"`);
+
+  return {
+    date,
+    dateProcessed: date,
+    description,
+    cardMember,
+    accountNumber,
+    // OFX amounts are from the account holder's side (charges negative); AmEx statements show charges positive
+    amount: parsedAmount === 0 ? 0 : -parsedAmount,
+    ...(currency && { currency }),
+    additionalInformation: memo && memo !== description ? memo : undefined,
+    appearsOnStatement: description,
+    country: '',
+    reference: fitIdToReference(fitId),
+    // BANKTRANLIST only holds posted transactions
+    status: 'posted',
+    rowNumber: entryNumber,
+  };
+}
+
+/**
+ * Turn a FITID into a reference, which must be alphanumeric
+ * Some institutions use separators in FITIDs: those are hex-encoded behind ENCODED_FITID_PREFIX rather than
+ * stripped, so e.g. 12-34 and 1-234 stay distinct. Plain FITIDs that start with the prefix are encoded too,
+ * so an encoded reference never equals a plain one.
+ */
+function fitIdToReference(fitId: string): string {
+  if (/^[A-Za-z0-9]+$/.test(fitId) && !fitId.startsWith(ENCODED_FITID_PREFIX)) {
+    return fitId;
+  }
+  return `${ENCODED_FITID_PREFIX}${Buffer.from(fitId, 'utf-8').toString('hex').toUpperCase()}`;
+}
+
+/**
+ * Read the value of an OFX element (works with and without closing tags)
+ */
+function getTagValue(content: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(content);
+  if (!match) return undefined;
+  const value = decodeEntities(match[1].trim());
+  return value.length > 0 ? value : undefined;
+}
+
+/**
+ * Convert OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) to YYYY-MM-DD
+ */
+function parseOfxDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== parseInt(day)) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Decode XML/SGML character entities used in OFX text fields
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -1,109 +1,841 @@
 import * as XLSX from 'xlsx';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
-import type { AmExTransaction } from './types/index';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { getZipUncompressedSize } from './archive';
+import type {
+  AmExTransaction,
+  StatementParseResult,
+  StatementChunk,
+  MappingProfileInput,
+  DateFormat,
+  RawTransactionValues,
+  StatementSummary,
+  StatementField,
+} from './types/index';
 
-interface ParserOptions {
+export interface ParserOptions {
+  /** Worksheet to read (XLSX only); all sheets are scanned when omitted */
   worksheetName?: string;
+  /** 0-indexed header row; detected from the header signature when omitted */
   headerRowNumber?: number;
+  /** How to read DD/MM vs MM/DD dates; detected across the whole file when omitted */
+  dateFormat?: DateFormat;
 }
 
 /**
- * Parse AmEx XLSX statement file
+ * Statement whose data rows are parsed lazily, a chunk at a time
+ */
+export interface StatementStream {
+  worksheetName?: string;
+  /** 0-indexed (unset for formats without a header row) */
+  headerRowNumber?: number;
+  /** Data rows below the header (blank and invalid rows included), for progress reporting */
+  totalRows: number;
+  /** Format slash dates are read with (given or detected); unset if neither decided it */
+  dateFormat?: DateFormat;
+  /** Totals stated outside the transaction rows (AmEx XLSX only); unset if none were found */
+  summary?: StatementSummary;
+  /** Parse the data rows, yielding after every chunkSize rows (one chunk when omitted) */
+  chunks: (chunkSize?: number) => Generator<StatementChunk>;
+}
+
+/**
+ * File extensions accepted by parseAmExStatement
+ */
+export const SUPPORTED_EXTENSIONS = ['.xlsx', '.csv'];
+
+/**
+ * Date formats accepted by ParserOptions.dateFormat and mapping profiles
+ */
+export const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD MMM YYYY'];
+
+/**
+ * Largest XLSX workbook read, by the uncompressed size of its contents (50 MB)
+ * SheetJS has no streaming reader and holds the whole workbook in memory, so larger exports must be CSV.
+ */
+export const MAX_WORKBOOK_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Worksheet AmEx puts transactions on, scanned before any other sheet
+ */
+const DEFAULT_WORKSHEET = 'Transaction Details';
+
+/**
+ * Normalized header names that identify the transaction header row
+ */
+const HEADER_SIGNATURE = ['date', 'description', 'amount'];
+
+/**
+ * Prefix marking references generated for rows without a Reference column/value
+ */
+export const SYNTHETIC_REFERENCE_PREFIX = 'FP';
+
+/**
+ * Number of leading rows searched for the header signature
+ */
+const MAX_HEADER_SCAN_ROWS = 50;
+
+/**
+ * Bytes read from a CSV file at a time
+ */
+const READ_BLOCK_BYTES = 64 * 1024;
+
+/**
+ * Worksheet rows converted to arrays at a time
+ */
+const SHEET_CHUNK_ROWS = 1000;
+
+/**
+ * Re-iterable source of spreadsheet rows; each call starts again from the first row
+ */
+type RowSource = () => Iterable<Array<unknown>>;
+
+/**
+ * Slash date order of AmEx statement downloads, used when the file gives no DD/MM vs MM/DD evidence
+ * (the AmEx layout requires a Date Processed column, which only the day-first Australian export has)
+ */
+const AMEX_DATE_FORMAT: DateFormat = 'DD/MM/YYYY';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Accepted date string shapes: 04/10/2025, 2025-10-04 (optionally with a time), 4 Oct 2025
+ */
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const NAMED_MONTH_DATE = /^(\d{1,2})[\s-]+([A-Za-z]{3,9})\.?,?[\s-]+(\d{4})$/;
+
+/**
+ * Normalized summary labels: a row's first text cell, followed by its value
+ */
+const STATEMENT_BALANCE_LABEL = /^((statement|closing|new) )?balance$/;
+const TOTAL_LABEL = /^total( of)?( new)?( charges| transactions| spend| amount)?$/;
+const CARD_MEMBER_TOTAL_LABEL = /^total (for|of) .+$/;
+
+/**
+ * Normalized headers of a per-card member totals table
+ */
+const SUMMARY_CARD_MEMBER_HEADER = /^card ?member$/;
+const SUMMARY_ACCOUNT_HEADER = /^account( #| number| no)?$/;
+const SUMMARY_TOTAL_HEADER = /^(total|amount|total (charges|spend|amount))$/;
+
+/**
+ * Per-file state shared by every row
+ */
+interface RowContext {
+  profile?: MappingProfileInput;
+  /** DD/MM/YYYY or MM/DD/YYYY resolves slash dates; anything else leaves them to per-row evidence */
+  dateFormat?: DateFormat;
+  /** Order for slash dates nothing else decides (with a warning); when unset they are row errors */
+  fallbackDateFormat?: DateFormat;
+  warnings: Array<{ row: number; message: string }>;
+  /** Rows seen so far per fingerprint, so identical same-day rows get distinct references */
+  fingerprintCounts: Map<string, number>;
+  /** Whether a synthetic reference is already used by another row of the same file, e.g. one imported earlier */
+  isReferenceTaken?: (reference: string) => boolean;
+}
+
+/**
+ * Normalized header name parseTransactionRow reads for each mapped field
+ * (spreadsheets don't state a currency, so amounts are in the statement currency)
+ */
+const FIELD_HEADER_KEYS: Record<StatementField, string> = {
+  date: 'date',
+  dateProcessed: 'dateProcessed',
+  description: 'description',
+  cardMember: 'cardMember',
+  accountNumber: 'accountNumber',
+  amount: 'amount',
+  foreignSpendAmount: 'foreignSpendAmount',
+  commission: 'commission',
+  exchangeRate: 'exchangeRate',
+  additionalInformation: 'additionalInformation',
+  appearsOnStatement: 'appearsOnYourStatementAs',
+  address: 'address',
+  townCity: 'townCity',
+  postcode: 'postcode',
+  country: 'country',
+  reference: 'reference',
+  status: 'status',
+};
+
+/**
+ * Parse AmEx statement file (XLSX or CSV export, chosen by extension)
  * Dynamically detects header row and extracts transactions
  */
 export function parseAmExStatement(
   filePath: string,
   options: ParserOptions = {},
-): { transactions: AmExTransaction[]; errors: Array<{ row: number; error: string }> } {
-  const worksheetName = options.worksheetName || 'Transaction Details';
-  const headerRowNumber = options.headerRowNumber || 6; // 0-indexed, so row 7 = index 6
+): StatementParseResult {
+  // Validate file exists and is a supported format
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error('File must be in XLSX or CSV format');
+  }
+
+  return extension === '.csv' ? parseAmExCsv(filePath, options) : parseAmExWorkbook(filePath, options);
+}
+
+/**
+ * Parse AmEx XLSX statement workbook
+ * Scans worksheets ("Transaction Details" first) for the transaction header row
+ */
+export function parseAmExWorkbook(filePath: string, options: ParserOptions = {}): StatementParseResult {
+  return collectStatement(streamAmExWorkbook(filePath, options));
+}
+
+/**
+ * Parse AmEx CSV statement download
+ * Header is usually the first line, but banner lines above it are skipped
+ */
+export function parseAmExCsv(filePath: string, options: ParserOptions = {}): StatementParseResult {
+  return collectStatement(streamAmExCsv(filePath, options));
+}
+
+/**
+ * Parse any bank spreadsheet (XLSX or CSV) using a column mapping profile
+ */
+export function parseMappedStatement(
+  filePath: string,
+  profile: MappingProfileInput,
+  options: ParserOptions = {},
+): StatementParseResult {
+  return collectStatement(streamMappedStatement(filePath, profile, options));
+}
+
+/**
+ * Open an AmEx XLSX workbook for chunked parsing (see parseAmExWorkbook)
+ */
+export function streamAmExWorkbook(filePath: string, options: ParserOptions = {}): StatementStream {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const sheets = readSheets(filePath, options.worksheetName);
+
+  for (const { worksheetName, rows } of sheets) {
+    // Both overrides given: trust them without checking the signature
+    const headerRowNumber =
+      options.worksheetName && options.headerRowNumber !== undefined
+        ? options.headerRowNumber
+        : findHeaderRow(rows, options.headerRowNumber);
+
+    if (headerRowNumber !== undefined) {
+      return {
+        ...createStatementStream(rows, headerRowNumber, options.dateFormat, undefined, worksheetName),
+        summary: readStatementSummary(sheets, worksheetName, headerRowNumber),
+      };
+    }
+  }
 
-  // Validate file exists and is XLSX
+  throw new Error(
+    `Transaction header row (Date, Description, Amount) not found in worksheet(s): ${sheets
+      .map((sheet) => sheet.worksheetName)
+      .join(', ')}`,
+  );
+}
+
+/**
+ * Open an AmEx CSV download for chunked parsing (see parseAmExCsv)
+ * The file is read incrementally, never held in memory as a whole
+ */
+export function streamAmExCsv(filePath: string, options: ParserOptions = {}): StatementStream {
   if (!fs.existsSync(filePath)) {
     throw new Error(`File not found: ${filePath}`);
   }
 
-  if (!filePath.endsWith('.xlsx')) {
-    throw new Error('File must be in XLSX format');
+  const rows = csvRowSource(filePath);
+  const headerRowNumber = options.headerRowNumber ?? findHeaderRow(rows);
+
+  if (headerRowNumber === undefined) {
+    throw new Error('Transaction header row (Date, Description, Amount) not found in CSV file');
+  }
+
+  return createStatementStream(rows, headerRowNumber, options.dateFormat);
+}
+
+/**
+ * Open a bank spreadsheet for chunked parsing with a column mapping profile (see parseMappedStatement)
+ */
+export function streamMappedStatement(
+  filePath: string,
+  profile: MappingProfileInput,
+  options: ParserOptions = {},
+): StatementStream {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const requiredColumns = [
+    profile.columns.date,
+    profile.columns.description,
+    profile.columns.amount,
+    profile.referenceColumn,
+  ].filter((column): column is string => !!column);
+  const signature = requiredColumns.map(normalizeHeaderName);
+
+  const sheets = readSheets(filePath, options.worksheetName);
+
+  for (const { worksheetName, rows } of sheets) {
+    const headerRowNumber =
+      options.worksheetName && options.headerRowNumber !== undefined
+        ? options.headerRowNumber
+        : findHeaderRow(rows, options.headerRowNumber, signature);
+
+    if (headerRowNumber !== undefined) {
+      return createStatementStream(
+        rows,
+        headerRowNumber,
+        options.dateFormat ?? profile.dateFormat,
+        profile,
+        worksheetName,
+      );
+    }
+  }
+
+  throw new Error(`Columns for profile "${profile.name}" (${requiredColumns.join(', ')}) not found in file`);
+}
+
+/**
+ * Parse every chunk of a stream into a single result
+ */
+export function collectStatement(stream: StatementStream): StatementParseResult {
+  const result: StatementParseResult = {
+    transactions: [],
+    errors: [],
+    warnings: [],
+    worksheetName: stream.worksheetName,
+    headerRowNumber: stream.headerRowNumber,
+    ...(stream.summary && { summary: stream.summary }),
+  };
+
+  for (const chunk of stream.chunks()) {
+    result.transactions.push(...chunk.transactions);
+    result.errors.push(...chunk.errors);
+    result.warnings!.push(...(chunk.warnings || []));
+  }
+
+  return result;
+}
+
+/**
+ * Read candidate sheets from an XLSX workbook ("Transaction Details" first) or a CSV file
+ */
+function readSheets(filePath: string, worksheetName?: string): Array<{ worksheetName?: string; rows: RowSource }> {
+  // XLSX workbooks are ZIP archives, anything else is treated as CSV text
+  if (!isZipFile(filePath)) {
+    return [{ rows: csvRowSource(filePath) }];
   }
 
-  // Read workbook
+  // SheetJS loads the workbook whole, so check its size first rather than run out of memory
+  const workbookSize = getZipUncompressedSize(filePath);
+  if (workbookSize > MAX_WORKBOOK_BYTES) {
+    throw new Error(
+      `Workbook is ${Math.ceil(workbookSize / 1024 / 1024)} MB uncompressed; workbooks over ` +
+        `${MAX_WORKBOOK_BYTES / 1024 / 1024} MB can't be read, export the statement as CSV instead`,
+    );
+  }
   const workbook = XLSX.readFile(filePath);
 
-  // Get the transaction details sheet
-  if (!workbook.SheetNames.includes(worksheetName)) {
+  if (worksheetName && !workbook.SheetNames.includes(worksheetName)) {
     throw new Error(`Worksheet "${worksheetName}" not found. Available: ${workbook.SheetNames.join(', ')}`);
   }
 
-  const worksheet = workbook.Sheets[worksheetName];
-  const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as Array<Array<unknown>>;
+  const sheetNames = worksheetName
+    ? [worksheetName]
+    : [
+        ...workbook.SheetNames.filter((name) => name === DEFAULT_WORKSHEET),
+        ...workbook.SheetNames.filter((name) => name !== DEFAULT_WORKSHEET),
+      ];
+
+  return sheetNames.map((name) => ({ worksheetName: name, rows: sheetRowSource(workbook.Sheets[name]) }));
+}
+
+/**
+ * Read the totals a workbook states outside its transaction rows
+ * Scans the other sheets, and the rows above the header on the transaction sheet, for labelled values
+ * ("Statement Balance", "Total", "Total for JOHN DOE") and per-card member tables (Card Member, Total)
+ */
+function readStatementSummary(
+  sheets: Array<{ worksheetName?: string; rows: RowSource }>,
+  transactionSheet: string | undefined,
+  headerRowNumber: number,
+): StatementSummary | undefined {
+  const summary: StatementSummary = { cardMemberTotals: [] };
+
+  for (const { worksheetName, rows } of sheets) {
+    scanSummaryRows(worksheetName === transactionSheet ? takeRows(rows(), headerRowNumber) : rows(), summary);
+  }
+
+  const found =
+    summary.statementBalance !== undefined || summary.totalAmount !== undefined || summary.cardMemberTotals.length > 0;
+  return found ? summary : undefined;
+}
+
+/**
+ * Collect summary values from worksheet rows into summary
+ */
+function scanSummaryRows(rows: Iterable<Array<unknown>>, summary: StatementSummary): void {
+  // Columns of the per-card member table being read, until a blank or non-matching row ends it
+  let table: { cardMember: number; total: number; account: number } | undefined;
+
+  for (const row of rows) {
+    const cells = row || [];
+    if (cells.every((cell) => cell === undefined || cell === null || String(cell).trim() === '')) {
+      table = undefined;
+      continue;
+    }
+
+    if (table) {
+      const cardMember = String(cells[table.cardMember] ?? '').trim();
+      const total = readSummaryNumber(cells[table.total]);
+
+      if (cardMember && total !== null) {
+        if (/^total\b/i.test(cardMember)) {
+          summary.totalAmount = total;
+        } else {
+          const accountNumber = table.account !== -1 ? formatOptionalField(cells[table.account]) : undefined;
+          addCardMemberTotal(summary, { cardMember, total, ...(accountNumber && { accountNumber }) });
+        }
+        continue;
+      }
+      table = undefined;
+    }
+
+    const labels = cells.map((cell) => (typeof cell === 'string' ? normalizeSummaryLabel(cell) : ''));
+
+    const cardMemberColumn = labels.findIndex((label) => SUMMARY_CARD_MEMBER_HEADER.test(label));
+    const totalColumn = labels.findIndex((label) => SUMMARY_TOTAL_HEADER.test(label));
+    if (cardMemberColumn !== -1 && totalColumn !== -1) {
+      table = {
+        cardMember: cardMemberColumn,
+        total: totalColumn,
+        account: labels.findIndex((label) => SUMMARY_ACCOUNT_HEADER.test(label)),
+      };
+      continue;
+    }
+
+    // A label with its value further along the row
+    const labelColumn = labels.findIndex((label) => label !== '');
+    if (labelColumn === -1) continue;
+    const value = cells
+      .slice(labelColumn + 1)
+      .map(readSummaryNumber)
+      .find((number) => number !== null);
+    if (value === undefined || value === null) continue;
+
+    const label = labels[labelColumn];
+
+    if (STATEMENT_BALANCE_LABEL.test(label)) {
+      summary.statementBalance = value;
+    } else if (TOTAL_LABEL.test(label)) {
+      summary.totalAmount = value;
+    } else if (CARD_MEMBER_TOTAL_LABEL.test(label)) {
+      // Keep the card member's name as written, not lowercased
+      const cardMember = String(cells[labelColumn])
+        .replace(/^\s*total\s+(for|of)\s+/i, '')
+        .replace(/[:*\s]+$/, '');
+      addCardMemberTotal(summary, { cardMember, total: value });
+    }
+  }
+}
+
+/**
+ * Record a card member's total; a total stated again (e.g. on both sheets) replaces the earlier one
+ */
+function addCardMemberTotal(summary: StatementSummary, entry: StatementSummary['cardMemberTotals'][number]): void {
+  const existing = summary.cardMemberTotals.find(
+    (other) => other.cardMember.toUpperCase() === entry.cardMember.toUpperCase(),
+  );
 
-  if (rows.length <= headerRowNumber) {
+  if (existing) {
+    Object.assign(existing, entry);
+  } else {
+    summary.cardMemberTotals.push(entry);
+  }
+}
+
+/**
+ * Lowercase a summary label and drop colons, asterisks and extra spaces
+ */
+function normalizeSummaryLabel(label: string): string {
+  return label.toLowerCase().replace(/[:*]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read a summary amount: a number cell, or text like "1,234.56" or "$-12.00"
+ */
+function readSummaryNumber(cell: unknown): number | null {
+  if (typeof cell === 'number') return cell;
+  if (typeof cell !== 'string') return null;
+
+  const text = cell.replace(/[\s$€£,]/g, '');
+  return /^[-+]?\d+(\.\d+)?$/.test(text) ? parseFloat(text) : null;
+}
+
+/**
+ * Check for the ZIP signature XLSX workbooks start with
+ */
+function isZipFile(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const head = Buffer.alloc(4);
+    return fs.readSync(fd, head, 0, 4, 0) === 4 && head.readUInt32LE(0) === 0x04034b50;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Rows of a CSV file, decoded and tokenized a block at a time
+ */
+function csvRowSource(filePath: string): RowSource {
+  return () => tokenizeCsv(readTextBlocks(filePath));
+}
+
+/**
+ * Rows of a worksheet, converted SHEET_CHUNK_ROWS at a time (same values as a whole-sheet sheet_to_json)
+ */
+function sheetRowSource(sheet: XLSX.WorkSheet): RowSource {
+  return function* () {
+    if (!sheet || !sheet['!ref']) return;
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+
+    for (let start = range.s.r; start <= range.e.r; start += SHEET_CHUNK_ROWS) {
+      const end = Math.min(start + SHEET_CHUNK_ROWS - 1, range.e.r);
+      yield* XLSX.utils.sheet_to_json(sheet, {
+        header: 1,
+        range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+      }) as Array<Array<unknown>>;
+    }
+  };
+}
+
+/**
+ * Read a UTF-8 file as text blocks (multi-byte characters split across reads are kept intact)
+ */
+function* readTextBlocks(filePath: string): Generator<string> {
+  const fd = fs.openSync(filePath, 'r');
+  const decoder = new StringDecoder('utf8');
+  const buffer = Buffer.alloc(READ_BLOCK_BYTES);
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, READ_BLOCK_BYTES, null)) > 0) {
+      yield decoder.write(buffer.subarray(0, bytesRead));
+    }
+    yield decoder.end();
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Check whether the start of a text file looks like an AmEx CSV export
+ */
+export function isAmExCsvHeader(head: string): boolean {
+  return findHeaderRow(() => parseCsv(head)) !== undefined;
+}
+
+/**
+ * Find the 0-indexed row holding the header signature
+ * When a row number is given, only that row is checked
+ */
+function findHeaderRow(
+  rows: RowSource,
+  rowNumber?: number,
+  signature: string[] = HEADER_SIGNATURE,
+): number | undefined {
+  const leadingRows = takeRows(rows(), rowNumber !== undefined ? rowNumber + 1 : MAX_HEADER_SCAN_ROWS);
+  const candidates =
+    rowNumber !== undefined ? [rowNumber] : Array.from({ length: leadingRows.length }, (_, i) => i);
+
+  return candidates.find((i) => {
+    const row = leadingRows[i];
+    if (!row || row.length === 0) return false;
+    const headers = normalizeHeaders(row);
+    return signature.every((field) => headers[field] !== undefined);
+  });
+}
+
+/**
+ * Prepare chunked parsing of the data rows following the header row
+ * A first pass counts the rows and detects the date format; rows are then parsed lazily by chunks()
+ * With a mapping profile, its columns replace the fixed AmEx header names
+ */
+function createStatementStream(
+  rows: RowSource,
+  headerRowNumber: number,
+  dateFormat?: DateFormat,
+  profile?: MappingProfileInput,
+  worksheetName?: string,
+): StatementStream {
+  const headerRow = takeRows(rows(), headerRowNumber + 1)[headerRowNumber];
+  if (!headerRow) {
     throw new Error(`Header row ${headerRowNumber + 1} not found in worksheet`);
   }
 
   // Extract and normalize headers
-  const headerRow = rows[headerRowNumber] as string[];
-  const headers = normalizeHeaders(headerRow);
+  const headers = profile ? mapHeaders(headerRow, profile) : normalizeHeaders(headerRow);
+  const scan = scanDataRows(skipRows(rows(), headerRowNumber + 1), [headers.date, headers.dateProcessed]);
+  if (!dateFormat && scan.dayFirstDates > 0 && scan.dayFirstDates === scan.monthFirstDates) {
+    throw new Error(
+      `File has as many DD/MM/YYYY dates as MM/DD/YYYY dates (${scan.dayFirstDates} each); ` +
+        'set the date format to import it',
+    );
+  }
+  const resolvedDateFormat = dateFormat ?? scan.dateFormat;
 
-  // Parse data rows starting from headerRowNumber + 1
-  const transactions: AmExTransaction[] = [];
-  const errors: Array<{ row: number; error: string }> = [];
+  return {
+    worksheetName,
+    headerRowNumber,
+    totalRows: scan.rowCount,
+    dateFormat: resolvedDateFormat,
+    *chunks(chunkSize = Infinity) {
+      const context: RowContext = {
+        profile,
+        dateFormat: resolvedDateFormat,
+        // Other banks' exports may be either order, so only the AmEx layout has a known one
+        fallbackDateFormat: profile ? undefined : AMEX_DATE_FORMAT,
+        warnings: [],
+        fingerprintCounts: new Map(),
+      };
 
-  for (let i = headerRowNumber + 1; i < rows.length; i++) {
-    const row = rows[i] as Array<unknown>;
+      let chunk: StatementChunk = { transactions: [], errors: [], warnings: [], rowsRead: 0 };
+      let rowsInChunk = 0;
+      let rowNumber = headerRowNumber + 1; // 1-indexed number of the header row
 
-    // Skip empty rows
-    if (!row || row.length === 0 || row.every((cell) => !cell)) {
-      continue;
+      // Parse data rows starting from headerRowNumber + 1
+      for (const row of skipRows(rows(), headerRowNumber + 1)) {
+        rowNumber++;
+        rowsInChunk++;
+
+        // Skip empty rows
+        if (row && row.length > 0 && !row.every((cell) => !cell)) {
+          try {
+            chunk.transactions.push(parseTransactionRow(row, headers, rowNumber, context));
+          } catch (err) {
+            chunk.errors.push({
+              row: rowNumber,
+              error: err instanceof Error ? err.message : String(err),
+              values: readRawValues(row, headers),
+            });
+          }
+        }
+
+        if (rowsInChunk >= chunkSize) {
+          yield { ...chunk, warnings: context.warnings.splice(0), rowsRead: rowNumber - headerRowNumber - 1 };
+          chunk = { transactions: [], errors: [], warnings: [], rowsRead: 0 };
+          rowsInChunk = 0;
+        }
+      }
+
+      if (rowsInChunk > 0) {
+        yield { ...chunk, warnings: context.warnings.splice(0), rowsRead: rowNumber - headerRowNumber - 1 };
+      }
+    },
+  };
+}
+
+/**
+ * Count data rows and detect DD/MM/YYYY vs MM/DD/YYYY from every slash date in the given columns
+ * A day above 12 is evidence for its order, and the order with more evidence wins. Dates that contradict it
+ * then fail to parse as row errors. The format is undefined if no date (or an even split) decides it.
+ */
+function scanDataRows(
+  rows: Iterable<Array<unknown>>,
+  columns: Array<number | undefined>,
+): { rowCount: number; dateFormat?: DateFormat; dayFirstDates: number; monthFirstDates: number } {
+  let rowCount = 0;
+  let dayFirstDates = 0;
+  let monthFirstDates = 0;
+
+  for (const row of rows) {
+    rowCount++;
+    for (const column of columns) {
+      if (column === undefined || !row) continue;
+      const match = SLASH_DATE.exec(String(row[column] ?? '').trim());
+      if (!match) continue;
+      if (parseInt(match[1], 10) > 12) dayFirstDates++;
+      if (parseInt(match[2], 10) > 12) monthFirstDates++;
     }
+  }
 
-    try {
-      const transaction = parseTransactionRow(row, headers, i + 1); // +1 for 1-indexed row numbers
-      transactions.push(transaction);
-    } catch (err) {
-      errors.push({
-        row: i + 1,
-        error: err instanceof Error ? err.message : String(err),
-      });
+  const counts = { rowCount, dayFirstDates, monthFirstDates };
+  if (dayFirstDates === monthFirstDates) return counts;
+  return { ...counts, dateFormat: dayFirstDates > monthFirstDates ? 'DD/MM/YYYY' : 'MM/DD/YYYY' };
+}
+
+/**
+ * First count rows of an iterable (stops reading once they are collected)
+ */
+function takeRows(rows: Iterable<Array<unknown>>, count: number): Array<Array<unknown>> {
+  const taken: Array<Array<unknown>> = [];
+  if (count <= 0) return taken;
+
+  for (const row of rows) {
+    taken.push(row);
+    if (taken.length >= count) break;
+  }
+
+  return taken;
+}
+
+/**
+ * Rows of an iterable after the first count
+ */
+function* skipRows(rows: Iterable<Array<unknown>>, count: number): Generator<Array<unknown>> {
+  let index = 0;
+  for (const row of rows) {
+    if (index++ >= count) yield row;
+  }
+}
+
+/**
+ * Split CSV content into rows of cells (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ */
+function parseCsv(content: string): string[][] {
+  return Array.from(tokenizeCsv([content]));
+}
+
+/**
+ * Tokenize CSV text arriving in blocks into rows of cells
+ * Quotes and line breaks split across blocks are handled by carrying state between them
+ */
+function* tokenizeCsv(blocks: Iterable<string>): Generator<string[]> {
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let quotePending = false; // quote inside a quoted cell: escaped ("") or closing, decided by the next char
+  let skipLineFeed = false; // \r just ended a row, so a following \n is part of the same line break
+  let firstBlock = true;
+
+  for (const block of blocks) {
+    // Strip UTF-8 byte order mark added by Excel
+    const text = firstBlock && block.charCodeAt(0) === 0xfeff ? block.slice(1) : block;
+    if (text.length > 0) firstBlock = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          cell += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        skipLineFeed = char === '\r';
+        row.push(cell);
+        yield row;
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
     }
   }
 
-  return { transactions, errors };
+  // Flush last row if file doesn't end with a newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    yield row;
+  }
 }
 
 /**
  * Normalize header names from XLSX to camelCase
  */
-function normalizeHeaders(headerRow: string[]): Record<string, number> {
+function normalizeHeaders(headerRow: Array<unknown>): Record<string, number> {
   const headerMap: Record<string, number> = {};
 
   headerRow.forEach((header, index) => {
     if (!header) return;
-
-    // Convert header to camelCase
-    // "Date Processed" -> "dateProcessed"
-    // "Foreign Spend Amount" -> "foreignSpendAmount"
-    const normalized = header
-      .trim()
-      .split(/[\s\/\-]+/) // Split on spaces, slashes, or hyphens
-      .map((word, idx) => {
-        if (idx === 0) return word.toLowerCase();
-        return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
-      })
-      .join('')
-      .replace(/[^a-zA-Z0-9]/g, ''); // Remove any remaining non-alphanumeric
-
-    headerMap[normalized] = index;
+    headerMap[normalizeHeaderName(String(header))] = index;
   });
 
   return headerMap;
 }
 
+/**
+ * Convert a header to camelCase
+ * "Date Processed" -> "dateProcessed"
+ * "Foreign Spend Amount" -> "foreignSpendAmount"
+ */
+function normalizeHeaderName(header: string): string {
+  return header
+    .trim()
+    .split(/[\s\/\-]+/) // Split on spaces, slashes, or hyphens
+    .map((word, idx) => {
+      if (idx === 0) return word.toLowerCase();
+      return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+    })
+    .join('')
+    .replace(/[^a-zA-Z0-9]/g, ''); // Remove any remaining non-alphanumeric
+}
+
+/**
+ * Build the header map parseTransactionRow expects from a mapping profile's columns
+ */
+function mapHeaders(headerRow: Array<unknown>, profile: MappingProfileInput): Record<string, number> {
+  const sheetHeaders = normalizeHeaders(headerRow);
+  const headers: Record<string, number> = {};
+
+  const columns: Array<[StatementField, string | undefined]> = [
+    ...(Object.entries(profile.columns) as Array<[StatementField, string | undefined]>),
+    ['reference', profile.referenceColumn],
+  ];
+
+  for (const [field, column] of columns) {
+    const index = column ? sheetHeaders[normalizeHeaderName(column)] : undefined;
+    if (index !== undefined) {
+      headers[FIELD_HEADER_KEYS[field]] = index;
+    }
+  }
+
+  // Most bank exports have a single date; use it as the processed date too
+  if (headers.dateProcessed === undefined && headers.date !== undefined) {
+    headers.dateProcessed = headers.date;
+  }
+
+  return headers;
+}
+
 /**
  * Parse a single transaction row into AmExTransaction object
  */
-function parseTransactionRow(row: Array<unknown>, headers: Record<string, number>, rowNumber: number): AmExTransaction {
+function parseTransactionRow(
+  row: Array<unknown>,
+  headers: Record<string, number>,
+  rowNumber: number,
+  context: RowContext,
+): AmExTransaction {
+  const { profile } = context;
   const getField = (fieldNames: string | string[]): unknown => {
     const names = Array.isArray(fieldNames) ? fieldNames : [fieldNames];
     for (const name of names) {
@@ -118,8 +850,8 @@ function parseTransactionRow(row: Array<unknown>, headers: Record<string, number
   const date = getField('date');
   const dateProcessed = getField('dateProcessed');
   const description = getField('description');
-  const cardMember = getField('cardMember');
-  const accountNumber = getField(['accountNumber', 'account']);
+  const cardMember = getField('cardMember') || profile?.defaults?.cardMember;
+  const accountNumber = getField(['accountNumber', 'account']) || profile?.defaults?.accountNumber;
   const amount = getField('amount');
   const reference = getField('reference');
 
@@ -132,7 +864,6 @@ function parseTransactionRow(row: Array<unknown>, headers: Record<string, number
   if (amount === undefined || amount === null || amount === '') {
     throw new Error(`Row ${rowNumber}: Missing required field "Amount"`);
   }
-  if (!reference || reference === '') throw new Error(`Row ${rowNumber}: Missing required field "Reference"`);
 
   // Parse amount as number
   let parsedAmount: number;
@@ -147,9 +878,16 @@ function parseTransactionRow(row: Array<unknown>, headers: Record<string, number
     throw new Error(`Row ${rowNumber}: Invalid amount type`);
   }
 
+  // Store charges as positive amounts, like AmEx statements
+  if (profile?.signConvention === 'charges-negative' && parsedAmount !== 0) {
+    parsedAmount = -parsedAmount;
+  }
+
   // Normalize date formats (handle both string and Excel date number)
-  const normalizedDate = normalizeDate(date, rowNumber);
-  const normalizedProcessedDate = normalizeDate(dateProcessed, rowNumber);
+  const normalizedDate = normalizeDate(date, rowNumber, context);
+  const normalizedProcessedDate = normalizeDate(dateProcessed, rowNumber, context);
+
+  const normalizedReference = formatOptionalField(reference);
 
   return {
     date: normalizedDate,
@@ -166,15 +904,116 @@ function parseTransactionRow(row: Array<unknown>, headers: Record<string, number
     address: formatOptionalField(getField('address')),
     townCity: formatOptionalField(getField('townCity')),
     postcode: formatOptionalField(getField('postcode')),
-    country: String(getField('country') || '').trim(),
-    reference: String(reference).trim(),
+    country: String(getField('country') || profile?.defaults?.country || '').trim(),
+    reference:
+      normalizedReference ??
+      buildSyntheticReference(
+        [normalizedDate, parsedAmount.toFixed(2), String(description), String(cardMember)],
+        context.fingerprintCounts,
+        context.isReferenceTaken,
+      ),
+    status: isPendingStatus(getField('status')) ? 'pending' : 'posted',
+    rowNumber,
   };
 }
 
 /**
- * Normalize date to ISO string (DD/MM/YYYY or Excel date number)
+ * Parse a row from its raw values (as kept for a rejected row), e.g. after they were corrected
+ * The profile and date format should be the ones the file was read with. Throws like a rejected row.
+ * Without the rest of the file, a row without a reference can't tell which of several identical rows it was;
+ * isReferenceTaken should report the references of the file's rows already imported, so it gets one of its own.
+ */
+export function parseRawTransaction(
+  values: RawTransactionValues,
+  rowNumber: number,
+  options: {
+    profile?: MappingProfileInput;
+    dateFormat?: DateFormat;
+    isReferenceTaken?: (reference: string) => boolean;
+  } = {},
+): AmExTransaction {
+  const fields = Object.keys(FIELD_HEADER_KEYS) as StatementField[];
+  const headers = Object.fromEntries(fields.map((field, index) => [FIELD_HEADER_KEYS[field], index]));
+
+  return parseTransactionRow(
+    fields.map((field) => values[field]),
+    headers,
+    rowNumber,
+    {
+      profile: options.profile,
+      dateFormat: options.dateFormat,
+      fallbackDateFormat: options.profile ? undefined : AMEX_DATE_FORMAT,
+      warnings: [],
+      fingerprintCounts: new Map(),
+      isReferenceTaken: options.isReferenceTaken,
+    },
+  );
+}
+
+/**
+ * Cells of a row keyed by the field their column maps to, kept with a parse error for correction
+ * Excel date serials are written out as ISO dates so the values read back as text
  */
-function normalizeDate(dateValue: unknown, rowNumber: number): string {
+function readRawValues(row: Array<unknown>, headers: Record<string, number>): RawTransactionValues {
+  const values: RawTransactionValues = {};
+
+  for (const [field, key] of Object.entries(FIELD_HEADER_KEYS) as Array<[StatementField, string]>) {
+    const index = headers[key] ?? (field === 'accountNumber' ? headers.account : undefined);
+    const cell = index !== undefined ? row[index] : undefined;
+
+    if (cell === undefined || cell === null || cell === '') continue;
+
+    values[field] =
+      typeof cell === 'number' && (field === 'date' || field === 'dateProcessed')
+        ? excelDateToDate(cell).toISOString().split('T')[0]
+        : String(cell);
+  }
+
+  return values;
+}
+
+/**
+ * Whether a Status column value marks a pending (not yet posted) charge, e.g. "Pending" or "PENDING AUTH"
+ */
+function isPendingStatus(value: unknown): boolean {
+  return typeof value === 'string' && /\bpending\b/i.test(value);
+}
+
+/**
+ * Build a deterministic reference for a row without one
+ * Hashes date, amount, description and card member plus the row's occurrence among
+ * identical rows, so re-importing the same file yields the same references
+ * Occurrences whose reference isTaken reports as used are skipped.
+ */
+function buildSyntheticReference(
+  fields: string[],
+  fingerprintCounts: Map<string, number>,
+  isTaken?: (reference: string) => boolean,
+): string {
+  const fingerprint = fields.map((field) => field.trim().replace(/\s+/g, ' ').toUpperCase()).join('|');
+  let occurrence = fingerprintCounts.get(fingerprint) ?? 0;
+  let reference = hashFingerprint(fingerprint, occurrence);
+  while (isTaken?.(reference)) {
+    reference = hashFingerprint(fingerprint, ++occurrence);
+  }
+  fingerprintCounts.set(fingerprint, occurrence + 1);
+  return reference;
+}
+
+/**
+ * Synthetic reference for the nth occurrence of a row fingerprint
+ */
+function hashFingerprint(fingerprint: string, occurrence: number): string {
+  const hash = crypto.createHash('sha256').update(`${fingerprint}|${occurrence}`).digest('hex');
+  return `${SYNTHETIC_REFERENCE_PREFIX}${hash.slice(0, 24).toUpperCase()}`;
+}
+
+/**
+ * Normalize date to ISO string (YYYY-MM-DD), from a date string or Excel date number
+ * Ambiguous slash dates are read in the context's fallback order and reported as warnings; without one
+ * (mapping profile imports) they are row errors rather than guesses
+ */
+function normalizeDate(dateValue: unknown, rowNumber: number, context: RowContext): string {
   if (!dateValue) {
     throw new Error(`Row ${rowNumber}: Invalid date value`);
   }
@@ -185,12 +1024,33 @@ function normalizeDate(dateValue: unknown, rowNumber: number): string {
     // Excel date number (days since 1900-01-01)
     date = excelDateToDate(dateValue);
   } else if (typeof dateValue === 'string') {
-    // Parse DD/MM/YYYY or other common formats
-    const parsed = parseDateString(dateValue);
+    let parsed = parseDateString(dateValue, context.dateFormat);
+    if (parsed?.ambiguous) {
+      if (!context.fallbackDateFormat) {
+        throw new Error(
+          `Row ${rowNumber}: Ambiguous date "${dateValue.trim()}" could be DD/MM/YYYY or MM/DD/YYYY; ` +
+            'set the date format to import it',
+        );
+      }
+      context.warnings.push({
+        row: rowNumber,
+        message:
+          `Row ${rowNumber}: Ambiguous date "${dateValue.trim()}" read as ${context.fallbackDateFormat}; ` +
+          'set the date format to confirm',
+      });
+      parsed = parseDateString(dateValue, context.fallbackDateFormat);
+    }
     if (!parsed) {
+      const otherOrder = context.dateFormat === 'DD/MM/YYYY' ? 'MM/DD/YYYY' : 'DD/MM/YYYY';
+      if (SLASH_DATE.test(dateValue.trim()) && context.dateFormat && parseDateString(dateValue, otherOrder)) {
+        throw new Error(
+          `Row ${rowNumber}: Date "${dateValue.trim()}" is ${otherOrder}, ` +
+            `but the file's dates are ${context.dateFormat}`,
+        );
+      }
       throw new Error(`Row ${rowNumber}: Unable to parse date "${dateValue}"`);
     }
-    date = parsed;
+    date = parsed.date;
   } else {
     throw new Error(`Row ${rowNumber}: Invalid date type`);
   }
@@ -199,44 +1059,71 @@ function normalizeDate(dateValue: unknown, rowNumber: number): string {
 }
 
 /**
- * Convert Excel date number to JavaScript Date
+ * Convert Excel date number to JavaScript Date (UTC midnight, time of day dropped)
  */
 function excelDateToDate(excelDate: number): Date {
-  // Excel date is days since January 1, 1900
-  // Need to account for the leap year bug in Excel
-  const epochStart = new Date(1900, 0, 1);
-  const daysOffset = excelDate - 2; // Adjust for Excel's leap year bug
-  const date = new Date(epochStart.getTime() + daysOffset * 24 * 60 * 60 * 1000);
-  return date;
+  // Serial 1 is 1900-01-01, but Excel counts a non-existent 1900-02-29,
+  // so day 0 is effectively 1899-12-30 for every date after February 1900
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(excelDate) * 24 * 60 * 60 * 1000);
 }
 
 /**
- * Parse date string in various formats
+ * Parse date string as DD/MM/YYYY, MM/DD/YYYY, ISO (YYYY-MM-DD) or "12 Jan 2024"
+ * Slash dates follow dateFormat; without one, a day above 12 decides the order and
+ * anything else is flagged ambiguous (read day first). All dates are UTC midnight.
  */
-function parseDateString(dateStr: string): Date | null {
-  // Try DD/MM/YYYY format (AmEx format)
-  const ddmmyyyy = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(dateStr);
-  if (ddmmyyyy) {
-    const [, day, month, year] = ddmmyyyy;
-    return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+function parseDateString(dateStr: string, dateFormat?: DateFormat): { date: Date; ambiguous: boolean } | null {
+  const value = dateStr.trim();
+
+  const slashDate = SLASH_DATE.exec(value);
+  if (slashDate) {
+    const [first, second, year] = slashDate.slice(1).map((part) => parseInt(part, 10));
+    let order: DateFormat | undefined =
+      dateFormat === 'DD/MM/YYYY' || dateFormat === 'MM/DD/YYYY' ? dateFormat : undefined;
+    let ambiguous = false;
+
+    if (!order) {
+      if (first > 12) order = 'DD/MM/YYYY';
+      else if (second > 12) order = 'MM/DD/YYYY';
+      else {
+        order = 'DD/MM/YYYY';
+        ambiguous = first !== second; // 05/05/2025 reads the same either way
+      }
+    }
+
+    const [day, month] = order === 'MM/DD/YYYY' ? [second, first] : [first, second];
+    const date = utcDate(year, month, day);
+    return date ? { date, ambiguous } : null;
   }
 
-  // Try YYYY-MM-DD format
-  const yyyymmdd = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateStr);
-  if (yyyymmdd) {
-    const [, year, month, day] = yyyymmdd;
-    return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+  const isoDate = ISO_DATE.exec(value);
+  if (isoDate) {
+    const [year, month, day] = isoDate.slice(1).map((part) => parseInt(part, 10));
+    const date = utcDate(year, month, day);
+    return date ? { date, ambiguous: false } : null;
   }
 
-  // Try JavaScript Date parsing as fallback
-  const parsed = new Date(dateStr);
-  if (!isNaN(parsed.getTime())) {
-    return parsed;
+  const namedMonthDate = NAMED_MONTH_DATE.exec(value);
+  if (namedMonthDate) {
+    const month = MONTH_NAMES.indexOf(namedMonthDate[2].slice(0, 3).toLowerCase()) + 1;
+    const date = month > 0 ? utcDate(parseInt(namedMonthDate[3], 10), month, parseInt(namedMonthDate[1], 10)) : null;
+    return date ? { date, ambiguous: false } : null;
   }
 
   return null;
 }
 
+/**
+ * Build a UTC date, rejecting out-of-range parts (e.g. 31/02/2025)
+ */
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
 /**
  * Format optional field: trim and return null/undefined for empty values
  */
@@ -1,4 +1,5 @@
 -- AmEx Transaction Database Schema
+-- Baseline applied by migration 1 (src/migrations.ts). Don't edit it: add a migration for schema changes.
 
 CREATE TABLE IF NOT EXISTS transactions (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -22,7 +23,10 @@ CREATE TABLE IF NOT EXISTS transactions (
   updated_at TEXT NOT NULL,
   reconciled BOOLEAN DEFAULT 0,
   ynab_transaction_id TEXT,
-  reconciled_at TEXT
+  reconciled_at TEXT,
+  import_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'posted',
+  pending_reference TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_transactions_reference ON transactions(reference);
@@ -30,6 +34,23 @@ CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
 CREATE INDEX IF NOT EXISTS idx_transactions_card_member ON transactions(card_member);
 CREATE INDEX IF NOT EXISTS idx_transactions_reconciled ON transactions(reconciled);
 CREATE INDEX IF NOT EXISTS idx_transactions_ynab_id ON transactions(ynab_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_import ON transactions(import_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status);
+CREATE INDEX IF NOT EXISTS idx_transactions_pending_reference ON transactions(pending_reference);
+
+CREATE TABLE IF NOT EXISTS transaction_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  transaction_id INTEGER NOT NULL,
+  reference TEXT NOT NULL,
+  import_id INTEGER,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  changed_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_changes_transaction ON transaction_changes(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_changes_reference ON transaction_changes(reference);
 
 CREATE TABLE IF NOT EXISTS import_logs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -40,10 +61,86 @@ CREATE TABLE IF NOT EXISTS import_logs (
   skipped_records INTEGER NOT NULL,
   error_count INTEGER NOT NULL,
   errors TEXT,
-  import_timestamp TEXT NOT NULL
+  import_timestamp TEXT NOT NULL,
+  parser TEXT,
+  batch_id TEXT,
+  rolled_back_at TEXT,
+  rolled_back_records INTEGER,
+  file_hash TEXT,
+  ruleset_version TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_import_logs_timestamp ON import_logs(import_timestamp);
+CREATE INDEX IF NOT EXISTS idx_import_logs_batch ON import_logs(batch_id);
+CREATE INDEX IF NOT EXISTS idx_import_logs_file_hash ON import_logs(file_hash);
+
+CREATE TABLE IF NOT EXISTS mapping_profiles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT UNIQUE NOT NULL,
+  column_map TEXT NOT NULL,
+  reference_column TEXT,
+  date_format TEXT NOT NULL DEFAULT 'DD/MM/YYYY',
+  sign_convention TEXT NOT NULL DEFAULT 'charges-positive',
+  defaults TEXT,
+  rule_settings TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS staged_imports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  file_name TEXT NOT NULL,
+  file_size INTEGER,
+  file_hash TEXT,
+  profile_id INTEGER,
+  parser TEXT NOT NULL,
+  worksheet TEXT,
+  header_row INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending',
+  parse_errors TEXT,
+  warnings TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_staged_imports_status ON staged_imports(status);
+
+CREATE TABLE IF NOT EXISTS staged_rows (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  staged_import_id INTEGER NOT NULL REFERENCES staged_imports(id),
+  row_number INTEGER NOT NULL,
+  reference TEXT NOT NULL,
+  data TEXT NOT NULL,
+  errors TEXT,
+  duplicate BOOLEAN DEFAULT 0,
+  dropped BOOLEAN DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_staged_rows_import ON staged_rows(staged_import_id, row_number);
+CREATE INDEX IF NOT EXISTS idx_staged_rows_reference ON staged_rows(reference);
+
+CREATE TABLE IF NOT EXISTS failed_rows (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  import_id INTEGER NOT NULL REFERENCES import_logs(id),
+  row_number INTEGER NOT NULL,
+  stage TEXT NOT NULL,
+  data TEXT NOT NULL,
+  errors TEXT NOT NULL,
+  profile_id INTEGER,
+  date_format TEXT,
+  resolved_reference TEXT,
+  resolved_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_rows_import ON failed_rows(import_id, row_number);
+
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
 
 CREATE TABLE IF NOT EXISTS reconciliation_logs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -0,0 +1,33 @@
+/**
+ * Quoted phrases (optionally closed, so a trailing `"coles st` still reads as a phrase) and bare words,
+ * each with an optional `*` for a prefix match
+ */
+const SEARCH_TERM = /"([^"]*)"?(\*?)|(\S+)/;
+
+/**
+ * A letter or digit; terms without one tokenize to nothing and are dropped
+ */
+const SEARCHABLE = /[0-9A-Za-z\u00C0-\uFFFF]/;
+
+/**
+ * Build an FTS5 MATCH expression from a search box query
+ * Words and "quoted phrases" must all match; a trailing * matches a prefix (`woolw*`, `"coles st"*`).
+ * Every term is quoted, so FTS5 operators and column filters in the input are searched as text rather
+ * than parsed. Returns null when the query has nothing to search for (no letters or digits).
+ */
+export function toFtsQuery(query: string): string | null {
+  const terms: string[] = [];
+  const pattern = new RegExp(SEARCH_TERM.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, phrase, phrasePrefix, word] = match;
+    const prefix = phrase !== undefined ? phrasePrefix === '*' : word.endsWith('*');
+    const text = phrase !== undefined ? phrase : word.replace(/\*+$/, '').replace(/"/g, '');
+
+    if (!SEARCHABLE.test(text)) continue;
+    terms.push(`"${text.trim()}"${prefix ? '*' : ''}`);
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
@@ -2,11 +2,14 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import bodyParser from 'body-parser';
 import multer from 'multer';
+import * as fs from 'fs';
 import * as path from 'path';
 import { importRoutes } from './routes/import';
 import { transactionRoutes } from './routes/transactions';
 import { historyRoutes } from './routes/history';
 import { reconcileRoutes } from './routes/reconcile';
+import { jobRoutes } from './routes/jobs';
+import { ruleRoutes } from './routes/rules';
 
 /**
  * Error response type
@@ -28,6 +31,11 @@ interface SuccessResponse<T> {
   timestamp: string;
 }
 
+/**
+ * Largest upload accepted when MAX_FILE_SIZE is not set (10 MB)
+ */
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
 /**
  * Create Express app with middleware and routes
  */
@@ -53,6 +61,9 @@ export function createApp(): Express {
 
   // Multer configuration for file uploads
   const uploadDir = path.join(__dirname, '..', '..', 'uploads');
+  if (!fs.existsSync(uploadDir)) {
+    fs.mkdirSync(uploadDir, { recursive: true });
+  }
   const storage = multer.diskStorage({
     destination: (_req: any, _file: any, cb: any) => {
       cb(null, uploadDir);
@@ -63,14 +74,10 @@ export function createApp(): Express {
     },
   });
 
+  // No extension filter: each upload is checked by content once it is written
   const upload = multer({
     storage,
-    fileFilter: (_req: any, file: any, cb: any) => {
-      if (!file.originalname.endsWith('.xlsx')) {
-        return cb(new Error('Only XLSX files are allowed'));
-      }
-      cb(null, true);
-    },
+    limits: { fileSize: parseInt(process.env.MAX_FILE_SIZE || '', 10) || DEFAULT_MAX_FILE_SIZE },
   });
 
   // Routes
@@ -78,6 +85,8 @@ export function createApp(): Express {
   app.use('/api/transactions', transactionRoutes());
   app.use('/api/import-history', historyRoutes());
   app.use('/api/reconcile', reconcileRoutes());
+  app.use('/api/jobs', jobRoutes());
+  app.use('/api/validation-rules', ruleRoutes());
 
   // Health check endpoint
   app.get('/health', (req: Request, res: Response) => {
@@ -119,10 +128,6 @@ export function createApp(): Express {
       } else {
         message = err.message;
       }
-    } else if (err.message && err.message.includes('Only XLSX files')) {
-      statusCode = 400;
-      code = 'INVALID_FILE_FORMAT';
-      message = err.message;
     } else if (err instanceof SyntaxError) {
       statusCode = 400;
       code = 'INVALID_JSON';
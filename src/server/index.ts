@@ -1,5 +1,6 @@
 import { createApp } from './app';
 import { initializeDatabase } from '../db';
+import { InboxWatcher } from '../services/inboxWatcher';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -10,6 +11,8 @@ dotenv.config();
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const DATABASE_PATH = process.env.DATABASE_PATH || 'db/transactions.db';
 const UPLOADS_DIR = path.join(__dirname, '..', '..', 'uploads');
+const INBOX_DIR = process.env.INBOX_DIR || '';
+const INBOX_POLL_INTERVAL = parseInt(process.env.INBOX_POLL_INTERVAL || '5000', 10);
 
 /**
  * Start the server
@@ -28,6 +31,11 @@ export async function startServer(): Promise<void> {
     // Create Express app
     const app = createApp();
 
+    // Optionally import statements dropped into the inbox directory
+    if (INBOX_DIR) {
+      new InboxWatcher(INBOX_DIR, { pollIntervalMs: INBOX_POLL_INTERVAL }).start();
+    }
+
     // Start listening
     app.listen(PORT, () => {
       console.log(`
@@ -38,10 +46,11 @@ export async function startServer(): Promise<void> {
 ✓ Server running on http://localhost:${PORT}
 ✓ Database: ${DATABASE_PATH}
 ✓ Uploads: ${UPLOADS_DIR}
+✓ Inbox: ${INBOX_DIR ? `${path.resolve(INBOX_DIR)} (every ${INBOX_POLL_INTERVAL}ms)` : 'disabled (set INBOX_DIR)'}
 
 Endpoints:
-  POST   /api/import               - Import XLSX statement
-  POST   /api/import/validate      - Validate XLSX file
+  POST   /api/import               - Import statement file
+  POST   /api/import/validate      - Validate statement file
   GET    /api/transactions         - List transactions
   GET    /api/transactions/:ref    - Get by reference
   GET    /api/transactions/id/:id  - Get by ID
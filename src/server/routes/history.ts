@@ -1,15 +1,103 @@
 import { Router, Request, Response } from 'express';
-import { getImportLogs } from '../../db';
+import {
+  getImportLogPage,
+  getImportLogCount,
+  getImportLogById,
+  getImportTransactionCounts,
+  getFailedRows,
+  getFailedRowById,
+} from '../../db';
+import { rollbackImport } from '../../services/importService';
+import { resubmitFailedRows } from '../../services/failedRowService';
+import type { FailedRowSubmission } from '../../services/failedRowService';
 import type { ErrorResponse, SuccessResponse } from '../app';
-import type { ImportLog } from '../../types/index';
+import type {
+  FailedRow,
+  FailedRowResubmitResult,
+  ImportLog,
+  RawTransactionValues,
+  RollbackResult,
+  StatementField,
+} from '../../types/index';
 import { getQueryInt, getQueryString } from '../utils/queryParams';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+/**
+ * Fields a failed row's values may be corrected in
+ */
+const FAILED_ROW_FIELDS: Array<StatementField> = [
+  'date',
+  'dateProcessed',
+  'description',
+  'cardMember',
+  'accountNumber',
+  'amount',
+  'foreignSpendAmount',
+  'commission',
+  'exchangeRate',
+  'additionalInformation',
+  'appearsOnStatement',
+  'address',
+  'townCity',
+  'postcode',
+  'country',
+  'reference',
+  'status',
+];
+
+/**
+ * Read failed row resubmissions from a JSON request body
+ * Values are raw cell text, so every field must be a string (blank clears it)
+ */
+function getFailedRowSubmissions(
+  body: { rows?: unknown } | undefined,
+): { submissions: FailedRowSubmission[] } | { error: string } {
+  const rows = body?.rows;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return { error: 'rows must be a non-empty array of { id, values? }' };
+  }
+
+  const submissions: FailedRowSubmission[] = [];
+
+  for (const row of rows) {
+    if (!row || typeof row !== 'object' || !Number.isInteger(row.id) || row.id <= 0) {
+      return { error: 'Each row needs a positive integer id' };
+    }
+
+    if (row.values === undefined) {
+      submissions.push({ id: row.id });
+      continue;
+    }
+
+    if (!row.values || typeof row.values !== 'object' || Array.isArray(row.values)) {
+      return { error: 'values must be an object of field values' };
+    }
+
+    const values: RawTransactionValues = {};
+    for (const [field, value] of Object.entries(row.values)) {
+      if (!FAILED_ROW_FIELDS.includes(field as StatementField)) {
+        return { error: `Unknown transaction field "${field}"` };
+      }
+      if (typeof value !== 'string') {
+        return { error: `${field} must be a string` };
+      }
+      if (value.trim() !== '') {
+        values[field as StatementField] = value.trim();
+      }
+    }
+    submissions.push({ id: row.id, values });
+  }
+
+  return { submissions };
+}
 
 export function historyRoutes(): Router {
   const router = Router();
 
   /**
    * GET /api/import-history
-   * Get import history with pagination
+   * Get import history a page at a time, newest first
+   * Pass nextCursor from a response as cursor to get the following page (absent on the last page)
    */
   router.get(
     '/',
@@ -20,25 +108,33 @@ export function historyRoutes(): Router {
           logs: ImportLog[];
           total: number;
           limit: number;
-          offset: number;
+          nextCursor?: string;
         }> | ErrorResponse
       >,
     ) => {
       try {
         const limit = getQueryInt(req.query.limit, 50, 1, 500);
-        const offset = getQueryInt(req.query.offset, 0, 0);
 
-        const logs = getImportLogs(limit, offset);
+        const cursor = getQueryString(req.query.cursor);
+        const after = cursor ? decodeCursor(cursor, 'import-history') : undefined;
+        if (after === null) {
+          return res.status(400).json({
+            success: false,
+            error: 'cursor is invalid or was returned for a different query',
+            code: 'VALIDATION_ERROR',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const { logs, nextKey } = getImportLogPage(limit, after);
 
-        // Get total count (would be better to add separate function, for now we estimate)
-        // In a real app, you'd add a getImportLogCount() function to db.ts
         res.status(200).json({
           success: true,
           data: {
             logs,
-            total: logs.length + offset, // Simplified
+            total: getImportLogCount(),
             limit,
-            offset,
+            ...(nextKey && { nextCursor: encodeCursor(nextKey, 'import-history') }),
           },
           timestamp: new Date().toISOString(),
         });
@@ -76,8 +172,7 @@ export function historyRoutes(): Router {
           });
         }
 
-        const logs = getImportLogs(1, 0);
-        const log = logs.find((l) => l.id === numId);
+        const log = getImportLogById(numId);
 
         if (!log) {
           return res.status(404).json({
@@ -104,5 +199,205 @@ export function historyRoutes(): Router {
     },
   );
 
+  /**
+   * POST /api/import-history/:id/rollback
+   * Delete every transaction the import inserted and mark the log as rolled back
+   * Refused with 409 if any of them are reconciled, unless ?force=true (or { "force": true } in the body)
+   */
+  router.post(
+    '/:id/rollback',
+    (req: Request, res: Response<SuccessResponse<RollbackResult> | ErrorResponse>) => {
+      try {
+        const numId = parseInt(getQueryString(req.params.id), 10);
+
+        if (isNaN(numId) || numId <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'ID must be a positive integer',
+            code: 'INVALID_ID',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const log = getImportLogById(numId);
+
+        if (!log) {
+          return res.status(404).json({
+            success: false,
+            error: `Import log with ID ${numId} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (log.rolledBackAt) {
+          return res.status(409).json({
+            success: false,
+            error: `Import ${numId} was already rolled back at ${log.rolledBackAt}`,
+            code: 'ALREADY_ROLLED_BACK',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const force = req.query.force === 'true' || req.body?.force === true;
+        const { reconciled } = getImportTransactionCounts(numId);
+
+        if (reconciled > 0 && !force) {
+          return res.status(409).json({
+            success: false,
+            error: `${reconciled} transaction(s) from this import are reconciled; retry with force=true to delete them`,
+            code: 'RECONCILED_TRANSACTIONS',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.status(200).json({
+          success: true,
+          data: rollbackImport(numId, { force }),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to roll back import',
+          code: 'ROLLBACK_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /api/import-history/:id/failed-rows
+   * Rows the import rejected, with their values and errors (resolved rows keep resolvedReference)
+   */
+  router.get('/:id/failed-rows', (req: Request, res: Response<SuccessResponse<FailedRow[]> | ErrorResponse>) => {
+    try {
+      const numId = parseInt(getQueryString(req.params.id), 10);
+
+      if (isNaN(numId) || numId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'ID must be a positive integer',
+          code: 'INVALID_ID',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!getImportLogById(numId)) {
+        return res.status(404).json({
+          success: false,
+          error: `Import log with ID ${numId} not found`,
+          code: 'NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: getFailedRows(numId),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch failed rows',
+        code: 'FETCH_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  /**
+   * POST /api/import-history/:id/failed-rows/resubmit
+   * Run corrected rejected rows through validation and insert them under the import
+   * Body: { rows: [{ id, values?: { field: raw value } }] } (stored values are used when values is omitted)
+   * Rows that fail again are reported in errors and keep the submitted values
+   */
+  router.post(
+    '/:id/failed-rows/resubmit',
+    (req: Request, res: Response<SuccessResponse<FailedRowResubmitResult> | ErrorResponse>) => {
+      try {
+        const numId = parseInt(getQueryString(req.params.id), 10);
+
+        if (isNaN(numId) || numId <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'ID must be a positive integer',
+            code: 'INVALID_ID',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const log = getImportLogById(numId);
+
+        if (!log) {
+          return res.status(404).json({
+            success: false,
+            error: `Import log with ID ${numId} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (log.rolledBackAt) {
+          return res.status(409).json({
+            success: false,
+            error: `Import ${numId} was rolled back at ${log.rolledBackAt}`,
+            code: 'ALREADY_ROLLED_BACK',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const parsed = getFailedRowSubmissions(req.body);
+        if ('error' in parsed) {
+          return res.status(400).json({
+            success: false,
+            error: parsed.error,
+            code: 'VALIDATION_ERROR',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        for (const submission of parsed.submissions) {
+          const row = getFailedRowById(numId, submission.id);
+
+          if (!row) {
+            return res.status(404).json({
+              success: false,
+              error: `Row ${submission.id} not found in import ${numId}`,
+              code: 'NOT_FOUND',
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          if (row.resolvedAt) {
+            return res.status(409).json({
+              success: false,
+              error: `Row ${row.rowNumber} was already imported as ${row.resolvedReference}`,
+              code: 'ROW_ALREADY_IMPORTED',
+              timestamp: new Date().toISOString(),
+            });
+          }
+        }
+
+        const result = resubmitFailedRows(numId, parsed.submissions);
+
+        res.status(result.success ? 200 : 207).json({
+          success: true,
+          data: result,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to resubmit rows',
+          code: 'RESUBMIT_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
   return router;
 }
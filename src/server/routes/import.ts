@@ -1,24 +1,251 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import type multer from 'multer';
 import * as fs from 'fs';
-import { importAmExStatementSync } from '../../services/importService';
-import { parseAmExStatement } from '../../parser';
-import { validateTransactionBatch } from '../../validator';
+import {
+  importAmExStatement,
+  importAmExStatementSync,
+  importStatementArchive,
+  importStatementArchiveAsync,
+  hashFile,
+  describePreviousImport,
+} from '../../services/importService';
+import { startImportJob } from '../../services/jobService';
+import {
+  stageStatement,
+  getStagedImportDetail,
+  reviseStagedRow,
+  commitStagedImport,
+  discardStagedImport,
+} from '../../services/stagingService';
+import type { StagedRowChanges } from '../../services/stagingService';
+import { readStatementArchive } from '../../archive';
+import { detectParser, parseStatementFile, parseWithProfile } from '../../statementParser';
+import { checkTransactionBatch, validateMappingProfile } from '../../validator';
+import { resolveRuleSettings } from '../../services/ruleService';
+import {
+  getMappingProfiles,
+  getMappingProfileById,
+  insertMappingProfile,
+  updateMappingProfile,
+  deleteMappingProfile,
+  getStagedImports,
+  getStagedImportById,
+  getStagedRowById,
+  findImportLogByFileHash,
+} from '../../db';
 import type { ErrorResponse, SuccessResponse } from '../app';
-import type { ImportResult } from '../../types/index';
+import { DATE_FORMATS } from '../../parser';
+import type { ParserOptions } from '../../parser';
+import type {
+  AmExTransaction,
+  BatchImportResult,
+  DateFormat,
+  ImportJob,
+  ImportResult,
+  ImportSource,
+  ImportWarning,
+  MappingProfile,
+  MappingProfileInput,
+  StagedImport,
+  StagedImportDetail,
+  StagedImportStatus,
+  StagedRow,
+  StatementField,
+} from '../../types/index';
+import { getQueryString } from '../utils/queryParams';
+import type { FormFields } from '../utils/queryParams';
 
-export function importRoutes(upload: any): Router {
+/**
+ * Read optional worksheet/header row/date format overrides from multipart form fields
+ * headerRow is 1-indexed (as shown in the spreadsheet); returns an error if a field is invalid
+ */
+function getParserOverrides(
+  body: FormFields | undefined,
+): { options: ParserOptions } | { error: string; code: string } {
+  const worksheet = getQueryString(body?.worksheet).trim();
+  const headerRow = getQueryString(body?.headerRow).trim();
+  const dateFormat = getQueryString(body?.dateFormat).trim();
+  const options: ParserOptions = {};
+
+  if (worksheet) {
+    options.worksheetName = worksheet;
+  }
+
+  if (headerRow) {
+    if (!/^\d+$/.test(headerRow) || parseInt(headerRow, 10) < 1) {
+      return { error: 'headerRow must be a positive integer', code: 'INVALID_HEADER_ROW' };
+    }
+    options.headerRowNumber = parseInt(headerRow, 10) - 1;
+  }
+
+  if (dateFormat) {
+    if (!DATE_FORMATS.includes(dateFormat as DateFormat)) {
+      return { error: `dateFormat must be one of: ${DATE_FORMATS.join(', ')}`, code: 'INVALID_DATE_FORMAT' };
+    }
+    options.dateFormat = dateFormat as DateFormat;
+  }
+
+  return { options };
+}
+
+/**
+ * Read an optional boolean form field such as force or upsert ("true" turns it on)
+ */
+function getFormFlag(body: FormFields | undefined, name: string): boolean {
+  return getQueryString(body?.[name]).trim() === 'true';
+}
+
+/**
+ * Pick mapping profile fields from a JSON request body
+ */
+function getProfileInput(body: Record<string, unknown> | undefined): Partial<MappingProfileInput> {
+  // Shapes are checked by validateMappingProfile
+  return {
+    name: typeof body?.name === 'string' ? body.name.trim() : undefined,
+    columns: body?.columns as MappingProfileInput['columns'],
+    referenceColumn: typeof body?.referenceColumn === 'string' ? body.referenceColumn.trim() : undefined,
+    dateFormat: body?.dateFormat as MappingProfileInput['dateFormat'],
+    signConvention: body?.signConvention as MappingProfileInput['signConvention'],
+    defaults:
+      body?.defaults && typeof body.defaults === 'object'
+        ? (body.defaults as MappingProfileInput['defaults'])
+        : undefined,
+    ruleSettings: body?.ruleSettings as MappingProfileInput['ruleSettings'],
+  };
+}
+
+/**
+ * Look up the mapping profile named by the optional profileId form field
+ * Returns null if a profileId was given but no such profile exists
+ */
+function getRequestedProfile(body: FormFields | undefined): MappingProfile | undefined | null {
+  const profileId = getQueryString(body?.profileId).trim();
+  if (!profileId) {
+    return undefined;
+  }
+  return getMappingProfileById(parseInt(profileId, 10));
+}
+
+/**
+ * Transaction fields that can be corrected on a staged row
+ */
+const STAGED_ROW_FIELDS: Array<StatementField> = [
+  'date',
+  'dateProcessed',
+  'description',
+  'cardMember',
+  'accountNumber',
+  'amount',
+  'foreignSpendAmount',
+  'commission',
+  'exchangeRate',
+  'additionalInformation',
+  'appearsOnStatement',
+  'address',
+  'townCity',
+  'postcode',
+  'country',
+  'reference',
+];
+
+const STAGED_IMPORT_STATUSES: StagedImportStatus[] = ['pending', 'committed', 'discarded'];
+
+/**
+ * Read staged row corrections from a JSON request body
+ * Amount accepts a number or numeric string; other fields must be strings
+ */
+function getStagedRowChanges(
+  body: Record<string, unknown> | undefined,
+): { changes: StagedRowChanges } | { error: string } {
+  const changes: StagedRowChanges = {};
+
+  if (body?.dropped !== undefined) {
+    if (typeof body.dropped !== 'boolean') {
+      return { error: 'dropped must be a boolean' };
+    }
+    changes.dropped = body.dropped;
+  }
+
+  if (body?.transaction !== undefined) {
+    if (!body.transaction || typeof body.transaction !== 'object' || Array.isArray(body.transaction)) {
+      return { error: 'transaction must be an object of fields to change' };
+    }
+
+    const transaction: Record<string, string | number> = {};
+    for (const [field, value] of Object.entries(body.transaction)) {
+      if (!STAGED_ROW_FIELDS.includes(field as StatementField)) {
+        return { error: `Unknown transaction field "${field}"` };
+      }
+
+      if (field === 'amount') {
+        const amount = typeof value === 'string' ? parseFloat(value.replace(/[$,\s]/g, '')) : value;
+        if (typeof amount !== 'number' || isNaN(amount)) {
+          return { error: 'amount must be a number' };
+        }
+        transaction.amount = amount;
+      } else if (typeof value === 'string') {
+        transaction[field] = value.trim();
+      } else {
+        return { error: `${field} must be a string` };
+      }
+    }
+    changes.transaction = transaction as Partial<AmExTransaction>;
+  }
+
+  if (changes.dropped === undefined && changes.transaction === undefined) {
+    return { error: 'Provide transaction fields to change and/or dropped' };
+  }
+
+  return { changes };
+}
+
+/**
+ * Reject an uploaded file no statement parser recognises, and delete it
+ * multer's fileFilter only sees the file name, so contents are checked once the upload is on disk.
+ * Uploads with a mapping profile are read with the profile rather than a detected parser, so they pass.
+ */
+function rejectUnrecognisedUpload(req: Request, res: Response, next: NextFunction) {
+  if (!req.file || req.body?.profileId || detectParser(req.file.path)) {
+    return next();
+  }
+
+  fs.unlink(req.file.path, (err) => {
+    if (err) console.error('Failed to delete uploaded file:', err);
+  });
+
+  res.status(400).json({
+    success: false,
+    error: 'Unrecognised statement format (expected AmEx XLSX, CSV or OFX/QFX)',
+    code: 'INVALID_FILE_FORMAT',
+    timestamp: new Date().toISOString(),
+  } as ErrorResponse);
+}
+
+export function importRoutes(upload: multer.Multer): Router {
   const router = Router();
 
   /**
    * POST /api/import
-   * Upload and import AmEx XLSX statement
+   * Upload and import statement (AmEx XLSX/CSV or OFX/QFX), or a ZIP archive of statements
+   * A ZIP returns a BatchImportResult: per-file results plus aggregate counts
+   *
+   * Optional form fields:
+   * - worksheet: worksheet name (XLSX only)
+   * - headerRow: 1-indexed header row
+   * - dateFormat: DD/MM/YYYY, MM/DD/YYYY, YYYY-MM-DD or DD MMM YYYY (detected when omitted)
+   * - profileId: column mapping profile for non-AmEx spreadsheets (skips format detection)
+   * - force: "true" to import a file again even though the same file (by SHA-256) was already imported
+   * - upsert: "true" to update existing rows whose fields changed (counted in updatedRecords) instead of skipping them
+   * - async: "true" to import in the background; responds 202 with an ImportJob to follow with
+   *   GET /api/jobs/:id or its SSE stream (a repeat upload then completes with duplicateOfImportId set)
    */
   router.post(
     '/',
     upload.single('file'),
+    rejectUnrecognisedUpload,
     (
       req: Request & { file?: Express.Multer.File },
-      res: Response<SuccessResponse<ImportResult> | ErrorResponse>,
+      res: Response<SuccessResponse<ImportResult | BatchImportResult | ImportJob> | ErrorResponse>,
     ) => {
       if (!req.file) {
         return res.status(400).json({
@@ -29,15 +256,122 @@ export function importRoutes(upload: any): Router {
         });
       }
 
+      const overrides = getParserOverrides(req.body);
+      if ('error' in overrides) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error('Failed to delete uploaded file:', err);
+        });
+
+        return res.status(400).json({
+          success: false,
+          error: overrides.error,
+          code: overrides.code,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      const parserOptions = overrides.options;
+      const force = getFormFlag(req.body, 'force');
+      const upsert = getFormFlag(req.body, 'upsert');
+      const runInBackground = getFormFlag(req.body, 'async');
+
+      const profile = getRequestedProfile(req.body);
+      if (profile === null) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error('Failed to delete uploaded file:', err);
+        });
+
+        return res.status(404).json({
+          success: false,
+          error: `Mapping profile ${getQueryString(req.body?.profileId)} not found`,
+          code: 'PROFILE_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       try {
         const filePath = req.file.path;
-        const result = importAmExStatementSync(filePath);
+
+        // ZIP of statements: import each entry under one batch (repeat entries are skipped per file)
+        const archiveEntries = readStatementArchive(filePath);
+        if (archiveEntries && runInBackground) {
+          // Entries are inflated from the upload as they are imported, so it stays until the job ends
+          const job = startImportJob(req.file.originalname, (onProgress) =>
+            importStatementArchiveAsync(archiveEntries, { parserOptions, profile, force, upsert, onProgress }).finally(
+              () => {
+                fs.unlink(filePath, (err) => {
+                  if (err) console.error('Failed to delete uploaded file:', err);
+                });
+              },
+            ),
+          );
+          return res.status(202).json({
+            success: true,
+            data: job,
+            timestamp: new Date().toISOString(),
+          });
+        }
+        if (archiveEntries) {
+          const batch = importStatementArchive(archiveEntries, { parserOptions, profile, force, upsert });
+
+          fs.unlink(filePath, (err) => {
+            if (err) console.error('Failed to delete uploaded file:', err);
+          });
+
+          return res.status(batch.success ? 200 : 207).json({
+            success: true,
+            data: batch,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        // Pick the parser from file contents, not the extension
+        const parser = profile ? undefined : detectParser(filePath);
+        if (!profile && !parser) {
+          fs.unlink(filePath, (err) => {
+            if (err) console.error('Failed to delete uploaded file:', err);
+          });
+
+          return res.status(400).json({
+            success: false,
+            error: 'Unrecognised statement format (expected AmEx XLSX, CSV or OFX/QFX)',
+            code: 'INVALID_FILE_FORMAT',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const importOptions = { parser: parser?.name, parserOptions, profile, force, upsert };
+
+        if (runInBackground) {
+          const job = startImportJob(req.file.originalname, (onProgress) =>
+            importAmExStatement(filePath, { ...importOptions, onProgress }).finally(() => {
+              fs.unlink(filePath, (err) => {
+                if (err) console.error('Failed to delete uploaded file:', err);
+              });
+            }),
+          );
+          return res.status(202).json({
+            success: true,
+            data: job,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const result = importAmExStatementSync(filePath, importOptions);
 
         // Clean up uploaded file
         fs.unlink(filePath, (err) => {
           if (err) console.error('Failed to delete uploaded file:', err);
         });
 
+        if (result.duplicateOfImportId !== undefined) {
+          return res.status(409).json({
+            success: false,
+            error: `${result.errors[0].error}; set force=true to import it again`,
+            code: 'ALREADY_IMPORTED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         const statusCode = result.success ? 200 : 207; // 207 Partial Success if some errors
         res.status(statusCode).json({
           success: true,
@@ -62,11 +396,13 @@ export function importRoutes(upload: any): Router {
 
   /**
    * POST /api/import/validate
-   * Validate XLSX file without importing
+   * Validate statement file without importing
+   * Accepts the same worksheet/headerRow/dateFormat/profileId fields as POST /api/import
    */
   router.post(
     '/validate',
     upload.single('file'),
+    rejectUnrecognisedUpload,
     (
       req: Request & { file?: Express.Multer.File },
       res: Response<
@@ -75,6 +411,8 @@ export function importRoutes(upload: any): Router {
           validRecords: number;
           invalidRecords: number;
           errors: Array<{ rowNumber: number; errors: string[] }>;
+          warnings: ImportWarning[];
+          source: ImportSource;
         }> | ErrorResponse
       >,
     ) => {
@@ -87,21 +425,65 @@ export function importRoutes(upload: any): Router {
         });
       }
 
+      const overrides = getParserOverrides(req.body);
+      if ('error' in overrides) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error('Failed to delete uploaded file:', err);
+        });
+
+        return res.status(400).json({
+          success: false,
+          error: overrides.error,
+          code: overrides.code,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      const parserOptions = overrides.options;
+
+      const profile = getRequestedProfile(req.body);
+      if (profile === null) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error('Failed to delete uploaded file:', err);
+        });
+
+        return res.status(404).json({
+          success: false,
+          error: `Mapping profile ${getQueryString(req.body?.profileId)} not found`,
+          code: 'PROFILE_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       try {
         const filePath = req.file.path;
-        const { transactions, errors: parseErrors } = parseAmExStatement(filePath);
+        const { parser, transactions, warnings = [], worksheetName, headerRowNumber } = profile
+          ? parseWithProfile(filePath, profile, parserOptions)
+          : parseStatementFile(filePath, undefined, parserOptions);
 
-        // Validate transactions
-        const validationErrors = validateTransactionBatch(transactions);
+        // Validate transactions with the global rule settings and the profile's overrides
+        const { errors: validationErrors, warnings: ruleWarnings } = checkTransactionBatch(
+          transactions,
+          0,
+          resolveRuleSettings(profile),
+        );
 
         const data = {
           totalRecords: transactions.length,
           validRecords: transactions.length - validationErrors.length,
           invalidRecords: validationErrors.length,
           errors: validationErrors.map((err) => ({
-            rowNumber: err.index + 1,
+            rowNumber: transactions[err.index]?.rowNumber ?? err.index + 1,
             errors: err.errors,
           })),
+          warnings: [
+            ...warnings.map((warning) => ({ rowNumber: warning.row, message: warning.message })),
+            ...ruleWarnings,
+          ],
+          source: {
+            parser,
+            worksheet: worksheetName,
+            headerRow: headerRowNumber !== undefined ? headerRowNumber + 1 : undefined,
+          },
         };
 
         // Clean up uploaded file
@@ -130,5 +512,548 @@ export function importRoutes(upload: any): Router {
     },
   );
 
+  /**
+   * POST /api/import/staged
+   * Upload a statement into a pending staged import for review; nothing is written to transactions
+   * Accepts the same worksheet/headerRow/dateFormat/profileId/force fields as POST /api/import
+   */
+  router.post(
+    '/staged',
+    upload.single('file'),
+    rejectUnrecognisedUpload,
+    (
+      req: Request & { file?: Express.Multer.File },
+      res: Response<SuccessResponse<StagedImportDetail> | ErrorResponse>,
+    ) => {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No file uploaded',
+          code: 'NO_FILE_UPLOADED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const filePath = req.file.path;
+      const cleanUp = () =>
+        fs.unlink(filePath, (err) => {
+          if (err) console.error('Failed to delete uploaded file:', err);
+        });
+
+      const overrides = getParserOverrides(req.body);
+      if ('error' in overrides) {
+        cleanUp();
+        return res.status(400).json({
+          success: false,
+          error: overrides.error,
+          code: overrides.code,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const profile = getRequestedProfile(req.body);
+      if (profile === null) {
+        cleanUp();
+        return res.status(404).json({
+          success: false,
+          error: `Mapping profile ${getQueryString(req.body?.profileId)} not found`,
+          code: 'PROFILE_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        if (readStatementArchive(filePath)) {
+          cleanUp();
+          return res.status(400).json({
+            success: false,
+            error: 'ZIP archives cannot be staged; upload the statements individually or import the archive directly',
+            code: 'ARCHIVE_NOT_SUPPORTED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const fileHash = hashFile(filePath);
+        const previous = getFormFlag(req.body, 'force') ? null : findImportLogByFileHash(fileHash);
+        if (previous) {
+          cleanUp();
+          return res.status(409).json({
+            success: false,
+            error: `${describePreviousImport(previous)}; set force=true to stage it again`,
+            code: 'ALREADY_IMPORTED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const parser = profile ? undefined : detectParser(filePath);
+        if (!profile && !parser) {
+          cleanUp();
+          return res.status(400).json({
+            success: false,
+            error: 'Unrecognised statement format (expected AmEx XLSX, CSV or OFX/QFX)',
+            code: 'INVALID_FILE_FORMAT',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const staged = stageStatement(filePath, {
+          parser: parser?.name,
+          parserOptions: overrides.options,
+          profile,
+          fileName: req.file.originalname,
+          fileHash,
+        });
+        cleanUp();
+
+        res.status(201).json({
+          success: true,
+          data: staged,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        cleanUp();
+        res.status(400).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to stage import',
+          code: 'STAGING_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /api/import/staged
+   * List staged imports (row counts only), filtered by ?status= (default pending)
+   */
+  router.get('/staged', (req: Request, res: Response<SuccessResponse<StagedImport[]> | ErrorResponse>) => {
+    const status = getQueryString(req.query.status, 'pending') as StagedImportStatus;
+
+    if (!STAGED_IMPORT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${STAGED_IMPORT_STATUSES.join(', ')}`,
+        code: 'INVALID_STATUS',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    try {
+      res.status(200).json({
+        success: true,
+        data: getStagedImports(status),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch staged imports',
+        code: 'FETCH_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  /**
+   * GET /api/import/staged/:id
+   * Get a staged import with its rows, validation errors and duplicate markers
+   */
+  router.get('/staged/:id', (req: Request, res: Response<SuccessResponse<StagedImportDetail> | ErrorResponse>) => {
+    try {
+      const numId = parseInt(getQueryString(req.params.id), 10);
+
+      if (isNaN(numId) || numId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'ID must be a positive integer',
+          code: 'INVALID_ID',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const staged = getStagedImportDetail(numId);
+
+      if (!staged) {
+        return res.status(404).json({
+          success: false,
+          error: `Staged import ${numId} not found`,
+          code: 'NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: staged,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch staged import',
+        code: 'FETCH_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/import/staged/:id/rows/:rowId
+   * Fix a staged row's fields and/or drop (or restore) it
+   * Body: { transaction?: { field: value }, dropped?: boolean }
+   */
+  router.patch(
+    '/staged/:id/rows/:rowId',
+    (req: Request, res: Response<SuccessResponse<StagedRow> | ErrorResponse>) => {
+      try {
+        const numId = parseInt(getQueryString(req.params.id), 10);
+        const rowId = parseInt(getQueryString(req.params.rowId), 10);
+
+        if (isNaN(numId) || numId <= 0 || isNaN(rowId) || rowId <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'ID must be a positive integer',
+            code: 'INVALID_ID',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const staged = getStagedImportById(numId);
+
+        if (!staged || !getStagedRowById(numId, rowId)) {
+          return res.status(404).json({
+            success: false,
+            error: staged ? `Row ${rowId} not found in staged import ${numId}` : `Staged import ${numId} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (staged.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Staged import ${numId} is already ${staged.status}`,
+            code: 'STAGED_IMPORT_CLOSED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const parsed = getStagedRowChanges(req.body);
+        if ('error' in parsed) {
+          return res.status(400).json({
+            success: false,
+            error: parsed.error,
+            code: 'VALIDATION_ERROR',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.status(200).json({
+          success: true,
+          data: reviseStagedRow(numId, rowId, parsed.changes),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to update staged row',
+          code: 'UPDATE_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
+  /**
+   * POST /api/import/staged/:id/commit
+   * Import the kept rows of a staged import into transactions (logged like a direct import)
+   */
+  router.post(
+    '/staged/:id/commit',
+    (req: Request, res: Response<SuccessResponse<ImportResult> | ErrorResponse>) => {
+      try {
+        const numId = parseInt(getQueryString(req.params.id), 10);
+
+        if (isNaN(numId) || numId <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'ID must be a positive integer',
+            code: 'INVALID_ID',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const staged = getStagedImportById(numId);
+
+        if (!staged) {
+          return res.status(404).json({
+            success: false,
+            error: `Staged import ${numId} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (staged.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Staged import ${numId} is already ${staged.status}`,
+            code: 'STAGED_IMPORT_CLOSED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const result = commitStagedImport(numId);
+
+        res.status(result.success ? 200 : 207).json({
+          success: true,
+          data: result,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to commit staged import',
+          code: 'IMPORT_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
+  /**
+   * DELETE /api/import/staged/:id
+   * Discard a pending staged import and its rows
+   */
+  router.delete(
+    '/staged/:id',
+    (req: Request, res: Response<SuccessResponse<{ discarded: boolean; id: number }> | ErrorResponse>) => {
+      try {
+        const numId = parseInt(getQueryString(req.params.id), 10);
+
+        if (isNaN(numId) || numId <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'ID must be a positive integer',
+            code: 'INVALID_ID',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const staged = getStagedImportById(numId);
+
+        if (!staged) {
+          return res.status(404).json({
+            success: false,
+            error: `Staged import ${numId} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (staged.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Staged import ${numId} is already ${staged.status}`,
+            code: 'STAGED_IMPORT_CLOSED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        discardStagedImport(numId);
+
+        res.status(200).json({
+          success: true,
+          data: {
+            discarded: true,
+            id: numId,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to discard staged import',
+          code: 'DELETE_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /api/import/profiles
+   * List column mapping profiles
+   */
+  router.get('/profiles', (req: Request, res: Response<SuccessResponse<MappingProfile[]> | ErrorResponse>) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: getMappingProfiles(),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch mapping profiles',
+        code: 'FETCH_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  /**
+   * POST /api/import/profiles
+   * Create a column mapping profile
+   */
+  router.post('/profiles', (req: Request, res: Response<SuccessResponse<MappingProfile> | ErrorResponse>) => {
+    try {
+      const input = getProfileInput(req.body);
+      const errors = validateMappingProfile(input);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: errors.join('; '),
+          code: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (getMappingProfiles().some((profile) => profile.name === input.name)) {
+        return res.status(409).json({
+          success: false,
+          error: `Mapping profile "${input.name}" already exists`,
+          code: 'DUPLICATE_PROFILE',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: insertMappingProfile(input as MappingProfileInput),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to create mapping profile',
+        code: 'CREATE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  /**
+   * PUT /api/import/profiles/:id
+   * Replace a column mapping profile
+   */
+  router.put('/profiles/:id', (req: Request, res: Response<SuccessResponse<MappingProfile> | ErrorResponse>) => {
+    try {
+      const numId = parseInt(getQueryString(req.params.id), 10);
+
+      if (isNaN(numId) || numId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'ID must be a positive integer',
+          code: 'INVALID_ID',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const input = getProfileInput(req.body);
+      const errors = validateMappingProfile(input);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: errors.join('; '),
+          code: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (getMappingProfiles().some((profile) => profile.name === input.name && profile.id !== numId)) {
+        return res.status(409).json({
+          success: false,
+          error: `Mapping profile "${input.name}" already exists`,
+          code: 'DUPLICATE_PROFILE',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const profile = updateMappingProfile(numId, input as MappingProfileInput);
+
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          error: `Mapping profile ${numId} not found`,
+          code: 'NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: profile,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to update mapping profile',
+        code: 'UPDATE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/import/profiles/:id
+   * Delete a column mapping profile
+   */
+  router.delete(
+    '/profiles/:id',
+    (req: Request, res: Response<SuccessResponse<{ deleted: boolean; id: number }> | ErrorResponse>) => {
+      try {
+        const numId = parseInt(getQueryString(req.params.id), 10);
+
+        if (isNaN(numId) || numId <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'ID must be a positive integer',
+            code: 'INVALID_ID',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (!deleteMappingProfile(numId)) {
+          return res.status(404).json({
+            success: false,
+            error: `Mapping profile ${numId} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deleted: true,
+            id: numId,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to delete mapping profile',
+          code: 'DELETE_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
   return router;
 }
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { getImportJob, subscribeToImportJob } from '../../services/jobService';
+import type { ErrorResponse, SuccessResponse } from '../app';
+import type { ImportJob } from '../../types/index';
+import { getQueryString } from '../utils/queryParams';
+
+/**
+ * SSE event name for a job update: the stage just finished while running, otherwise the status
+ */
+function getEventName(job: ImportJob): string {
+  return job.status === 'running' && job.progress ? job.progress.stage : job.status;
+}
+
+export function jobRoutes(): Router {
+  const router = Router();
+
+  /**
+   * GET /api/jobs/:id
+   * Status, latest progress and (once completed) result of a background import
+   */
+  router.get('/:id', (req: Request, res: Response<SuccessResponse<ImportJob> | ErrorResponse>) => {
+    const id = getQueryString(req.params.id);
+    const job = getImportJob(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: `Job ${id} not found`,
+        code: 'NOT_FOUND',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * GET /api/jobs/:id/events
+   * Server-Sent Events stream of a background import
+   * Sends the current state first, then one event per update: running, parsed, validated, deduped
+   * and inserted (per chunk), and finally completed or failed, after which the stream closes.
+   * Each event's data is the job as JSON.
+   */
+  router.get('/:id/events', (req: Request, res: Response<ErrorResponse>) => {
+    const id = getQueryString(req.params.id);
+    const job = getImportJob(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: `Job ${id} not found`,
+        code: 'NOT_FOUND',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (update: ImportJob) => {
+      res.write(`event: ${getEventName(update)}\ndata: ${JSON.stringify(update)}\n\n`);
+    };
+
+    send(job);
+    if (job.status === 'completed' || job.status === 'failed') {
+      return res.end();
+    }
+
+    const unsubscribe = subscribeToImportJob(id, (update) => {
+      send(update);
+      if (update.status === 'completed' || update.status === 'failed') {
+        unsubscribe();
+        res.end();
+      }
+    });
+    req.on('close', unsubscribe);
+  });
+
+  return router;
+}
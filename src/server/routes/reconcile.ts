@@ -5,10 +5,12 @@ import { YnabClient } from '../../services/ynabClient';
 import {
   batchMarkReconciled,
   unreconcileTransaction,
-  getReconciliationLogs,
+  getReconciliationLogPage,
+  getReconciliationLogCount,
   insertReconciliationLog,
 } from '../../db';
 import { getQueryInt, getQueryString } from '../utils/queryParams';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
 
 export function reconcileRoutes(): Router {
   const router = Router();
@@ -324,24 +326,39 @@ router.delete('/match/:cardTransactionId', async (req: Request, res: Response) =
 
 /**
  * GET /api/reconcile/history
- * Get reconciliation history logs
+ * Get reconciliation history logs a page at a time, newest first
  *
  * Query params:
  * - budgetId (optional): Filter by budget ID
- * - limit (optional): Number of records (default: 50)
- * - offset (optional): Pagination offset (default: 0)
+ * - limit (optional): Number of records (default: 50, max: 500)
+ * - cursor (optional): nextCursor from the previous page (absent on the last page)
  */
 router.get('/history', async (req: Request, res: Response) => {
   try {
     const budgetId = getQueryString(req.query.budgetId) || undefined;
-    const limit = getQueryInt(req.query.limit, 50, 1);
-    const offset = getQueryInt(req.query.offset, 0, 0);
+    const limit = getQueryInt(req.query.limit, 50, 1, 500);
 
-    const logs = getReconciliationLogs(budgetId, limit, offset);
+    const cursor = getQueryString(req.query.cursor);
+    const after = cursor ? decodeCursor(cursor, { budgetId }) : undefined;
+    if (after === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'cursor is invalid or was returned for a different query',
+        code: 'VALIDATION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const { logs, nextKey } = getReconciliationLogPage(budgetId, limit, after);
 
     return res.json({
       success: true,
-      data: logs,
+      data: {
+        logs,
+        total: getReconciliationLogCount(budgetId),
+        limit,
+        ...(nextKey && { nextCursor: encodeCursor(nextKey, { budgetId }) }),
+      },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
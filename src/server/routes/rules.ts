@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { getValidationRules, getRulesetVersion, validateRuleSettings } from '../../validator';
+import { getGlobalRuleSettings, updateGlobalRuleSettings } from '../../services/ruleService';
+import type { ErrorResponse, SuccessResponse } from '../app';
+import type { RuleSettings, ValidationRuleInfo } from '../../types/index';
+
+interface RulesetResponse {
+  version: string;
+  rules: ValidationRuleInfo[];
+}
+
+/**
+ * Global ruleset: every rule with its effective settings, and the version stamped on import logs
+ */
+function getRuleset(settings: RuleSettings): RulesetResponse {
+  return { version: getRulesetVersion(settings), rules: getValidationRules(settings) };
+}
+
+export function ruleRoutes(): Router {
+  const router = Router();
+
+  /**
+   * GET /api/validation-rules
+   * Validation rules with their global settings (mapping profiles can override them)
+   */
+  router.get('/', (req: Request, res: Response<SuccessResponse<RulesetResponse>>) => {
+    res.status(200).json({
+      success: true,
+      data: getRuleset(getGlobalRuleSettings()),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * PUT /api/validation-rules
+   * Replace the global rule overrides
+   * Body: { rules: { [ruleId]: { enabled?, severity? } } } - rules left out use their defaults
+   */
+  router.put('/', (req: Request, res: Response<SuccessResponse<RulesetResponse> | ErrorResponse>) => {
+    const settings = req.body?.rules;
+    const errors = validateRuleSettings(settings);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: errors.join('; '),
+        code: 'VALIDATION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: getRuleset(updateGlobalRuleSettings(settings)),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  return router;
+}
@@ -1,20 +1,113 @@
 import { Router, Request, Response } from 'express';
 import {
   getTransactions,
+  getTransactionPage,
   getTransactionCount,
   getTransactionByReference,
+  getTransactionChanges,
   deleteTransaction,
 } from '../../db';
+import { toFtsQuery } from '../../search';
 import type { ErrorResponse, SuccessResponse } from '../app';
-import type { AmExTransactionRow } from '../../types/index';
+import type {
+  AmExTransactionRow,
+  TransactionChange,
+  TransactionFilters,
+  TransactionSort,
+  TransactionSortField,
+} from '../../types/index';
 import { getQueryInt, getQueryString } from '../utils/queryParams';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const TRANSACTION_SORT_FIELDS: TransactionSortField[] = [
+  'date',
+  'dateProcessed',
+  'amount',
+  'description',
+  'cardMember',
+  'createdAt',
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read list filters and sort order from query parameters
+ * Blank parameters are ignored; malformed ones are an error rather than silently dropped
+ */
+function getTransactionQuery(
+  query: Request['query'],
+): { filters: TransactionFilters; sort: TransactionSort } | { error: string } {
+  const filters: TransactionFilters = {};
+  const text = (name: string) => getQueryString(query[name]).trim();
+
+  const q = text('q');
+  if (q) {
+    const search = toFtsQuery(q);
+    if (!search) return { error: 'q must contain a word or number to search for' };
+    filters.search = search;
+  }
+
+  for (const name of ['startDate', 'endDate'] as const) {
+    const value = text(name);
+    if (!value) continue;
+    if (!ISO_DATE.test(value)) return { error: `${name} must be a date in YYYY-MM-DD format` };
+    filters[name] = value;
+  }
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    return { error: 'startDate must be before or equal to endDate' };
+  }
+
+  for (const name of ['cardMember', 'accountNumber', 'country'] as const) {
+    const value = text(name);
+    if (value) filters[name] = value;
+  }
+
+  for (const name of ['minAmount', 'maxAmount'] as const) {
+    const value = text(name);
+    if (!value) continue;
+    const amount = Number(value);
+    if (isNaN(amount)) return { error: `${name} must be a number` };
+    filters[name] = amount;
+  }
+  if (filters.minAmount !== undefined && filters.maxAmount !== undefined && filters.minAmount > filters.maxAmount) {
+    return { error: 'minAmount must be less than or equal to maxAmount' };
+  }
+
+  const reconciled = text('reconciled');
+  if (reconciled) {
+    if (reconciled !== 'true' && reconciled !== 'false') return { error: 'reconciled must be true or false' };
+    filters.reconciled = reconciled === 'true';
+  }
+
+  const importId = text('importId');
+  if (importId) {
+    if (!/^\d+$/.test(importId) || Number(importId) <= 0) return { error: 'importId must be a positive integer' };
+    filters.importId = Number(importId);
+  }
+
+  const field = text('sort') || 'date';
+  if (!TRANSACTION_SORT_FIELDS.includes(field as TransactionSortField)) {
+    return { error: `sort must be one of: ${TRANSACTION_SORT_FIELDS.join(', ')}` };
+  }
+  const direction = text('order') || 'desc';
+  if (direction !== 'asc' && direction !== 'desc') return { error: 'order must be asc or desc' };
+
+  return { filters, sort: { field: field as TransactionSortField, direction } };
+}
 
 export function transactionRoutes(): Router {
   const router = Router();
 
   /**
    * GET /api/transactions
-   * List all transactions with pagination
+   * List transactions a page at a time; total counts the filtered set
+   * Pass nextCursor from a response as cursor to get the following page (absent on the last page). Pages
+   * are keyed on the last row seen, so they don't shift while imports add rows. A cursor is only valid
+   * with the filters and sort it was returned for.
+   * q searches description, statement text, additional information and address: words and "quoted phrases"
+   * must all match, and a trailing * matches a prefix (e.g. ?q=woolw* or ?q="coles sydney")
+   * Filters: startDate, endDate, cardMember, accountNumber, minAmount, maxAmount, country, reconciled, importId
+   * Sort: sort=date|dateProcessed|amount|description|cardMember|createdAt, order=asc|desc (default date desc)
    */
   router.get(
     '/',
@@ -25,20 +118,38 @@ export function transactionRoutes(): Router {
           transactions: AmExTransactionRow[];
           total: number;
           limit: number;
-          offset: number;
-          pages: number;
+          nextCursor?: string;
         }> | ErrorResponse
       >,
     ) => {
       try {
         // Parse query parameters
         const limit = getQueryInt(req.query.limit, 50, 1, 500);
-        const offset = getQueryInt(req.query.offset, 0, 0);
+
+        const parsed = getTransactionQuery(req.query);
+        if ('error' in parsed) {
+          return res.status(400).json({
+            success: false,
+            error: parsed.error,
+            code: 'VALIDATION_ERROR',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const cursor = getQueryString(req.query.cursor);
+        const after = cursor ? decodeCursor(cursor, parsed) : undefined;
+        if (after === null) {
+          return res.status(400).json({
+            success: false,
+            error: 'cursor is invalid or was returned for a different query',
+            code: 'VALIDATION_ERROR',
+            timestamp: new Date().toISOString(),
+          });
+        }
 
         // Get transactions and count
-        const transactions = getTransactions(limit, offset);
-        const total = getTransactionCount();
-        const pages = Math.ceil(total / limit);
+        const { transactions, nextKey } = getTransactionPage(limit, parsed.filters, parsed.sort, after);
+        const total = getTransactionCount(parsed.filters);
 
         res.status(200).json({
           success: true,
@@ -46,8 +157,7 @@ export function transactionRoutes(): Router {
             transactions,
             total,
             limit,
-            offset,
-            pages,
+            ...(nextKey && { nextCursor: encodeCursor(nextKey, parsed) }),
           },
           timestamp: new Date().toISOString(),
         });
@@ -111,6 +221,41 @@ export function transactionRoutes(): Router {
     },
   );
 
+  /**
+   * GET /api/transactions/:reference/changes
+   * Field-level change history recorded by upsert imports, oldest first
+   */
+  router.get(
+    '/:reference/changes',
+    (req: Request, res: Response<SuccessResponse<TransactionChange[]> | ErrorResponse>) => {
+      try {
+        const reference = getQueryString(req.params.reference);
+
+        if (!getTransactionByReference(reference)) {
+          return res.status(404).json({
+            success: false,
+            error: `Transaction with reference ${reference} not found`,
+            code: 'NOT_FOUND',
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.status(200).json({
+          success: true,
+          data: getTransactionChanges(reference),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (err) {
+        res.status(500).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to fetch transaction changes',
+          code: 'FETCH_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  );
+
   /**
    * GET /api/transactions/id/:id
    * Get transaction by ID
@@ -0,0 +1,38 @@
+import * as crypto from 'crypto';
+import type { PageKey } from '../../types/index';
+
+/**
+ * Short hash identifying a listing: any JSON-serialisable description of its sort order and filters
+ */
+function hashScope(scope: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(scope)).digest('base64url').slice(0, 11);
+}
+
+/**
+ * Encode a page key as an opaque cursor for keyset pagination of the listing described by scope
+ * The cursor is tagged with a hash of the scope (sort order and filters), so it can't be replayed
+ * against a different query.
+ */
+export function encodeCursor(key: PageKey, scope: unknown): string {
+  return Buffer.from(JSON.stringify([hashScope(scope), key.value, key.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor made by encodeCursor for the same scope
+ * Returns null for a malformed cursor or one from a different listing
+ */
+export function decodeCursor(cursor: string, scope: unknown): PageKey | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [hash, value, id] = decoded;
+    if (hash !== hashScope(scope)) return null;
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    if (!Number.isInteger(id)) return null;
+
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
@@ -5,6 +5,11 @@
 // Express ParsedQs type (query string parameters can be nested objects)
 type QueryValue = string | string[] | Record<string, any> | undefined;
 
+/**
+ * Multipart form fields, read with the same helpers as query parameters
+ */
+export type FormFields = Record<string, QueryValue>;
+
 /**
  * Extract a single string value from a query parameter
  * Handles Express ParsedQs type: string | string[] | ParsedQs | undefined
@@ -0,0 +1,137 @@
+import { parseRawTransaction } from '../parser';
+import { checkTransaction, splitViolations } from '../validator';
+import {
+  batchInsertTransactions,
+  transactionExists,
+  getFailedRowById,
+  updateFailedRow,
+  resolveFailedRow,
+  addImportedRecords,
+  getMappingProfileById,
+  getTransactionByReference,
+} from '../db';
+import { supersedePendingTransactions } from './importService';
+import { resolveRuleSettings } from './ruleService';
+import type {
+  AmExTransaction,
+  FailedRow,
+  FailedRowResubmitResult,
+  ImportResult,
+  ImportWarning,
+  RawTransactionValues,
+} from '../types/index';
+
+/**
+ * A rejected row to import again, with corrected values (its stored values are used when omitted)
+ */
+export interface FailedRowSubmission {
+  id: number;
+  values?: RawTransactionValues;
+}
+
+/**
+ * Parse, validate, deduplicate and insert corrected rows an import rejected
+ * Rows are read again the way the file was (same mapping profile, date format and rule settings) and
+ * inserted under the original import, so rolling it back removes them too. Rows that still fail keep
+ * their new values and errors for another attempt.
+ */
+export function resubmitFailedRows(importId: number, submissions: FailedRowSubmission[]): FailedRowResubmitResult {
+  const rows = submissions.map((submission) => {
+    const row = getFailedRowById(importId, submission.id);
+    if (!row) {
+      throw new Error(`Row ${submission.id} not found in import ${importId}`);
+    }
+    if (row.resolvedAt) {
+      throw new Error(`Row ${row.rowNumber} of import ${importId} was already imported`);
+    }
+    return { ...row, values: submission.values ?? row.values };
+  });
+
+  const result: ImportResult = {
+    success: false,
+    totalRecords: rows.length,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errors: [],
+    timestamp: new Date().toISOString(),
+  };
+
+  const rowsToInsert: Array<{ row: FailedRow; transaction: AmExTransaction }> = [];
+  const warnings: ImportWarning[] = [];
+  // A row without a reference is told apart from identical rows of the same file by the references they took
+  const isReferenceTaken = (reference: string) =>
+    getTransactionByReference(reference)?.import_id === importId ||
+    rowsToInsert.some(({ transaction }) => transaction.reference === reference);
+
+  for (const row of rows) {
+    let transaction: AmExTransaction | undefined;
+    let errors: string[];
+
+    try {
+      const profile = row.profileId ? (getMappingProfileById(row.profileId) ?? undefined) : undefined;
+      // Rows that failed validation were already read with the profile (sign convention, defaults)
+      transaction = parseRawTransaction(row.values, row.rowNumber, {
+        profile: row.stage === 'parse' ? profile : undefined,
+        dateFormat: row.dateFormat,
+        isReferenceTaken,
+      });
+
+      const checks = splitViolations(
+        checkTransaction(transaction, row.rowNumber, resolveRuleSettings(profile)),
+        row.rowNumber,
+      );
+      errors = checks.errors;
+      warnings.push(...checks.warnings);
+
+      if (errors.length === 0 && transactionExists(transaction.reference)) {
+        errors = [`Duplicate reference skipped: ${transaction.reference}`];
+      }
+    } catch (err) {
+      errors = [err instanceof Error ? err.message : String(err)];
+    }
+
+    if (errors.length > 0 || !transaction) {
+      updateFailedRow(row.id, { values: row.values, errors });
+      result.errors.push(
+        ...errors.map((error) => ({ rowNumber: row.rowNumber, error, reference: transaction?.reference })),
+      );
+      result.skippedRecords++;
+    } else {
+      rowsToInsert.push({ row, transaction });
+    }
+  }
+
+  if (rowsToInsert.length > 0) {
+    const insertResult = batchInsertTransactions(
+      rowsToInsert.map(({ transaction }) => transaction),
+      importId,
+    );
+    const failedIndices = new Set(insertResult.errors.map((err) => err.index));
+
+    insertResult.errors.forEach((err) => {
+      const { row } = rowsToInsert[err.index];
+      updateFailedRow(row.id, { values: row.values, errors: [err.error] });
+      result.errors.push({ rowNumber: row.rowNumber, error: err.error, reference: err.reference });
+    });
+    result.skippedRecords += insertResult.errors.length;
+
+    const inserted = rowsToInsert.filter((_, index) => !failedIndices.has(index));
+    inserted.forEach(({ row, transaction }) => resolveFailedRow(row.id, row.values, transaction.reference));
+
+    result.importedRecords = insertResult.inserted;
+    addImportedRecords(importId, insertResult.inserted);
+
+    const superseded = supersedePendingTransactions(inserted.map(({ transaction }) => transaction));
+    if (superseded > 0) {
+      result.supersededRecords = superseded;
+    }
+  }
+
+  if (warnings.length > 0) {
+    result.warnings = warnings;
+  }
+
+  result.success = result.importedRecords > 0 || result.errors.length === 0;
+
+  return { ...result, rows: rows.map((row) => getFailedRowById(importId, row.id) as FailedRow) };
+}
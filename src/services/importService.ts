@@ -1,32 +1,313 @@
-import { parseAmExStatement } from '../parser';
-import { validateAmExTransaction, validateTransactionBatch } from '../validator';
+import { streamStatementFile, streamWithProfile } from '../statementParser';
+import type { ParserOptions } from '../parser';
+import { checkTransactionBatch, getRulesetVersion } from '../validator';
+import { resolveRuleSettings } from './ruleService';
 import {
   batchInsertTransactions,
   transactionExists,
   insertImportLog,
-  getDatabase,
+  updateImportLog,
+  getImportTransactionCounts,
+  rollbackImportLog,
+  getImportLogById,
+  findImportLogByFileHash,
+  getPendingTransactions,
+  supersedePendingTransaction,
+  getTransactionByReference,
+  updateTransactionFields,
+  insertFailedRows,
 } from '../db';
-import type { AmExTransaction, ImportResult, ImportError, ImportLog } from '../types/index';
+import type { ArchiveEntry } from '../archive';
+import type {
+  AmExTransaction,
+  AmExTransactionRow,
+  BatchImportResult,
+  FailedRow,
+  ImportResult,
+  ImportError,
+  ImportLog,
+  ImportProgress,
+  ImportStage,
+  ImportWarning,
+  MappingProfile,
+  RawTransactionValues,
+  RollbackResult,
+  StatementIntegrityError,
+  StatementSummary,
+  TransactionFieldChange,
+} from '../types/index';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 interface ImportServiceOptions {
   skipValidation?: boolean;
   skipDeduplication?: boolean;
   dryRun?: boolean;
+  /** Registered parser name; detected from file contents when omitted */
+  parser?: string;
+  /** Worksheet/header row overrides; detected when omitted */
+  parserOptions?: ParserOptions;
+  /** Column mapping profile for non-AmEx spreadsheets; takes precedence over parser */
+  profile?: MappingProfile;
+  /** Name recorded in the import log; defaults to the file's basename */
+  fileName?: string;
+  /** Batch the import log belongs to (set for files from a ZIP archive) */
+  batchId?: string;
+  /** Rows parsed and committed per chunk (default 1000) */
+  chunkSize?: number;
+  /** Called after each stage (parsed, validated, deduped, inserted) of each chunk */
+  onProgress?: (progress: ImportProgress) => void;
+  /** Import even if a file with the same SHA-256 was already imported */
+  force?: boolean;
+  /** Update existing rows whose fields changed instead of skipping them as duplicates */
+  upsert?: boolean;
 }
 
 /**
- * Import AmEx statement from XLSX file
- * Handles parsing, validation, deduplication, and database insertion
+ * Running sums of imported amounts, keyed by normalized card member name
+ */
+interface StatementTotals {
+  amount: number;
+  cardMembers: Map<string, number>;
+}
+
+/**
+ * Rows parsed, validated and inserted together when no chunkSize is given
+ */
+const DEFAULT_CHUNK_SIZE = 1000;
+
+/**
+ * A posted row matches a pending row dated up to this many days either side
+ */
+const PENDING_MATCH_DAYS = 7;
+
+/**
+ * Posted amounts may differ from the pending authorisation (tips, final FX rate) by up to this fraction
+ */
+const PENDING_AMOUNT_TOLERANCE = 0.2;
+
+/**
+ * Statement fields compared by upsert imports, with the stored column each one maps to
+ */
+const UPSERT_FIELDS: Array<[keyof AmExTransaction, keyof AmExTransactionRow]> = [
+  ['date', 'date'],
+  ['dateProcessed', 'date_processed'],
+  ['description', 'description'],
+  ['cardMember', 'card_member'],
+  ['accountNumber', 'account_number'],
+  ['amount', 'amount'],
+  ['foreignSpendAmount', 'foreign_spend_amount'],
+  ['commission', 'commission'],
+  ['exchangeRate', 'exchange_rate'],
+  ['additionalInformation', 'additional_information'],
+  ['appearsOnStatement', 'appears_on_statement'],
+  ['address', 'address'],
+  ['townCity', 'town_city'],
+  ['postcode', 'postcode'],
+  ['country', 'country'],
+  ['status', 'status'],
+];
+
+/**
+ * Import statement file (AmEx XLSX/CSV or OFX/QFX)
+ * Handles parsing, validation, deduplication, and database insertion.
+ * Yields to the event loop after every step, so progress can be reported while the import runs.
  */
 export async function importAmExStatement(
   filePath: string,
   options: ImportServiceOptions = {},
 ): Promise<ImportResult> {
-  const startTime = Date.now();
-  const fileName = filePath.split('/').pop() || 'unknown';
-  const fileSize = fs.statSync(filePath).size;
+  return runStepsAsync(importFileSteps(filePath, options), options.onProgress);
+}
+
+/**
+ * Import AmEx statement (synchronous version)
+ * Useful for CLI operations without async/await
+ */
+export function importAmExStatementSync(
+  filePath: string,
+  options: ImportServiceOptions = {},
+): ImportResult {
+  return runSteps(importFileSteps(filePath, options), options.onProgress);
+}
+
+/**
+ * Import every statement in a ZIP archive under one batch ID
+ * Each entry is imported (and logged) on its own; the returned counts are the sum across files
+ */
+export function importStatementArchive(entries: ArchiveEntry[], options: ImportServiceOptions = {}): BatchImportResult {
+  return runSteps(importArchiveSteps(entries, options), options.onProgress);
+}
+
+/**
+ * Import a ZIP archive of statements, yielding to the event loop after every step
+ */
+export async function importStatementArchiveAsync(
+  entries: ArchiveEntry[],
+  options: ImportServiceOptions = {},
+): Promise<BatchImportResult> {
+  return runStepsAsync(importArchiveSteps(entries, options), options.onProgress);
+}
+
+/**
+ * Run import steps to completion, reporting the progress each one yields
+ */
+function runSteps<T>(steps: Generator<ImportProgress, T>, onProgress?: (progress: ImportProgress) => void): T {
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    onProgress?.(step.value);
+  }
+}
+
+/**
+ * Run import steps to completion, letting other requests and progress events through between steps
+ */
+async function runStepsAsync<T>(
+  steps: Generator<ImportProgress, T>,
+  onProgress?: (progress: ImportProgress) => void,
+): Promise<T> {
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    onProgress?.(step.value);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+/**
+ * Import steps for one statement file; a missing or unreadable file is logged as a failed import
+ */
+function* importFileSteps(filePath: string, options: ImportServiceOptions): Generator<ImportProgress, ImportResult> {
+  const fileName = options.fileName || filePath.split('/').pop() || 'unknown';
+
+  // Check if file exists before calling statSync
+  let fileSize = 0;
+  try {
+    fileSize = fs.statSync(filePath).size;
+  } catch (err) {
+    // File doesn't exist or can't be accessed
+    const result = unreadableFileResult(err);
+    logImport(fileName, 0, result, { batchId: options.batchId });
+    return result;
+  }
+
+  return yield* importSteps(filePath, fileName, fileSize, options);
+}
+
+/**
+ * Failed import result for a file that could not be read at all
+ */
+function unreadableFileResult(err: unknown): ImportResult {
+  return {
+    success: false,
+    totalRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errors: [
+      {
+        rowNumber: 0,
+        error: err instanceof Error ? err.message : String(err),
+        reference: undefined,
+      } as ImportError,
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Inflate an archive entry to entryPath
+ * Returns a failed (and logged) import result if the entry is corrupt, so the rest of the batch carries on
+ */
+function extractArchiveEntry(entry: ArchiveEntry, entryPath: string, batchId: string): ImportResult | undefined {
+  try {
+    fs.mkdirSync(path.dirname(entryPath));
+    fs.writeFileSync(entryPath, entry.read());
+    return undefined;
+  } catch (err) {
+    const result = unreadableFileResult(err);
+    logImport(entry.name, entry.size, result, { batchId });
+    return result;
+  }
+}
+
+/**
+ * Import steps for every statement in a ZIP archive, one file after another
+ */
+function* importArchiveSteps(
+  entries: ArchiveEntry[],
+  options: ImportServiceOptions,
+): Generator<ImportProgress, BatchImportResult> {
+  const batchId = crypto.randomUUID();
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amex-batch-'));
+
+  const batch: BatchImportResult = {
+    batchId,
+    success: entries.length > 0,
+    totalRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errors: [],
+    timestamp: new Date().toISOString(),
+    files: [],
+    ...(options.upsert ? { updatedRecords: 0 } : {}),
+  };
 
+  if (entries.length === 0) {
+    batch.errors.push({ rowNumber: 0, error: 'No statement files found in archive' });
+    return batch;
+  }
+
+  try {
+    for (const [index, entry] of entries.entries()) {
+      // Each entry gets its own directory so same-named files in different folders don't collide
+      const entryDir = path.join(workDir, String(index));
+      const entryPath = path.join(entryDir, path.basename(entry.name));
+
+      const result =
+        extractArchiveEntry(entry, entryPath, batchId) ??
+        (yield* importFileSteps(entryPath, { ...options, fileName: entry.name, batchId }));
+      batch.files.push({ fileName: entry.name, result });
+
+      batch.success = batch.success && result.success;
+      batch.totalRecords += result.totalRecords;
+      batch.importedRecords += result.importedRecords;
+      batch.skippedRecords += result.skippedRecords;
+      if (result.updatedRecords !== undefined) {
+        batch.updatedRecords = (batch.updatedRecords ?? 0) + result.updatedRecords;
+      }
+      if (result.supersededRecords) {
+        batch.supersededRecords = (batch.supersededRecords ?? 0) + result.supersededRecords;
+      }
+      batch.errors.push(...result.errors.map((err) => ({ ...err, error: `${entry.name}: ${err.error}` })));
+      if (result.warnings) {
+        batch.warnings = [
+          ...(batch.warnings || []),
+          ...result.warnings.map((warning) => ({ ...warning, message: `${entry.name}: ${warning.message}` })),
+        ];
+      }
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return batch;
+}
+
+/**
+ * Parse, validate, deduplicate and insert a statement file, logging the outcome
+ * The file is processed chunkSize rows at a time, each chunk committed in its own transaction,
+ * so memory stays bounded for very large exports. Results match a single-pass import.
+ * Yields progress after each stage of each chunk (parsed, validated, deduped, inserted).
+ */
+function* importSteps(
+  filePath: string,
+  fileName: string,
+  fileSize: number,
+  options: ImportServiceOptions,
+): Generator<ImportProgress, ImportResult> {
   const result: ImportResult = {
     success: false,
     totalRecords: 0,
@@ -34,303 +315,435 @@ export async function importAmExStatement(
     skippedRecords: 0,
     errors: [],
     timestamp: new Date().toISOString(),
+    ...(options.upsert ? { updatedRecords: 0 } : {}),
   };
 
+  let parserName: string | undefined;
+
+  // Errors are reported by category (parse, validation, duplicate, insert), as in a single pass
+  const parseErrors: ImportError[] = [];
+  const validationErrors: ImportError[] = [];
+  const duplicateErrors: ImportError[] = [];
+  const insertErrors: ImportError[] = [];
+  const warnings: ImportWarning[] = [];
+
+  const collectErrors = () => {
+    result.errors.push(...parseErrors, ...validationErrors, ...duplicateErrors, ...insertErrors);
+    if (warnings.length > 0) {
+      result.warnings = warnings;
+    }
+  };
+
+  // Step 0: Skip a file that was already imported (and not rolled back) unless forced
+  const fileHash = hashFile(filePath);
+  const previous = options.force ? null : findImportLogByFileHash(fileHash);
+
+  if (previous) {
+    result.duplicateOfImportId = previous.id;
+    result.errors.push({ rowNumber: 0, error: describePreviousImport(previous) });
+    return result;
+  }
+
+  // Global validation rule settings, overridden by the mapping profile's
+  const ruleSettings = resolveRuleSettings(options.profile);
+
+  // Dry runs don't record the hash, so they never block the real import
+  const logDetails = {
+    batchId: options.batchId,
+    fileHash: options.dryRun ? undefined : fileHash,
+    rulesetVersion: getRulesetVersion(ruleSettings),
+  };
+
+  // Open the log before inserting anything, so every inserted row can be linked to it for rollback
+  const importLogId = logImport(fileName, fileSize, result, logDetails);
+
   try {
-    // Step 1: Parse XLSX file
-    const { transactions: parsedTransactions, errors: parseErrors } = parseAmExStatement(filePath);
+    // Step 1: Open the statement with the mapping profile or the detected (or requested) parser
+    const stream = options.profile
+      ? streamWithProfile(filePath, options.profile, options.parserOptions)
+      : streamStatementFile(filePath, options.parser, options.parserOptions);
+    parserName = stream.parser;
+
+    result.source = {
+      parser: stream.parser,
+      worksheet: stream.worksheetName,
+      headerRow: stream.headerRowNumber !== undefined ? stream.headerRowNumber + 1 : undefined,
+    };
+
+    const progress = (stage: ImportStage, rowsRead: number): ImportProgress => ({
+      stage,
+      fileName,
+      rowsRead,
+      totalRows: stream.totalRows,
+      importedRecords: result.importedRecords,
+      skippedRecords: result.skippedRecords,
+    });
 
-    result.totalRecords = parsedTransactions.length;
+    let validatedCount = 0;
+    let insertedCount = 0;
+    // Sum of the rows that passed validation, overall and per card member, checked against the stated totals
+    const totals: StatementTotals = { amount: 0, cardMembers: new Map() };
+    // References inserted by earlier chunks still count as new, so a repeat later in the file fails on insert
+    const insertedReferences = new Set<string>();
 
-    // Collect parse errors
-    if (parseErrors.length > 0) {
-      result.errors.push(
-        ...parseErrors.map((err) => ({
+    for (const chunk of stream.chunks(options.chunkSize ?? DEFAULT_CHUNK_SIZE)) {
+      const parsedTransactions = chunk.transactions;
+      result.totalRecords += parsedTransactions.length;
+
+      warnings.push(
+        ...(chunk.warnings || []).map((warning) => ({ rowNumber: warning.row, message: warning.message })),
+      );
+
+      // Collect parse errors
+      parseErrors.push(
+        ...chunk.errors.map((err) => ({
           rowNumber: err.row,
           error: err.error,
           reference: undefined,
         } as ImportError)),
       );
-    }
 
-    if (parsedTransactions.length === 0) {
-      result.success = false;
-      result.errors.push({
-        rowNumber: 0,
-        error: 'No transactions found in file',
-        reference: undefined,
-      } as ImportError);
-      logImport(fileName, fileSize, result);
-      return result;
-    }
-
-    // Step 2: Validate transactions
-    if (!options.skipValidation) {
-      const validationErrors = validateTransactionBatch(parsedTransactions);
-
-      if (validationErrors.length > 0) {
-        result.errors.push(
-          ...validationErrors.flatMap((err) =>
+      // Rejected rows are kept with their values, to be corrected and resubmitted from the import history
+      const failedRows: Array<Omit<FailedRow, 'id' | 'importId' | 'createdAt' | 'updatedAt'>> = chunk.errors
+        .filter((err) => err.values)
+        .map((err) => ({
+          rowNumber: err.row,
+          stage: 'parse',
+          values: err.values!,
+          errors: [err.error],
+          profileId: options.profile?.id,
+          dateFormat: stream.dateFormat,
+        }));
+      yield progress('parsed', chunk.rowsRead);
+
+      // Step 2: Validate transactions (rows breaking warning or info rules are imported and reported)
+      let validTransactions = parsedTransactions;
+
+      if (!options.skipValidation) {
+        const checks = checkTransactionBatch(parsedTransactions, validatedCount, ruleSettings);
+        const chunkValidationErrors = checks.errors;
+        warnings.push(...checks.warnings);
+
+        // Rows are numbered as the parser numbers its errors, so both stages point at the same line
+        const rowNumberOf = (index: number) => parsedTransactions[index - validatedCount]?.rowNumber ?? index + 1;
+
+        validationErrors.push(
+          ...chunkValidationErrors.flatMap((err) =>
             err.errors.map((message) => ({
-              rowNumber: err.index + 1,
+              rowNumber: rowNumberOf(err.index),
               error: message,
-              reference: parsedTransactions[err.index]?.reference,
+              reference: parsedTransactions[err.index - validatedCount]?.reference,
             } as ImportError)),
           ),
         );
-      }
 
-      // Filter out invalid transactions
-      if (validationErrors.length > 0) {
-        const invalidIndices = new Set(validationErrors.map((err) => err.index));
-        const validTransactions = parsedTransactions.filter((_, idx) => !invalidIndices.has(idx));
+        failedRows.push(
+          ...chunkValidationErrors.map((err) => ({
+            rowNumber: rowNumberOf(err.index),
+            stage: 'validation' as const,
+            values: toRawValues(parsedTransactions[err.index - validatedCount]),
+            errors: err.errors,
+            profileId: options.profile?.id,
+          })),
+        );
 
-        if (validTransactions.length === 0) {
-          result.success = false;
-          logImport(fileName, fileSize, result);
-          return result;
+        // Filter out invalid transactions
+        if (chunkValidationErrors.length > 0) {
+          const invalidIndices = new Set(chunkValidationErrors.map((err) => err.index - validatedCount));
+          validTransactions = parsedTransactions.filter((_, idx) => !invalidIndices.has(idx));
         }
 
-        parsedTransactions.length = 0;
-        parsedTransactions.push(...validTransactions);
+        validatedCount += parsedTransactions.length;
+      }
+
+      for (const transaction of validTransactions) {
+        const cardMember = normalizeCardMember(transaction.cardMember);
+        totals.amount += transaction.amount;
+        totals.cardMembers.set(cardMember, (totals.cardMembers.get(cardMember) ?? 0) + transaction.amount);
       }
-    }
 
-    // Step 3: Deduplication check
-    const transactionsToInsert: AmExTransaction[] = [];
-    const duplicateReferences: string[] = [];
-
-    if (!options.skipDeduplication) {
-      for (const transaction of parsedTransactions) {
-        if (transactionExists(transaction.reference)) {
-          duplicateReferences.push(transaction.reference);
-          result.skippedRecords++;
-        } else {
-          transactionsToInsert.push(transaction);
+      if (failedRows.length > 0 && importLogId !== undefined && !options.dryRun) {
+        insertFailedRows(importLogId, failedRows);
+      }
+      yield progress('validated', chunk.rowsRead);
+
+      // Step 3: Deduplication check (upserts update changed rows in place instead)
+      const transactionsToInsert: AmExTransaction[] = [];
+
+      if (!options.skipDeduplication) {
+        for (const transaction of validTransactions) {
+          if (!insertedReferences.has(transaction.reference) && transactionExists(transaction.reference)) {
+            const existing = options.upsert ? getTransactionByReference(transaction.reference) : null;
+            const changes = existing ? diffTransaction(existing, transaction) : [];
+
+            if (existing && changes.length > 0) {
+              if (!options.dryRun) {
+                updateTransactionFields(existing.id, changes, importLogId);
+              }
+              result.updatedRecords = (result.updatedRecords ?? 0) + 1;
+              continue;
+            }
+
+            // Log duplicates as warnings
+            duplicateErrors.push({
+              rowNumber: 0,
+              error: `Duplicate reference skipped: ${transaction.reference}`,
+              reference: transaction.reference,
+            } as ImportError);
+            result.skippedRecords++;
+          } else {
+            transactionsToInsert.push(transaction);
+          }
         }
+      } else {
+        transactionsToInsert.push(...validTransactions);
       }
-    } else {
-      transactionsToInsert.push(...parsedTransactions);
-    }
+      yield progress('deduped', chunk.rowsRead);
+
+      // Step 4: Batch insert this chunk (skip if dry run)
+      if (transactionsToInsert.length > 0 && !options.dryRun) {
+        const insertResult = batchInsertTransactions(transactionsToInsert, importLogId);
+        result.importedRecords += insertResult.inserted;
+
+        // Add insert errors
+        if (insertResult.errors.length > 0) {
+          insertErrors.push(
+            ...insertResult.errors.map((err) => ({
+              rowNumber: insertedCount + err.index + 1,
+              error: err.error,
+              reference: err.reference,
+            } as ImportError)),
+          );
+          result.skippedRecords += insertResult.errors.length;
+        }
 
-    // Log duplicates as warnings
-    duplicateReferences.forEach((ref) => {
-      result.errors.push({
-        rowNumber: 0,
-        error: `Duplicate reference skipped: ${ref}`,
-        reference: ref,
-      } as ImportError);
-    });
+        transactionsToInsert.forEach((transaction) => insertedReferences.add(transaction.reference));
+        insertedCount += transactionsToInsert.length;
 
-    // Step 4: Batch insert (skip if dry run)
-    if (transactionsToInsert.length > 0 && !options.dryRun) {
-      const insertResult = batchInsertTransactions(transactionsToInsert);
-      result.importedRecords = insertResult.inserted;
-
-      // Add insert errors
-      if (insertResult.errors.length > 0) {
-        result.errors.push(
-          ...insertResult.errors.map((err) => ({
-            rowNumber: err.index + 1,
-            error: err.error,
-            reference: err.reference,
-          } as ImportError)),
+        // Step 5: Posted rows supersede the pending rows they settle
+        const failedIndices = new Set(insertResult.errors.map((err) => err.index));
+        const superseded = supersedePendingTransactions(
+          transactionsToInsert.filter((_, index) => !failedIndices.has(index)),
         );
-        result.skippedRecords += insertResult.errors.length;
+        if (superseded > 0) {
+          result.supersededRecords = (result.supersededRecords ?? 0) + superseded;
+        }
+      } else if (options.dryRun) {
+        result.importedRecords += transactionsToInsert.length;
       }
-    } else if (options.dryRun) {
-      result.importedRecords = transactionsToInsert.length;
+
+      yield progress('inserted', chunk.rowsRead);
+    }
+
+    if (result.totalRecords === 0) {
+      parseErrors.push({
+        rowNumber: 0,
+        error: 'No transactions found in file',
+        reference: undefined,
+      } as ImportError);
     }
 
+    collectErrors();
     result.success = result.importedRecords > 0 || result.errors.length === 0;
 
+    // Step 6: Check the rows add up to the totals the statement states, so no row went missing unnoticed
+    if (stream.summary) {
+      result.statementSummary = stream.summary;
+      const integrityErrors = verifyStatementTotals(stream.summary, totals);
+
+      if (integrityErrors.length > 0) {
+        result.integrityErrors = integrityErrors;
+        result.errors.push(...integrityErrors.map((err) => ({ rowNumber: 0, error: err.message })));
+        result.success = false;
+      }
+    }
+
     // Log the import
-    logImport(fileName, fileSize, result);
+    logImport(fileName, fileSize, result, { ...logDetails, parser: parserName }, importLogId);
 
     return result;
   } catch (err) {
+    // Chunks committed before the failure stay imported and are counted in the result
+    collectErrors();
     result.success = false;
     result.errors.push({
       rowNumber: 0,
       error: err instanceof Error ? err.message : String(err),
       reference: undefined,
     } as ImportError);
-    logImport(fileName, fileSize, result);
+    logImport(fileName, fileSize, result, { ...logDetails, parser: parserName }, importLogId);
     return result;
   }
 }
 
 /**
- * Import AmEx statement (synchronous version)
- * Useful for CLI operations without async/await
+ * Delete every transaction inserted by an import, undo its upsert changes and mark its log as rolled back
+ * Throws if the log is missing or already rolled back, or if any of its rows are reconciled and force is not set
  */
-export function importAmExStatementSync(
-  filePath: string,
-  options: ImportServiceOptions = {},
-): ImportResult {
-  const fileName = filePath.split('/').pop() || 'unknown';
+export function rollbackImport(importLogId: number, options: { force?: boolean } = {}): RollbackResult {
+  const log = getImportLogById(importLogId);
 
-  // Check if file exists before calling statSync
-  let fileSize = 0;
-  try {
-    fileSize = fs.statSync(filePath).size;
-  } catch (err) {
-    // File doesn't exist or can't be accessed
-    const result: ImportResult = {
-      success: false,
-      totalRecords: 0,
-      importedRecords: 0,
-      skippedRecords: 0,
-      errors: [
-        {
-          rowNumber: 0,
-          error: err instanceof Error ? err.message : String(err),
-          reference: undefined,
-        } as ImportError,
-      ],
-      timestamp: new Date().toISOString(),
-    };
-    logImport(fileName, 0, result);
-    return result;
+  if (!log) {
+    throw new Error(`Import ${importLogId} not found`);
+  }
+  if (log.rolledBackAt) {
+    throw new Error(`Import ${importLogId} was already rolled back`);
   }
 
-  const result: ImportResult = {
-    success: false,
-    totalRecords: 0,
-    importedRecords: 0,
-    skippedRecords: 0,
-    errors: [],
-    timestamp: new Date().toISOString(),
-  };
-
-  try {
-    // Step 1: Parse XLSX file
-    const { transactions: parsedTransactions, errors: parseErrors } = parseAmExStatement(filePath);
+  const { reconciled } = getImportTransactionCounts(importLogId);
+  if (reconciled > 0 && !options.force) {
+    throw new Error(
+      `Import ${importLogId} has ${reconciled} reconciled transaction(s); force the rollback to delete them`,
+    );
+  }
 
-    result.totalRecords = parsedTransactions.length;
+  const { deleted, reverted, restored } = rollbackImportLog(importLogId);
 
-    // Collect parse errors
-    if (parseErrors.length > 0) {
-      result.errors.push(
-        ...parseErrors.map((err) => ({
-          rowNumber: err.row,
-          error: err.error,
-          reference: undefined,
-        } as ImportError)),
-      );
-    }
+  return {
+    importLogId,
+    deletedRecords: deleted,
+    reconciledRecords: reconciled,
+    revertedRecords: reverted,
+    restoredRecords: restored,
+    rolledBackAt: getImportLogById(importLogId)?.rolledBackAt as string,
+  };
+}
 
-    if (parsedTransactions.length === 0) {
-      result.success = false;
-      result.errors.push({
-        rowNumber: 0,
-        error: 'No transactions found in file',
-        reference: undefined,
-      } as ImportError);
-      logImport(fileName, fileSize, result);
-      return result;
+/**
+ * Match newly inserted posted transactions to earlier pending rows and replace them
+ * A pending row matches on account, merchant (first word of the description), an amount within
+ * PENDING_AMOUNT_TOLERANCE and a date within PENDING_MATCH_DAYS; the closest match wins.
+ * Returns the number of pending rows superseded.
+ */
+export function supersedePendingTransactions(transactions: AmExTransaction[]): number {
+  let superseded = 0;
+
+  for (const transaction of transactions) {
+    const merchant = merchantKey(transaction.description);
+    if (transaction.status === 'pending' || !merchant) continue;
+
+    const amountDifference = (pending: AmExTransactionRow) => Math.abs(transaction.amount - pending.amount);
+    const candidates = getPendingTransactions(transaction.accountNumber, transaction.date, PENDING_MATCH_DAYS).filter(
+      (pending) =>
+        merchantKey(pending.description) === merchant &&
+        amountDifference(pending) <= Math.abs(pending.amount) * PENDING_AMOUNT_TOLERANCE,
+    );
+
+    if (candidates.length === 0) continue;
+
+    // Closest amount first, then closest date
+    const [closest] = candidates.sort(
+      (a, b) =>
+        amountDifference(a) - amountDifference(b) ||
+        daysBetween(transaction.date, a.date) - daysBetween(transaction.date, b.date),
+    );
+
+    if (supersedePendingTransaction(closest.id, transaction.reference)) {
+      superseded++;
     }
+  }
 
-    // Step 2: Validate transactions
-    if (!options.skipValidation) {
-      const validationErrors = validateTransactionBatch(parsedTransactions);
-
-      if (validationErrors.length > 0) {
-        result.errors.push(
-          ...validationErrors.flatMap((err) =>
-            err.errors.map((message) => ({
-              rowNumber: err.index + 1,
-              error: message,
-              reference: parsedTransactions[err.index]?.reference,
-            } as ImportError)),
-          ),
-        );
-      }
-
-      // Filter out invalid transactions
-      if (validationErrors.length > 0) {
-        const invalidIndices = new Set(validationErrors.map((err) => err.index));
-        const validTransactions = parsedTransactions.filter((_, idx) => !invalidIndices.has(idx));
+  return superseded;
+}
 
-        if (validTransactions.length === 0) {
-          result.success = false;
-          logImport(fileName, fileSize, result);
-          return result;
-        }
+/**
+ * Fields whose stored value differs from the incoming statement row
+ */
+function diffTransaction(existing: AmExTransactionRow, incoming: AmExTransaction): TransactionFieldChange[] {
+  return UPSERT_FIELDS.flatMap(([field, column]) => {
+    const oldValue = toChangeValue(existing[column]);
+    const newValue = toChangeValue(field === 'status' ? (incoming.status ?? 'posted') : incoming[field]);
+    return oldValue === newValue ? [] : [{ field: column, oldValue, newValue }];
+  });
+}
 
-        parsedTransactions.length = 0;
-        parsedTransactions.push(...validTransactions);
-      }
-    }
+/**
+ * Text form of a field value for comparison and change history (null when blank)
+ */
+function toChangeValue(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
 
-    // Step 3: Deduplication check
-    const transactionsToInsert: AmExTransaction[] = [];
-    const duplicateReferences: string[] = [];
-
-    if (!options.skipDeduplication) {
-      for (const transaction of parsedTransactions) {
-        if (transactionExists(transaction.reference)) {
-          duplicateReferences.push(transaction.reference);
-          result.skippedRecords++;
-        } else {
-          transactionsToInsert.push(transaction);
-        }
-      }
-    } else {
-      transactionsToInsert.push(...parsedTransactions);
+/**
+ * A parsed row's fields as text, kept for a row that failed validation (they parse back to the same row)
+ */
+function toRawValues(transaction: AmExTransaction): RawTransactionValues {
+  const values: RawTransactionValues = {};
+  for (const [field, value] of Object.entries(transaction) as Array<[keyof AmExTransaction, unknown]>) {
+    const text = toChangeValue(value);
+    // The currency comes from the file format rather than a column, and the row number from its position
+    if (text !== null && field !== 'currency' && field !== 'rowNumber') {
+      values[field] = text;
     }
+  }
+  return values;
+}
 
-    // Log duplicates as warnings
-    duplicateReferences.forEach((ref) => {
-      result.errors.push({
-        rowNumber: 0,
-        error: `Duplicate reference skipped: ${ref}`,
-        reference: ref,
-      } as ImportError);
+/**
+ * Compare the stated statement total and per-card member totals with the sums of the imported rows
+ * Rows skipped as duplicates count as imported, since they are already in the database. Amounts are
+ * compared to the cent.
+ */
+function verifyStatementTotals(summary: StatementSummary, totals: StatementTotals): StatementIntegrityError[] {
+  const errors: StatementIntegrityError[] = [];
+
+  const compare = (expected: number, actual: number, cardMember?: string) => {
+    if (Math.round(expected * 100) === Math.round(actual * 100)) return;
+
+    const rounded = Math.round(actual * 100) / 100;
+    const subject = cardMember ? `Total for card member ${cardMember}` : 'Statement total';
+    errors.push({
+      ...(cardMember && { cardMember }),
+      expected,
+      actual: rounded,
+      message:
+        `Statement integrity error: ${subject} is ${expected.toFixed(2)} ` +
+        `but the imported rows sum to ${rounded.toFixed(2)}`,
     });
+  };
 
-    // Step 4: Batch insert (skip if dry run)
-    if (transactionsToInsert.length > 0 && !options.dryRun) {
-      const insertResult = batchInsertTransactions(transactionsToInsert);
-      result.importedRecords = insertResult.inserted;
-
-      // Add insert errors
-      if (insertResult.errors.length > 0) {
-        result.errors.push(
-          ...insertResult.errors.map((err) => ({
-            rowNumber: err.index + 1,
-            error: err.error,
-            reference: err.reference,
-          } as ImportError)),
-        );
-        result.skippedRecords += insertResult.errors.length;
-      }
-    } else if (options.dryRun) {
-      result.importedRecords = transactionsToInsert.length;
-    }
+  if (summary.totalAmount !== undefined) {
+    compare(summary.totalAmount, totals.amount);
+  }
+  for (const { cardMember, total } of summary.cardMemberTotals) {
+    compare(total, totals.cardMembers.get(normalizeCardMember(cardMember)) ?? 0, cardMember);
+  }
 
-    result.success = result.importedRecords > 0 || result.errors.length === 0;
+  return errors;
+}
 
-    // Log the import
-    logImport(fileName, fileSize, result);
+/**
+ * Card member name as compared with a statement summary: case and spacing ignored
+ */
+function normalizeCardMember(cardMember: string): string {
+  return cardMember.trim().replace(/\s+/g, ' ').toUpperCase();
+}
 
-    return result;
-  } catch (err) {
-    result.success = false;
-    result.errors.push({
-      rowNumber: 0,
-      error: err instanceof Error ? err.message : String(err),
-      reference: undefined,
-    } as ImportError);
-    logImport(fileName, fileSize, result);
-    return result;
-  }
+/**
+ * Merchant part of a description, ignoring store numbers and location: "COLES 0123 SYDNEY" -> "COLES"
+ */
+function merchantKey(description: string): string {
+  return description.toUpperCase().match(/[A-Z]{2,}/)?.[0] ?? '';
+}
+
+/**
+ * Whole days between two YYYY-MM-DD dates
+ */
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
 }
 
 /**
  * Log import to database
+ * Inserts a new log, or updates importLogId's log when given; returns the log ID (undefined if logging failed)
  */
-function logImport(fileName: string, fileSize: number, result: ImportResult): void {
+export function logImport(
+  fileName: string,
+  fileSize: number,
+  result: ImportResult,
+  details: Pick<ImportLog, 'parser' | 'batchId' | 'fileHash' | 'rulesetVersion'> = {},
+  importLogId?: number,
+): number | undefined {
   try {
     const errorLog: ImportLog = {
       id: 0,
@@ -342,10 +755,44 @@ function logImport(fileName: string, fileSize: number, result: ImportResult): vo
       errorCount: result.errors.length,
       errors: result.errors,
       importTimestamp: result.timestamp,
+      ...details,
     };
 
-    insertImportLog(errorLog);
+    if (importLogId !== undefined) {
+      updateImportLog(importLogId, errorLog);
+      return importLogId;
+    }
+
+    return insertImportLog(errorLog).id;
   } catch (err) {
     console.error('Failed to log import:', err);
+    return importLogId;
+  }
+}
+
+/**
+ * SHA-256 of a file's contents (hex), read in blocks
+ */
+export function hashFile(filePath: string): string {
+  const hash = crypto.createHash('sha256');
+  const fd = fs.openSync(filePath, 'r');
+  const buffer = Buffer.alloc(64 * 1024);
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
   }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Message for a file that was already imported
+ */
+export function describePreviousImport(previous: ImportLog): string {
+  return `File already imported on ${previous.importTimestamp.slice(0, 10)} as import #${previous.id}`;
 }
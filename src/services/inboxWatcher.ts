@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { importAmExStatement, importStatementArchiveAsync } from './importService';
+import { readStatementArchive } from '../archive';
+import type { BatchImportResult, ImportResult } from '../types/index';
+
+const PROCESSED_DIR = 'processed';
+const FAILED_DIR = 'failed';
+
+export interface InboxWatcherOptions {
+  /** How often the inbox is scanned for new files (default 5000ms) */
+  pollIntervalMs?: number;
+  /** Files modified more recently than this are still being written and left for the next scan (default 2000ms) */
+  settleMs?: number;
+}
+
+/**
+ * Outcome of importing one file dropped in the inbox
+ */
+export interface InboxFileOutcome {
+  fileName: string;
+  /** Where the file was moved (inside processed/ or failed/) */
+  movedTo: string;
+  result: ImportResult | BatchImportResult;
+}
+
+/**
+ * Inbox Watcher
+ * Polls a directory for statement files, imports them through importService and moves
+ * each one to processed/ or failed/ next to a sidecar JSON of its ImportResult
+ * Imports run asynchronously, so the server keeps answering requests; a poll that comes round while
+ * a scan is still importing is skipped.
+ */
+export class InboxWatcher {
+  private readonly inboxDir: string;
+  private readonly pollIntervalMs: number;
+  private readonly settleMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private scanning = false;
+  private stopped = false;
+
+  constructor(inboxDir: string, options: InboxWatcherOptions = {}) {
+    if (!inboxDir) {
+      throw new Error('Inbox directory is required');
+    }
+
+    this.inboxDir = path.resolve(inboxDir);
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.settleMs = options.settleMs ?? 2000;
+  }
+
+  /**
+   * Create the inbox folders and start polling
+   */
+  start(): void {
+    if (this.timer) return;
+    this.stopped = false;
+
+    for (const dir of [this.inboxDir, this.processedDir, this.failedDir]) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    void this.scan();
+    this.timer = setInterval(() => void this.scan(), this.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling (a scan in progress finishes its current file)
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Import every settled file currently in the inbox, one at a time
+   * Returns no outcomes if another scan is still running.
+   */
+  async scan(): Promise<InboxFileOutcome[]> {
+    if (this.scanning) return [];
+    this.scanning = true;
+
+    const outcomes: InboxFileOutcome[] = [];
+
+    try {
+      const now = Date.now();
+      const fileNames = fs.readdirSync(this.inboxDir).filter((name) => !name.startsWith('.'));
+
+      for (const fileName of fileNames) {
+        if (this.stopped) break;
+
+        const filePath = path.join(this.inboxDir, fileName);
+        const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+
+        if (!stats || !stats.isFile() || now - stats.mtimeMs < this.settleMs) {
+          continue;
+        }
+
+        outcomes.push(await this.processFile(fileName));
+      }
+    } catch (err) {
+      console.error(`Failed to scan inbox ${this.inboxDir}:`, err);
+    } finally {
+      this.scanning = false;
+    }
+
+    return outcomes;
+  }
+
+  private get processedDir(): string {
+    return path.join(this.inboxDir, PROCESSED_DIR);
+  }
+
+  private get failedDir(): string {
+    return path.join(this.inboxDir, FAILED_DIR);
+  }
+
+  /**
+   * Import one file, then move it and write its sidecar JSON
+   */
+  private async processFile(fileName: string): Promise<InboxFileOutcome> {
+    const filePath = path.join(this.inboxDir, fileName);
+    let result: ImportResult | BatchImportResult;
+
+    try {
+      const archiveEntries = readStatementArchive(filePath);
+      result = archiveEntries
+        ? await importStatementArchiveAsync(archiveEntries)
+        : await importAmExStatement(filePath);
+    } catch (err) {
+      result = {
+        success: false,
+        totalRecords: 0,
+        importedRecords: 0,
+        skippedRecords: 0,
+        errors: [{ rowNumber: 0, error: err instanceof Error ? err.message : String(err) }],
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const targetDir = result.success ? this.processedDir : this.failedDir;
+    const movedTo = this.uniquePath(targetDir, fileName);
+
+    fs.mkdirSync(targetDir, { recursive: true });
+    fs.renameSync(filePath, movedTo);
+    fs.writeFileSync(`${movedTo}.json`, JSON.stringify(result, null, 2));
+
+    console.log(
+      `Inbox: ${fileName} -> ${path.relative(this.inboxDir, movedTo)} ` +
+        `(${result.importedRecords} imported, ${result.skippedRecords} skipped, ${result.errors.length} errors)`,
+    );
+
+    return { fileName, movedTo, result };
+  }
+
+  /**
+   * Path in dir for fileName, suffixed with a timestamp if a file of that name was already moved there
+   */
+  private uniquePath(dir: string, fileName: string): string {
+    const target = path.join(dir, fileName);
+    if (!fs.existsSync(target)) {
+      return target;
+    }
+
+    const ext = path.extname(fileName);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return path.join(dir, `${path.basename(fileName, ext)}-${stamp}${ext}`);
+  }
+}
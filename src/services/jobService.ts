@@ -0,0 +1,66 @@
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import type { BatchImportResult, ImportJob, ImportProgress, ImportResult } from '../types/index';
+
+/**
+ * Finished jobs are kept this long so clients can still fetch their result
+ */
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, ImportJob>();
+
+// One event per job update, named by job ID
+const updates = new EventEmitter();
+updates.setMaxListeners(0);
+
+/**
+ * Start an import in the background and return its job
+ * run receives a progress callback and resolves with the import result; it should yield to the
+ * event loop between steps (importAmExStatement, importStatementArchiveAsync) so updates get out.
+ */
+export function startImportJob(
+  fileName: string,
+  run: (onProgress: (progress: ImportProgress) => void) => Promise<ImportResult | BatchImportResult>,
+): ImportJob {
+  const now = new Date().toISOString();
+  const job: ImportJob = { id: crypto.randomUUID(), fileName, status: 'queued', createdAt: now, updatedAt: now };
+  jobs.set(job.id, job);
+
+  // Start on the next turn of the event loop, so the caller can respond with the queued job first
+  setImmediate(() => {
+    updateJob(job, { status: 'running' });
+
+    run((progress) => updateJob(job, { progress }))
+      .then((result) => updateJob(job, { status: 'completed', result }))
+      .catch((err) => updateJob(job, { status: 'failed', error: err instanceof Error ? err.message : String(err) }))
+      .finally(() => setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref());
+  });
+
+  return { ...job };
+}
+
+/**
+ * Current state of a job (undefined if unknown or expired)
+ */
+export function getImportJob(id: string): ImportJob | undefined {
+  const job = jobs.get(id);
+  return job ? { ...job } : undefined;
+}
+
+/**
+ * Call listener with the job after every update; returns a function that unsubscribes
+ */
+export function subscribeToImportJob(id: string, listener: (job: ImportJob) => void): () => void {
+  updates.on(id, listener);
+  return () => {
+    updates.off(id, listener);
+  };
+}
+
+/**
+ * Apply changes to a job and notify its subscribers
+ */
+function updateJob(job: ImportJob, changes: Partial<ImportJob>): void {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  updates.emit(job.id, { ...job });
+}
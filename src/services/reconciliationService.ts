@@ -15,6 +15,7 @@ import {
   insertReconciliationLog,
 } from '../db';
 import { YnabClient } from './ynabClient';
+import { toMilliunits } from '../money';
 
 /**
  * Configuration for reconciliation matching
@@ -255,7 +256,7 @@ export class ReconciliationService {
         // Create transaction in YNAB
         await this.ynabClient.createTransaction(budgetId, accountId, {
           date: cardTxn.date,
-          amount: YnabClient.amountToMilliunits(cardTxn.amount),
+          amount: toMilliunits(cardTxn.amount_minor, cardTxn.currency),
           payee_name: cardTxn.description,
           memo: `${cardTxn.card_member} | ${cardTxn.reference}`,
           cleared: 'uncleared',
@@ -352,21 +353,21 @@ export class ReconciliationService {
     cardTxn: AmExTransactionRow,
     ynabTransactions: YnabTransaction[],
   ): ReconciliationMatch[] {
-    const cardAmount = cardTxn.amount;
+    const cardMilliunits = toMilliunits(cardTxn.amount_minor, cardTxn.currency);
     const cardDate = cardTxn.date;
+    // Amounts are compared as integer milliunits, so a one-cent tolerance doesn't depend on float rounding
+    const toleranceMilliunits = YnabClient.amountToMilliunits(this.config.amountTolerance);
 
     return ynabTransactions
       .filter((ynabTxn) => {
-        // Check amount match (convert milliunits to standard units)
         // YNAB expenses are negative, card transactions are positive
         // Compare absolute values to match regardless of sign
-        const ynabAmount = YnabClient.milliunitsToAmount(ynabTxn.amount);
-        const amountDiff = Math.abs(Math.abs(cardAmount) - Math.abs(ynabAmount));
+        const amountDiff = Math.abs(Math.abs(cardMilliunits) - Math.abs(ynabTxn.amount));
 
         // Check date match (within tolerance)
         const dateDiff = Math.abs(this.dateDifference(cardDate, ynabTxn.date));
 
-        return amountDiff <= this.config.amountTolerance && dateDiff <= this.config.dateTolerance;
+        return amountDiff <= toleranceMilliunits && dateDiff <= this.config.dateTolerance;
       })
       .map((ynabTxn) => ({
         cardTransaction: cardTxn,
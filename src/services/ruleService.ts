@@ -0,0 +1,31 @@
+import { getSetting, setSetting } from '../db';
+import { mergeRuleSettings } from '../validator';
+import type { MappingProfile, RuleSettings } from '../types/index';
+
+/**
+ * Settings key the global validation rule overrides are stored under
+ */
+const RULE_SETTINGS_KEY = 'validationRules';
+
+/**
+ * Validation rule overrides that apply to every import
+ */
+export function getGlobalRuleSettings(): RuleSettings {
+  const value = getSetting(RULE_SETTINGS_KEY);
+  return value ? JSON.parse(value) : {};
+}
+
+/**
+ * Replace the global validation rule overrides (rules left out go back to their defaults)
+ */
+export function updateGlobalRuleSettings(settings: RuleSettings): RuleSettings {
+  setSetting(RULE_SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+/**
+ * Rule settings for an import: the global overrides, then the mapping profile's on top
+ */
+export function resolveRuleSettings(profile?: Pick<MappingProfile, 'ruleSettings'> | null): RuleSettings {
+  return mergeRuleSettings(getGlobalRuleSettings(), profile?.ruleSettings);
+}
@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import { streamStatementFile, streamWithProfile } from '../statementParser';
+import type { ParserOptions } from '../parser';
+import { checkTransaction, getRulesetVersion, splitViolations, validateAmExTransaction } from '../validator';
+import {
+  batchInsertTransactions,
+  insertStagedImport,
+  insertStagedRows,
+  refreshStagedDuplicates,
+  getStagedImportById,
+  getStagedRows,
+  getStagedRowById,
+  updateStagedRow,
+  closeStagedImport,
+  getMappingProfileById,
+} from '../db';
+import { logImport, hashFile, supersedePendingTransactions } from './importService';
+import { resolveRuleSettings } from './ruleService';
+import type {
+  AmExTransaction,
+  ImportError,
+  ImportResult,
+  MappingProfile,
+  RuleSettings,
+  StagedImport,
+  StagedImportDetail,
+  StagedRow,
+} from '../types/index';
+
+interface StagingOptions {
+  /** Registered parser name; detected from file contents when omitted */
+  parser?: string;
+  /** Worksheet/header row/date format overrides; detected when omitted */
+  parserOptions?: ParserOptions;
+  /** Column mapping profile for non-AmEx spreadsheets; takes precedence over parser */
+  profile?: MappingProfile;
+  /** Name shown in review and recorded in the import log on commit; defaults to the file's basename */
+  fileName?: string;
+  /** SHA-256 of the file, if the caller already computed it */
+  fileHash?: string;
+}
+
+/**
+ * Corrections to a staged row: replaced transaction fields and/or the dropped flag
+ */
+export interface StagedRowChanges {
+  transaction?: Partial<AmExTransaction>;
+  dropped?: boolean;
+}
+
+/**
+ * Rows staged per insert while reading the file
+ */
+const STAGING_CHUNK_SIZE = 1000;
+
+/**
+ * Parse and validate a statement file into a pending staged import
+ * Nothing is written to transactions until commitStagedImport
+ */
+export function stageStatement(filePath: string, options: StagingOptions = {}): StagedImportDetail {
+  const fileName = options.fileName || filePath.split('/').pop() || 'unknown';
+  const fileSize = fs.statSync(filePath).size;
+
+  const stream = options.profile
+    ? streamWithProfile(filePath, options.profile, options.parserOptions)
+    : streamStatementFile(filePath, options.parser, options.parserOptions);
+
+  // Parse the whole file before creating the staged import, so a parse failure leaves nothing behind
+  const chunks = Array.from(stream.chunks(STAGING_CHUNK_SIZE));
+  const ruleSettings = resolveRuleSettings(options.profile);
+
+  let ordinal = 0;
+  const rowChunks = chunks.map((chunk) =>
+    chunk.transactions.map((transaction) => {
+      ordinal++;
+      const rowNumber = transaction.rowNumber ?? ordinal;
+      const checks = splitViolations(checkTransaction(transaction, undefined, ruleSettings), rowNumber);
+      return { rowNumber, transaction, ...checks };
+    }),
+  );
+
+  const stagedImportId = insertStagedImport({
+    fileName,
+    fileSize,
+    fileHash: options.fileHash ?? hashFile(filePath),
+    profileId: options.profile?.id,
+    source: {
+      parser: stream.parser,
+      worksheet: stream.worksheetName,
+      headerRow: stream.headerRowNumber !== undefined ? stream.headerRowNumber + 1 : undefined,
+    },
+    parseErrors: chunks.flatMap((chunk) =>
+      chunk.errors.map((err) => ({ rowNumber: err.row, error: err.error, reference: undefined } as ImportError)),
+    ),
+    // Parser warnings, then rows that break warning or info rules (those rows stay importable)
+    warnings: [
+      ...chunks.flatMap((chunk) =>
+        (chunk.warnings || []).map((warning) => ({ rowNumber: warning.row, message: warning.message })),
+      ),
+      ...rowChunks.flatMap((rows) => rows.flatMap((row) => row.warnings)),
+    ],
+  });
+
+  for (const rows of rowChunks) {
+    insertStagedRows(
+      stagedImportId,
+      rows.map((row) => ({ rowNumber: row.rowNumber, transaction: row.transaction, errors: row.errors })),
+    );
+  }
+
+  refreshStagedDuplicates(stagedImportId);
+  return getStagedImportDetail(stagedImportId) as StagedImportDetail;
+}
+
+/**
+ * Get a staged import with its rows
+ */
+export function getStagedImportDetail(id: number): StagedImportDetail | null {
+  const staged = getStagedImportById(id);
+  return staged ? { ...staged, rows: getStagedRows(id) } : null;
+}
+
+/**
+ * Fix or drop (or restore) a row of a pending staged import
+ * The row is re-validated and duplicate markers across the import are recomputed
+ */
+export function reviseStagedRow(stagedImportId: number, rowId: number, changes: StagedRowChanges): StagedRow {
+  const staged = assertPending(stagedImportId);
+
+  const row = getStagedRowById(stagedImportId, rowId);
+  if (!row) {
+    throw new Error(`Row ${rowId} not found in staged import ${stagedImportId}`);
+  }
+
+  const transaction = { ...row.transaction, ...changes.transaction };
+
+  updateStagedRow(rowId, {
+    transaction,
+    errors: validateAmExTransaction(transaction, undefined, getStagedRuleSettings(staged)),
+    dropped: changes.dropped ?? row.dropped,
+  });
+  refreshStagedDuplicates(stagedImportId);
+
+  return getStagedRowById(stagedImportId, rowId) as StagedRow;
+}
+
+/**
+ * Insert the kept rows of a pending staged import into transactions and log the import
+ * Rows still invalid, or duplicates of existing transactions, are skipped and reported as in a direct import
+ */
+export function commitStagedImport(stagedImportId: number): ImportResult {
+  const staged = assertPending(stagedImportId);
+  const ruleSettings = getStagedRuleSettings(staged);
+
+  // Transactions may have been imported since the file was staged
+  refreshStagedDuplicates(stagedImportId);
+  const rows = getStagedRows(stagedImportId).filter((row) => !row.dropped);
+
+  const result: ImportResult = {
+    success: false,
+    totalRecords: rows.length,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errors: [...staged.parseErrors],
+    timestamp: new Date().toISOString(),
+    source: staged.source,
+  };
+
+  if (staged.warnings.length > 0) {
+    result.warnings = staged.warnings;
+  }
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const rowsToInsert = validRows.filter((row) => !row.duplicate);
+
+  // Validation errors, then duplicates, then insert errors, matching importAmExStatement
+  result.errors.push(
+    ...rows.flatMap((row) =>
+      validateAmExTransaction(row.transaction, row.rowNumber, ruleSettings).map((message) => ({
+        rowNumber: row.rowNumber,
+        error: message,
+        reference: row.transaction.reference,
+      })),
+    ),
+  );
+
+  validRows
+    .filter((row) => row.duplicate)
+    .forEach((row) => {
+      result.errors.push({
+        rowNumber: 0,
+        error: `Duplicate reference skipped: ${row.transaction.reference}`,
+        reference: row.transaction.reference,
+      });
+      result.skippedRecords++;
+    });
+
+  // Open the log first so committed rows can be linked to it for rollback
+  const logDetails = {
+    parser: staged.source.parser,
+    fileHash: staged.fileHash,
+    rulesetVersion: getRulesetVersion(ruleSettings),
+  };
+  const importLogId = logImport(staged.fileName, staged.fileSize || 0, result, logDetails);
+
+  if (rowsToInsert.length > 0) {
+    const insertResult = batchInsertTransactions(rowsToInsert.map((row) => row.transaction), importLogId);
+    result.importedRecords = insertResult.inserted;
+
+    result.errors.push(
+      ...insertResult.errors.map((err) => ({
+        rowNumber: rowsToInsert[err.index].rowNumber,
+        error: err.error,
+        reference: err.reference,
+      })),
+    );
+    result.skippedRecords += insertResult.errors.length;
+
+    const failedIndices = new Set(insertResult.errors.map((err) => err.index));
+    const superseded = supersedePendingTransactions(
+      rowsToInsert.filter((_, index) => !failedIndices.has(index)).map((row) => row.transaction),
+    );
+    if (superseded > 0) {
+      result.supersededRecords = superseded;
+    }
+  }
+
+  if (rows.length === 0) {
+    result.errors.push({ rowNumber: 0, error: 'No transactions left to import', reference: undefined });
+  }
+
+  result.success = result.importedRecords > 0 || result.errors.length === 0;
+
+  closeStagedImport(stagedImportId, 'committed');
+  logImport(staged.fileName, staged.fileSize || 0, result, logDetails, importLogId);
+
+  return result;
+}
+
+/**
+ * Discard a pending staged import and its rows
+ */
+export function discardStagedImport(stagedImportId: number): StagedImport {
+  assertPending(stagedImportId);
+  closeStagedImport(stagedImportId, 'discarded');
+  return getStagedImportById(stagedImportId) as StagedImport;
+}
+
+/**
+ * Validation rule settings for a staged import: the global ones, with its mapping profile's on top
+ */
+function getStagedRuleSettings(staged: StagedImport): RuleSettings {
+  return resolveRuleSettings(staged.profileId ? getMappingProfileById(staged.profileId) : undefined);
+}
+
+/**
+ * Get a staged import, throwing if it is missing or already committed/discarded
+ */
+function assertPending(stagedImportId: number): StagedImport {
+  const staged = getStagedImportById(stagedImportId);
+
+  if (!staged) {
+    throw new Error(`Staged import ${stagedImportId} not found`);
+  }
+  if (staged.status !== 'pending') {
+    throw new Error(`Staged import ${stagedImportId} is already ${staged.status}`);
+  }
+
+  return staged;
+}
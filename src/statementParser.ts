@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import {
+  parseAmExWorkbook,
+  parseAmExCsv,
+  parseMappedStatement,
+  streamAmExWorkbook,
+  streamAmExCsv,
+  streamMappedStatement,
+  isAmExCsvHeader,
+} from './parser';
+import type { ParserOptions, StatementStream } from './parser';
+import { parseOfxStatement, isOfxContent } from './ofxParser';
+import type { ParsedStatement, StatementParseResult, MappingProfileInput } from './types/index';
+
+/**
+ * Statement format registered for auto-detection
+ */
+export interface StatementParser {
+  /** Unique name, stored on the import log */
+  name: string;
+  /** Return true if the start of the file belongs to this format */
+  detect: (head: Buffer) => boolean;
+  parse: (filePath: string, options?: ParserOptions) => StatementParseResult;
+  /** Chunked parsing for large files; parse() is wrapped as a single chunk when omitted */
+  stream?: (filePath: string, options?: ParserOptions) => StatementStream;
+}
+
+/**
+ * Statement stream tagged with the parser that opened it
+ */
+export interface ParsedStatementStream extends StatementStream {
+  parser: string;
+}
+
+/**
+ * Number of bytes read from the start of a file for format detection
+ */
+const DETECTION_BYTES = 4096;
+
+const parsers: StatementParser[] = [];
+
+/**
+ * Register a statement parser
+ * Parsers registered later are tried first, so issuer-specific formats can
+ * claim files before the generic built-ins. Re-registering a name replaces it.
+ */
+export function registerParser(parser: StatementParser): void {
+  const existing = parsers.findIndex((p) => p.name === parser.name);
+  if (existing !== -1) {
+    parsers.splice(existing, 1);
+  }
+  parsers.unshift(parser);
+}
+
+/**
+ * Get a registered parser by name
+ */
+export function getParser(name: string): StatementParser | undefined {
+  return parsers.find((p) => p.name === name);
+}
+
+/**
+ * Names of all registered parsers, in detection order
+ */
+export function getParserNames(): string[] {
+  return parsers.map((p) => p.name);
+}
+
+/**
+ * Detect the parser for a file from its contents (extension is ignored)
+ */
+export function detectParser(filePath: string): StatementParser | undefined {
+  const head = readFileHead(filePath);
+  return parsers.find((p) => p.detect(head));
+}
+
+/**
+ * Parse a statement file with the detected (or explicitly named) parser
+ */
+export function parseStatementFile(
+  filePath: string,
+  parserName?: string,
+  options: ParserOptions = {},
+): ParsedStatement {
+  const parser = resolveParser(filePath, parserName);
+  return { parser: parser.name, ...parser.parse(filePath, options) };
+}
+
+/**
+ * Open a statement file for chunked parsing with the detected (or explicitly named) parser
+ */
+export function streamStatementFile(
+  filePath: string,
+  parserName?: string,
+  options: ParserOptions = {},
+): ParsedStatementStream {
+  const parser = resolveParser(filePath, parserName);
+  const stream = parser.stream ? parser.stream(filePath, options) : singleChunkStream(parser.parse(filePath, options));
+  return { parser: parser.name, ...stream };
+}
+
+/**
+ * Parse a bank spreadsheet (XLSX or CSV) with a column mapping profile, bypassing detection
+ */
+export function parseWithProfile(
+  filePath: string,
+  profile: MappingProfileInput,
+  options: ParserOptions = {},
+): ParsedStatement {
+  return { parser: `profile:${profile.name}`, ...parseMappedStatement(filePath, profile, options) };
+}
+
+/**
+ * Open a bank spreadsheet (XLSX or CSV) for chunked parsing with a column mapping profile
+ */
+export function streamWithProfile(
+  filePath: string,
+  profile: MappingProfileInput,
+  options: ParserOptions = {},
+): ParsedStatementStream {
+  return { parser: `profile:${profile.name}`, ...streamMappedStatement(filePath, profile, options) };
+}
+
+/**
+ * Find the requested parser, or detect one from the file contents
+ */
+function resolveParser(filePath: string, parserName?: string): StatementParser {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  if (parserName) {
+    const parser = getParser(parserName);
+    if (!parser) {
+      throw new Error(`Unknown statement parser "${parserName}". Available: ${getParserNames().join(', ')}`);
+    }
+    return parser;
+  }
+
+  const parser = detectParser(filePath);
+  if (!parser) {
+    throw new Error('Unrecognised statement format (expected AmEx XLSX, CSV or OFX/QFX)');
+  }
+  return parser;
+}
+
+/**
+ * Present an already parsed statement as a stream with one chunk
+ */
+function singleChunkStream(result: StatementParseResult): StatementStream {
+  const totalRows = result.transactions.length + result.errors.length;
+
+  return {
+    worksheetName: result.worksheetName,
+    headerRowNumber: result.headerRowNumber,
+    totalRows,
+    *chunks() {
+      yield { ...result, rowsRead: totalRows };
+    },
+  };
+}
+
+/**
+ * Read the first bytes of a file for format detection
+ */
+function readFileHead(filePath: string): Buffer {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(DETECTION_BYTES);
+    const bytesRead = fs.readSync(fd, buffer, 0, DETECTION_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Built-in parsers (registered in reverse priority order)
+registerParser({
+  name: 'amex-csv',
+  detect: (head) => isAmExCsvHeader(head.toString('utf-8')),
+  parse: (filePath, options) => parseAmExCsv(filePath, options),
+  stream: (filePath, options) => streamAmExCsv(filePath, options),
+});
+
+registerParser({
+  name: 'ofx',
+  detect: (head) => isOfxContent(head.toString('utf-8')),
+  parse: (filePath) => parseOfxStatement(filePath),
+});
+
+registerParser({
+  name: 'amex-xlsx',
+  // XLSX workbooks are ZIP archives
+  detect: (head) => head.length >= 4 && head.readUInt32LE(0) === 0x04034b50,
+  parse: (filePath, options) => parseAmExWorkbook(filePath, options),
+  stream: (filePath, options) => streamAmExWorkbook(filePath, options),
+});
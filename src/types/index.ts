@@ -13,6 +13,10 @@ export interface YnabExpenseEntry {
 }
 
 // AmEx Statement Types
+// pending charges are replaced by their posted version (new reference, possibly new amount) once it is imported;
+// the pending row is kept as superseded (hidden from listings) so rolling back that import can restore it
+export type TransactionStatus = 'pending' | 'posted' | 'superseded';
+
 export interface AmExTransaction {
   date: string;
   dateProcessed: string;
@@ -20,6 +24,7 @@ export interface AmExTransaction {
   cardMember: string;
   accountNumber: string;
   amount: number;
+  currency?: string; // ISO 4217 code of amount, when the file states it; the statement currency otherwise
   foreignSpendAmount?: string;
   commission?: string;
   exchangeRate?: string;
@@ -30,6 +35,8 @@ export interface AmExTransaction {
   postcode?: string;
   country: string;
   reference: string;
+  status?: TransactionStatus; // set by the parser; posted when omitted
+  rowNumber?: number; // row of the file it was read from, as the parser numbers rows in its errors
 }
 
 export interface AmExTransactionRow {
@@ -39,10 +46,16 @@ export interface AmExTransactionRow {
   description: string;
   card_member: string;
   account_number: string;
-  amount: number;
-  foreign_spend_amount?: string;
+  amount: number; // in currency units, from amount_minor
+  amount_minor: number; // integer minor units (cents for AUD)
+  currency: string;
+  foreign_spend_amount?: string; // as written on the statement
+  foreign_amount_minor?: number; // parsed from foreign_spend_amount, in minor units of foreign_currency
+  foreign_currency?: string;
   commission?: string;
+  commission_minor?: number; // in minor units of currency
   exchange_rate?: string;
+  fx_rate?: number; // parsed from exchange_rate
   additional_information?: string;
   appears_on_statement: string;
   address?: string;
@@ -55,6 +68,98 @@ export interface AmExTransactionRow {
   reconciled?: boolean;
   ynab_transaction_id?: string;
   reconciled_at?: string;
+  import_id?: number; // import log that inserted the row
+  status: TransactionStatus;
+  pending_reference?: string; // reference of the pending row this posted row superseded
+}
+
+// Field changed by an upsert import; values are stored as text (null when blank)
+export interface TransactionFieldChange {
+  field: keyof AmExTransactionRow;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+export interface TransactionChange extends TransactionFieldChange {
+  id: number;
+  transactionId: number;
+  reference: string;
+  importId?: number; // import log of the upsert that made the change
+  changedAt: string;
+}
+
+// Filters for listing transactions; every filter given must match
+export interface TransactionFilters {
+  search?: string; // FTS5 MATCH expression (see toFtsQuery)
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  cardMember?: string; // case-insensitive
+  accountNumber?: string;
+  minAmount?: number; // in currency units, inclusive
+  maxAmount?: number; // in currency units, inclusive
+  country?: string; // case-insensitive
+  reconciled?: boolean;
+  importId?: number;
+}
+
+export type TransactionSortField = 'date' | 'dateProcessed' | 'amount' | 'description' | 'cardMember' | 'createdAt';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TransactionSort {
+  field: TransactionSortField;
+  direction: SortDirection;
+}
+
+// Sort value and ID of the last row of a page; the next page starts after it (keyset pagination)
+export interface PageKey {
+  value: string | number;
+  id: number;
+}
+
+// Fields read from a statement's columns (the currency comes from the file format and the row number from
+// the row's position, not a column)
+export type StatementField = Exclude<keyof AmExTransaction, 'currency' | 'rowNumber'>;
+
+// Cell values of a statement row, keyed by the transaction field each column maps to
+export type RawTransactionValues = Partial<Record<StatementField, string>>;
+
+export interface StatementParseResult {
+  transactions: AmExTransaction[];
+  errors: Array<{ row: number; error: string; values?: RawTransactionValues }>; // values: the row's cells, if read
+  warnings?: Array<{ row: number; message: string }>; // rows parsed, but worth a second look
+  worksheetName?: string;
+  headerRowNumber?: number; // 0-indexed
+  summary?: StatementSummary; // totals stated by the file (AmEx XLSX only)
+}
+
+// Totals a statement states outside its transaction rows
+export interface StatementSummary {
+  statementBalance?: number;
+  totalAmount?: number;
+  cardMemberTotals: Array<{ cardMember: string; accountNumber?: string; total: number }>;
+}
+
+// Stated statement total that the imported rows don't add up to
+export interface StatementIntegrityError {
+  cardMember?: string; // unset for the statement's overall total
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+export interface StatementChunk extends StatementParseResult {
+  rowsRead: number; // data rows consumed so far, including this chunk
+}
+
+export interface ParsedStatement extends StatementParseResult {
+  parser: string;
+}
+
+export interface ImportSource {
+  parser: string;
+  worksheet?: string;
+  headerRow?: number; // 1-indexed, as shown in the spreadsheet
 }
 
 export interface ImportResult {
@@ -63,7 +168,84 @@ export interface ImportResult {
   importedRecords: number;
   skippedRecords: number;
   errors: ImportError[];
+  warnings?: ImportWarning[];
   timestamp: string;
+  source?: ImportSource;
+  duplicateOfImportId?: number; // set when the same file was already imported and the import was skipped
+  supersededRecords?: number; // pending rows replaced by their posted version
+  updatedRecords?: number; // existing rows changed in place (upsert imports only)
+  statementSummary?: StatementSummary;
+  integrityErrors?: StatementIntegrityError[]; // also listed in errors
+}
+
+export interface BatchImportResult extends ImportResult {
+  batchId: string;
+  files: Array<{ fileName: string; result: ImportResult }>; // aggregate counts are on the result itself
+}
+
+// Steps each chunk of a statement goes through; progress is reported after each one
+export type ImportStage = 'parsed' | 'validated' | 'deduped' | 'inserted';
+
+export interface ImportProgress {
+  stage: ImportStage;
+  fileName: string; // import log file name (the entry name for files from a ZIP archive)
+  rowsRead: number;
+  totalRows: number;
+  importedRecords: number;
+  skippedRecords: number;
+}
+
+// Background import started with POST /api/import (async=true)
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  status: ImportJobStatus;
+  progress?: ImportProgress; // latest progress update
+  result?: ImportResult | BatchImportResult; // set once completed
+  error?: string; // set if the import threw
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportWarning {
+  rowNumber: number;
+  message: string;
+  ruleId?: string; // validation rule that raised it (unset for parser warnings)
+  severity?: 'warning' | 'info'; // treated as a warning when unset
+}
+
+// Validation rules: errors reject a row, warnings and info import it and are reported
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+// Numeric options of a rule, such as tolerances
+export type RuleParams = Record<string, number>;
+
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  params?: RuleParams; // merged over the rule's default params
+}
+
+// Overrides of the built-in rule defaults, keyed by rule ID
+export type RuleSettings = Record<string, RuleSetting>;
+
+export interface ValidationRuleInfo {
+  id: string;
+  description: string;
+  enabled: boolean; // with the given settings applied
+  severity: RuleSeverity;
+  defaultEnabled: boolean;
+  defaultSeverity: RuleSeverity;
+  params?: RuleParams; // only for rules that take params
+  defaultParams?: RuleParams;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  severity: RuleSeverity;
+  message: string;
 }
 
 export interface ImportError {
@@ -72,6 +254,64 @@ export interface ImportError {
   reference?: string;
 }
 
+// Staged imports: parsed rows held for review until committed to transactions
+export type StagedImportStatus = 'pending' | 'committed' | 'discarded';
+
+export interface StagedImport {
+  id: number;
+  fileName: string;
+  fileSize?: number;
+  fileHash?: string;
+  profileId?: number; // mapping profile the file was read with; its rule settings apply to the review
+  status: StagedImportStatus;
+  source: ImportSource;
+  parseErrors: ImportError[]; // rows that could not be parsed, so were not staged
+  warnings: ImportWarning[];
+  rowCount: number;
+  invalidCount: number; // rows with validation errors (dropped rows excluded)
+  duplicateCount: number; // rows whose reference is already imported or staged earlier in the file
+  droppedCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StagedRow {
+  id: number;
+  stagedImportId: number;
+  rowNumber: number; // position among parsed rows, as in ImportResult errors
+  transaction: AmExTransaction;
+  errors: string[];
+  duplicate: boolean;
+  dropped: boolean;
+}
+
+export interface StagedImportDetail extends StagedImport {
+  rows: StagedRow[]; // emptied once the import is committed or discarded
+}
+
+// Column mapping profiles for non-AmEx spreadsheets
+export type MappableField = Exclude<StatementField, 'reference'>;
+
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD MMM YYYY';
+
+// charges-positive: purchases are positive (AmEx); charges-negative: purchases are negative (most banks)
+export type SignConvention = 'charges-positive' | 'charges-negative';
+
+export interface MappingProfile {
+  id: number;
+  name: string;
+  columns: Partial<Record<MappableField, string>>; // field -> spreadsheet column header
+  referenceColumn?: string; // references are generated from a row fingerprint when omitted
+  dateFormat: DateFormat;
+  signConvention: SignConvention;
+  defaults?: Partial<Record<'cardMember' | 'accountNumber' | 'country', string>>; // used when column is absent
+  ruleSettings?: RuleSettings; // validation rule overrides for this profile's files, on top of the global ones
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MappingProfileInput = Omit<MappingProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
 export interface ImportLog {
   id: number;
   fileName: string;
@@ -82,6 +322,44 @@ export interface ImportLog {
   errorCount: number;
   errors?: ImportError[];
   importTimestamp: string;
+  parser?: string;
+  batchId?: string; // shared by every file imported from one ZIP archive
+  rolledBackAt?: string;
+  rolledBackRecords?: number; // transactions deleted by the rollback
+  fileHash?: string; // SHA-256 of the imported file
+  rulesetVersion?: string; // validation rules the import was checked with
+  failedRowCount?: number; // rejected rows not yet corrected and resubmitted
+}
+
+// Rows an import rejected, kept so they can be corrected and resubmitted
+export type FailedRowStage = 'parse' | 'validation';
+
+export interface FailedRow {
+  id: number;
+  importId: number;
+  rowNumber: number; // as in the import's errors
+  stage: FailedRowStage; // parse: raw cell values; validation: the parsed (normalized) values
+  values: RawTransactionValues;
+  errors: string[];
+  profileId?: number; // import's mapping profile: its rule settings apply, and parse failures are read with it
+  dateFormat?: DateFormat; // date format the file was read with
+  resolvedReference?: string; // set once the row is resubmitted and imported
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FailedRowResubmitResult extends ImportResult {
+  rows: FailedRow[]; // the resubmitted rows after the attempt
+}
+
+export interface RollbackResult {
+  importLogId: number;
+  deletedRecords: number;
+  reconciledRecords: number; // reconciled transactions deleted (only non-zero when forced)
+  revertedRecords: number; // existing transactions whose upsert changes were undone
+  restoredRecords: number; // superseded pending transactions restored because their posted version was deleted
+  rolledBackAt: string;
 }
 
 // YNAB API Types
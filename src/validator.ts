@@ -1,91 +1,398 @@
-import type { AmExTransaction } from './types/index';
+import * as crypto from 'crypto';
+import { DATE_FORMATS } from './parser';
+import { parseDecimal, parseForeignSpend } from './fx';
+import type { ForeignSpend } from './fx';
+import type {
+  AmExTransaction,
+  ImportWarning,
+  MappingProfileInput,
+  RuleParams,
+  RuleSettings,
+  RuleSeverity,
+  RuleViolation,
+  ValidationRuleInfo,
+} from './types/index';
+
+const SIGN_CONVENTIONS = ['charges-positive', 'charges-negative'];
 
 /**
- * Validate AmEx transaction data
+ * Version of the built-in rules; bump when a rule is added, removed or changes meaning
  */
-export function validateAmExTransaction(transaction: AmExTransaction, rowNumber?: number): string[] {
-  const errors: string[] = [];
-  const prefix = rowNumber ? `Row ${rowNumber}: ` : '';
+export const RULESET_VERSION = 2;
 
-  // Validate required fields
-  if (!transaction.date || transaction.date.trim() === '') {
-    errors.push(`${prefix}Date is required`);
-  }
+const RULE_SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info'];
 
-  if (!transaction.dateProcessed || transaction.dateProcessed.trim() === '') {
-    errors.push(`${prefix}Date Processed is required`);
-  }
+/**
+ * A check on a parsed transaction
+ * Its severity decides what a failure does: errors reject the row, warnings and info import it and
+ * are reported with the result. Enabled, severity and params are defaults that settings can override.
+ */
+interface ValidationRule {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  enabled: boolean;
+  params?: RuleParams;
+  /** Message for a transaction that breaks the rule, or null if it passes */
+  check: (transaction: AmExTransaction, params: RuleParams) => string | null;
+}
 
-  if (!transaction.description || transaction.description.trim() === '') {
-    errors.push(`${prefix}Description is required`);
-  }
+const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'date-required',
+    description: 'Date is present',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (isBlank(t.date) ? 'Date is required' : null),
+  },
+  {
+    id: 'date-processed-required',
+    description: 'Date Processed is present',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (isBlank(t.dateProcessed) ? 'Date Processed is required' : null),
+  },
+  {
+    id: 'description-required',
+    description: 'Description is present',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (isBlank(t.description) ? 'Description is required' : null),
+  },
+  {
+    id: 'card-member-required',
+    description: 'Card Member is present',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (isBlank(t.cardMember) ? 'Card Member is required' : null),
+  },
+  {
+    id: 'account-required',
+    description: 'Account # is present',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (isBlank(t.accountNumber) ? 'Account # is required' : null),
+  },
+  {
+    id: 'amount-numeric',
+    description: 'Amount is a number',
+    severity: 'error',
+    enabled: true,
+    check: (t) =>
+      t.amount === undefined || t.amount === null || isNaN(t.amount) ? 'Amount must be a valid number' : null,
+  },
+  {
+    // Credits and refunds are negative, so this is off unless a file should only hold charges
+    id: 'amount-non-negative',
+    description: 'Amount is not negative (no credits or refunds)',
+    severity: 'warning',
+    enabled: false,
+    check: (t) => (t.amount < 0 ? 'Amount cannot be negative' : null),
+  },
+  {
+    id: 'reference-required',
+    description: 'Reference is present',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (isBlank(t.reference) ? 'Reference is required' : null),
+  },
+  {
+    // AmEx references seem to be 15+ alphanumeric characters, but allow flexibility
+    id: 'reference-alphanumeric',
+    description: 'Reference contains only letters and digits',
+    severity: 'error',
+    enabled: true,
+    check: (t) =>
+      t.reference && !/^[A-Za-z0-9]+$/.test(t.reference.trim())
+        ? 'Reference must contain only alphanumeric characters'
+        : null,
+  },
+  {
+    // Domestic transactions usually have no address or country
+    id: 'country-required',
+    description: 'Country is present',
+    severity: 'warning',
+    enabled: false,
+    check: (t) => (isBlank(t.country) ? 'Country is required' : null),
+  },
+  {
+    id: 'date-iso',
+    description: 'Date is an ISO 8601 date (YYYY-MM-DD)',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (t.date && !isValidISODate(t.date) ? 'Date must be in ISO 8601 format (YYYY-MM-DD)' : null),
+  },
+  {
+    id: 'date-processed-iso',
+    description: 'Date Processed is an ISO 8601 date (YYYY-MM-DD)',
+    severity: 'error',
+    enabled: true,
+    check: (t) =>
+      t.dateProcessed && !isValidISODate(t.dateProcessed)
+        ? 'Date Processed must be in ISO 8601 format (YYYY-MM-DD)'
+        : null,
+  },
+  {
+    id: 'foreign-spend-amount-numeric',
+    description: 'Foreign Spend Amount is a number',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (!isNumericText(t.foreignSpendAmount) ? 'Foreign Spend Amount must be a valid number' : null),
+  },
+  {
+    id: 'commission-numeric',
+    description: 'Commission is a number',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (!isNumericText(t.commission) ? 'Commission must be a valid number' : null),
+  },
+  {
+    id: 'exchange-rate-numeric',
+    description: 'Exchange Rate is a number',
+    severity: 'error',
+    enabled: true,
+    check: (t) => (!isNumericText(t.exchangeRate) ? 'Exchange Rate must be a valid number' : null),
+  },
+  {
+    // Tolerances cover rounding of the published rate: the larger of the two applies
+    id: 'fx-amount-consistent',
+    description: 'Amount equals Foreign Spend Amount × Exchange Rate + Commission',
+    severity: 'warning',
+    enabled: true,
+    params: { tolerance: 0.02, tolerancePercent: 0.1 },
+    check: checkFxAmount,
+  },
+  {
+    // feePercent is the card's foreign transaction fee; a profile can set its own card's fee
+    id: 'fx-commission-rate',
+    description: "Commission is the card's FX fee percentage of the converted amount",
+    severity: 'warning',
+    enabled: true,
+    params: { feePercent: 3, tolerancePercent: 0.05 },
+    check: checkFxCommission,
+  },
+];
 
-  if (!transaction.cardMember || transaction.cardMember.trim() === '') {
-    errors.push(`${prefix}Card Member is required`);
-  }
+/**
+ * The built-in rules with settings applied (unknown rule IDs in settings are ignored)
+ */
+export function getValidationRules(settings: RuleSettings = {}): ValidationRuleInfo[] {
+  return VALIDATION_RULES.map((rule) => ({
+    id: rule.id,
+    description: rule.description,
+    enabled: settings[rule.id]?.enabled ?? rule.enabled,
+    severity: settings[rule.id]?.severity ?? rule.severity,
+    defaultEnabled: rule.enabled,
+    defaultSeverity: rule.severity,
+    ...(rule.params && { params: { ...rule.params, ...settings[rule.id]?.params }, defaultParams: rule.params }),
+  }));
+}
 
-  if (!transaction.accountNumber || transaction.accountNumber.trim() === '') {
-    errors.push(`${prefix}Account # is required`);
+/**
+ * Combine rule settings; later layers (e.g. a mapping profile over the global settings) win per rule
+ */
+export function mergeRuleSettings(...layers: Array<RuleSettings | undefined>): RuleSettings {
+  const merged: RuleSettings = {};
+  for (const layer of layers) {
+    for (const [id, setting] of Object.entries(layer || {})) {
+      const params = merged[id]?.params || setting.params ? { ...merged[id]?.params, ...setting.params } : undefined;
+      merged[id] = { ...merged[id], ...setting, ...(params && { params }) };
+    }
   }
+  return merged;
+}
 
-  if (transaction.amount === undefined || transaction.amount === null || isNaN(transaction.amount)) {
-    errors.push(`${prefix}Amount must be a valid number`);
+/**
+ * Identify the active ruleset: the built-in rules' version plus a hash of which rules are on, at which
+ * severity and with which params
+ */
+export function getRulesetVersion(settings: RuleSettings = {}): string {
+  const active = getValidationRules(settings)
+    .map((rule) => {
+      const state = `${rule.id}:${rule.enabled ? rule.severity : 'off'}`;
+      return rule.enabled && rule.params ? `${state}:${JSON.stringify(rule.params)}` : state;
+    })
+    .join(',');
+  return `v${RULESET_VERSION}-${crypto.createHash('sha256').update(active).digest('hex').slice(0, 8)}`;
+}
+
+/**
+ * Check rule settings from a request or mapping profile
+ */
+export function validateRuleSettings(settings: unknown): string[] {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return ['Rule settings must be an object keyed by rule ID'];
   }
 
-  // Allow negative amounts (credits/refunds)
-  // if (transaction.amount < 0) {
-  //   errors.push(`${prefix}Amount cannot be negative`);
-  // }
+  const errors: string[] = [];
 
-  if (!transaction.reference || transaction.reference.trim() === '') {
-    errors.push(`${prefix}Reference is required`);
+  for (const [id, setting] of Object.entries(settings)) {
+    const rule = VALIDATION_RULES.find((r) => r.id === id);
+    if (!rule) {
+      errors.push(`Unknown validation rule "${id}"`);
+    } else if (!setting || typeof setting !== 'object' || Array.isArray(setting)) {
+      errors.push(`Settings for rule "${id}" must be an object`);
+    } else {
+      if (setting.enabled !== undefined && typeof setting.enabled !== 'boolean') {
+        errors.push(`enabled for rule "${id}" must be a boolean`);
+      }
+      if (setting.severity !== undefined && !RULE_SEVERITIES.includes(setting.severity)) {
+        errors.push(`severity for rule "${id}" must be one of: ${RULE_SEVERITIES.join(', ')}`);
+      }
+      if (setting.params !== undefined) {
+        errors.push(...validateRuleParams(rule, setting.params));
+      }
+    }
   }
 
-  // Country is optional if address is empty (domestic transactions)
-  // if (!transaction.country || transaction.country.trim() === '') {
-  //   errors.push(`${prefix}Country is required`);
-  // }
+  return errors;
+}
 
-  // Validate date formats (ISO 8601)
-  if (transaction.date && !isValidISODate(transaction.date)) {
-    errors.push(`${prefix}Date must be in ISO 8601 format (YYYY-MM-DD)`);
-  }
+/**
+ * Run the enabled rules on a transaction
+ */
+export function checkTransaction(
+  transaction: AmExTransaction,
+  rowNumber?: number,
+  settings: RuleSettings = {},
+): RuleViolation[] {
+  const prefix = rowNumber ? `Row ${rowNumber}: ` : '';
 
-  if (transaction.dateProcessed && !isValidISODate(transaction.dateProcessed)) {
-    errors.push(`${prefix}Date Processed must be in ISO 8601 format (YYYY-MM-DD)`);
-  }
+  return VALIDATION_RULES.flatMap((rule) => {
+    const setting = settings[rule.id];
+    if (!(setting?.enabled ?? rule.enabled)) return [];
 
-  // Validate reference format (should be unique and contain alphanumeric)
-  if (transaction.reference && !/^[A-Z0-9]{15,}$/.test(transaction.reference.trim())) {
-    // AmEx references seem to be 15+ alphanumeric characters, but allow flexibility
-    if (!/^[A-Za-z0-9]+$/.test(transaction.reference.trim())) {
-      errors.push(`${prefix}Reference must contain only alphanumeric characters`);
-    }
-  }
+    const message = rule.check(transaction, { ...rule.params, ...setting?.params });
+    if (!message) return [];
 
-  // Validate optional numeric fields
-  if (transaction.foreignSpendAmount) {
-    const numStr = transaction.foreignSpendAmount.trim().replace(/[^\d.,]/g, '');
-    if (numStr && isNaN(parseFloat(numStr))) {
-      errors.push(`${prefix}Foreign Spend Amount must be a valid number`);
-    }
-  }
+    return [{ ruleId: rule.id, severity: setting?.severity ?? rule.severity, message: prefix + message }];
+  });
+}
 
-  if (transaction.commission) {
-    const numStr = transaction.commission.trim().replace(/[^\d.,]/g, '');
-    if (numStr && isNaN(parseFloat(numStr))) {
-      errors.push(`${prefix}Commission must be a valid number`);
-    }
+/**
+ * Split rule violations into error messages (the row is rejected) and warnings reported with the imported row
+ */
+export function splitViolations(
+  violations: RuleViolation[],
+  rowNumber: number,
+): { errors: string[]; warnings: ImportWarning[] } {
+  return {
+    errors: violations.filter((violation) => violation.severity === 'error').map((violation) => violation.message),
+    warnings: violations
+      .filter((violation) => violation.severity !== 'error')
+      .map((violation) => ({
+        rowNumber,
+        message: violation.message,
+        ruleId: violation.ruleId,
+        severity: violation.severity as 'warning' | 'info',
+      })),
+  };
+}
+
+/**
+ * Validate AmEx transaction data
+ * Returns the messages of error-severity rules only; warnings and info don't reject a row
+ */
+export function validateAmExTransaction(
+  transaction: AmExTransaction,
+  rowNumber?: number,
+  settings: RuleSettings = {},
+): string[] {
+  return checkTransaction(transaction, rowNumber, settings)
+    .filter((violation) => violation.severity === 'error')
+    .map((violation) => violation.message);
+}
+
+/**
+ * Check params against the ones a rule takes: known names, non-negative numbers
+ */
+function validateRuleParams(rule: ValidationRule, params: unknown): string[] {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    return [`params for rule "${rule.id}" must be an object`];
   }
 
-  if (transaction.exchangeRate) {
-    const numStr = transaction.exchangeRate.trim().replace(/[^\d.,]/g, '');
-    if (numStr && isNaN(parseFloat(numStr))) {
-      errors.push(`${prefix}Exchange Rate must be a valid number`);
+  const names = Object.keys(rule.params || {});
+  return Object.entries(params).flatMap(([name, value]) => {
+    if (!names.includes(name)) {
+      return [`Unknown param "${name}" for rule "${rule.id}"`];
     }
-  }
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      return [`Param "${name}" for rule "${rule.id}" must be a non-negative number`];
+    }
+    return [];
+  });
+}
 
-  return errors;
+/**
+ * Foreign spend, exchange rate and commission of a foreign currency transaction
+ * Returns null unless the foreign spend and a positive rate are both present
+ */
+function readForeignExchange(
+  transaction: AmExTransaction,
+): { spend: ForeignSpend; rate: number; converted: number; commission: number | null } | null {
+  const spend = parseForeignSpend(transaction.foreignSpendAmount);
+  const rate = parseDecimal(transaction.exchangeRate);
+  if (!spend || rate === null || rate <= 0) return null;
+
+  const commission = parseDecimal(transaction.commission);
+  return {
+    spend,
+    rate,
+    converted: Math.abs(spend.amount) * rate,
+    commission: commission === null ? null : Math.abs(commission),
+  };
+}
+
+/**
+ * Check that converting the foreign spend and adding the commission gives the charged amount
+ */
+function checkFxAmount(transaction: AmExTransaction, params: RuleParams): string | null {
+  const fx = readForeignExchange(transaction);
+  if (!fx) return null;
+
+  const amount = Math.abs(transaction.amount);
+  const expected = fx.converted + (fx.commission ?? 0);
+  const allowed = Math.max(params.tolerance, (amount * params.tolerancePercent) / 100);
+  // Small epsilon so float noise in the conversion doesn't tip a difference equal to the tolerance over it
+  if (Math.abs(amount - expected) <= allowed + 1e-9) return null;
+
+  const spend = fx.spend.currency ? `${fx.spend.amount} ${fx.spend.currency}` : String(fx.spend.amount);
+  return (
+    `Amount ${amount.toFixed(2)} does not match Foreign Spend Amount ${spend} × Exchange Rate ${fx.rate}` +
+    ` + Commission ${(fx.commission ?? 0).toFixed(2)} = ${expected.toFixed(2)}`
+  );
+}
+
+/**
+ * Check that the commission is the expected percentage of the converted amount
+ */
+function checkFxCommission(transaction: AmExTransaction, params: RuleParams): string | null {
+  const fx = readForeignExchange(transaction);
+  if (!fx || fx.commission === null || fx.converted === 0) return null;
+
+  const percent = (fx.commission / fx.converted) * 100;
+  if (Math.abs(percent - params.feePercent) <= params.tolerancePercent + 1e-9) return null;
+
+  return (
+    `Commission ${fx.commission.toFixed(2)} is ${percent.toFixed(2)}% of the converted amount ` +
+    `${fx.converted.toFixed(2)}, expected ${params.feePercent}%`
+  );
+}
+
+/**
+ * Whether a field is missing or blank
+ */
+function isBlank(value: string | undefined): boolean {
+  return !value || value.trim() === '';
+}
+
+/**
+ * Whether an optional numeric text field is blank or holds a number (currency symbols and codes ignored)
+ */
+function isNumericText(value: string | undefined): boolean {
+  if (!value) return true;
+  const numStr = value.trim().replace(/[^\d.,]/g, '');
+  return !numStr || !isNaN(parseFloat(numStr));
 }
 
 /**
@@ -99,20 +406,76 @@ function isValidISODate(dateStr: string): boolean {
   return !isNaN(date.getTime());
 }
 
+/**
+ * Run the rules on a batch of transactions
+ * Errors are grouped per transaction (those rows are rejected); warnings and info are listed per row
+ */
+export function checkTransactionBatch(
+  transactions: AmExTransaction[],
+  firstIndex = 0,
+  settings: RuleSettings = {},
+): { errors: Array<{ index: number; errors: string[] }>; warnings: ImportWarning[] } {
+  const errors: Array<{ index: number; errors: string[] }> = [];
+  const warnings: ImportWarning[] = [];
+
+  // firstIndex offsets indexes when validating a statement chunk by chunk; messages use the row the parser
+  // read each transaction from, falling back to its position
+  transactions.forEach((transaction, i) => {
+    const index = firstIndex + i;
+    const rowNumber = transaction.rowNumber ?? index + 1;
+    const checks = splitViolations(checkTransaction(transaction, rowNumber, settings), rowNumber);
+
+    if (checks.errors.length > 0) {
+      errors.push({ index, errors: checks.errors });
+    }
+    warnings.push(...checks.warnings);
+  });
+
+  return { errors, warnings };
+}
+
 /**
  * Validate batch of transactions
  */
 export function validateTransactionBatch(
   transactions: AmExTransaction[],
+  firstIndex = 0,
+  settings: RuleSettings = {},
 ): Array<{ index: number; errors: string[] }> {
-  const validationErrors: Array<{ index: number; errors: string[] }> = [];
+  return checkTransactionBatch(transactions, firstIndex, settings).errors;
+}
+
+/**
+ * Validate a column mapping profile before it is saved
+ */
+export function validateMappingProfile(profile: Partial<MappingProfileInput>): string[] {
+  const errors: string[] = [];
+
+  if (!profile.name || typeof profile.name !== 'string' || profile.name.trim() === '') {
+    errors.push('Name is required');
+  }
 
-  transactions.forEach((transaction, index) => {
-    const errors = validateAmExTransaction(transaction, index + 1);
-    if (errors.length > 0) {
-      validationErrors.push({ index, errors });
+  if (!profile.columns || typeof profile.columns !== 'object' || Array.isArray(profile.columns)) {
+    errors.push('Columns must be an object mapping fields to column headers');
+  } else {
+    for (const field of ['date', 'description', 'amount'] as const) {
+      if (!profile.columns[field] || String(profile.columns[field]).trim() === '') {
+        errors.push(`Column for ${field} is required`);
+      }
     }
-  });
+  }
 
-  return validationErrors;
+  if (!profile.dateFormat || !DATE_FORMATS.includes(profile.dateFormat)) {
+    errors.push(`Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+  }
+
+  if (!profile.signConvention || !SIGN_CONVENTIONS.includes(profile.signConvention)) {
+    errors.push(`Sign convention must be one of: ${SIGN_CONVENTIONS.join(', ')}`);
+  }
+
+  if (profile.ruleSettings !== undefined) {
+    errors.push(...validateRuleSettings(profile.ruleSettings));
+  }
+
+  return errors;
 }
@@ -4,15 +4,15 @@ import { FileUpload } from './components/FileUpload';
 import { TransactionList } from './components/TransactionList';
 import { ImportHistory } from './components/ImportHistory';
 import { ReconciliationPanel } from './components/ReconciliationPanel';
-import { ImportResult } from './types';
+import { BatchImportResult, ImportResult } from './types';
 import './App.css';
 
 function App() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
-  const [lastImportResult, setLastImportResult] = useState<ImportResult | null>(null);
+  const [lastImportResult, setLastImportResult] = useState<ImportResult | BatchImportResult | null>(null);
   const [showNotification, setShowNotification] = useState(false);
 
-  const handleImportComplete = (result: ImportResult) => {
+  const handleImportComplete = (result: ImportResult | BatchImportResult) => {
     setLastImportResult(result);
     setShowNotification(true);
     setRefreshTrigger((prev) => prev + 1);
@@ -33,8 +33,35 @@ function App() {
             </strong>
             <p>
               Imported {lastImportResult.importedRecords} of {lastImportResult.totalRecords} records.
+              {!!lastImportResult.updatedRecords && ` ${lastImportResult.updatedRecords} updated.`}
               {lastImportResult.skippedRecords > 0 && ` ${lastImportResult.skippedRecords} skipped.`}
+              {!!lastImportResult.supersededRecords &&
+                ` ${lastImportResult.supersededRecords} pending charge(s) replaced by the posted version.`}
+              {lastImportResult.warnings &&
+                lastImportResult.warnings.length > 0 &&
+                ` ${lastImportResult.warnings.length} warning(s).`}
             </p>
+            {lastImportResult.integrityErrors?.map((err) => (
+              <p key={err.cardMember ?? ''} className="notification-integrity">
+                {err.cardMember ? `${err.cardMember}: ` : 'Statement: '}
+                stated total {err.expected.toFixed(2)}, imported rows sum to {err.actual.toFixed(2)}
+              </p>
+            ))}
+            {'files' in lastImportResult && (
+              <p className="notification-source">
+                From {lastImportResult.files.length} file(s):{' '}
+                {lastImportResult.files
+                  .map((file) => `${file.fileName} (${file.result.importedRecords})`)
+                  .join(', ')}
+              </p>
+            )}
+            {lastImportResult.source && (
+              <p className="notification-source">
+                Parsed as {lastImportResult.source.parser}
+                {lastImportResult.source.worksheet && ` from "${lastImportResult.source.worksheet}"`}
+                {lastImportResult.source.headerRow && `, header row ${lastImportResult.source.headerRow}`}
+              </p>
+            )}
           </div>
           <button
             className="notification-close"
@@ -59,7 +86,11 @@ function App() {
           </div>
 
           <div className="tab-content">
-            <ImportHistory refreshTrigger={refreshTrigger} />
+            <ImportHistory
+              refreshTrigger={refreshTrigger}
+              onRollback={() => setRefreshTrigger((prev) => prev + 1)}
+              onRowsResubmitted={handleImportComplete}
+            />
           </div>
         </div>
       </main>
@@ -1,9 +1,25 @@
 import axios from 'axios';
 import type {
   ImportResult,
+  BatchImportResult,
+  ImportJob,
   ValidationResult,
+  DateFormat,
   AmExTransactionRow,
+  TransactionChange,
   ImportLog,
+  FailedRow,
+  FailedRowResubmitResult,
+  RawTransactionValues,
+  RollbackResult,
+  Ruleset,
+  RuleSettings,
+  MappingProfile,
+  MappingProfileInput,
+  StagedImport,
+  StagedImportDetail,
+  StagedRow,
+  StagedRowChanges,
   ReconciliationResultWithActions,
   ReconciliationParams,
   MatchPair,
@@ -36,11 +52,57 @@ export const checkHealth = async (): Promise<boolean> => {
 };
 
 // Import endpoints
-export const importStatement = async (file: File): Promise<ImportResult> => {
+export interface UploadOptions {
+  profileId?: number;
+  dateFormat?: DateFormat;
+  /** Import (or stage) the file even if the same file was already imported */
+  force?: boolean;
+  /** Update existing rows whose details changed instead of skipping them */
+  upsert?: boolean;
+}
+
+const buildUploadForm = (file: File, options: UploadOptions): FormData => {
   const formData = new FormData();
   formData.append('file', file);
+  if (options.profileId) {
+    formData.append('profileId', String(options.profileId));
+  }
+  if (options.dateFormat) {
+    formData.append('dateFormat', options.dateFormat);
+  }
+  if (options.force) {
+    formData.append('force', 'true');
+  }
+  if (options.upsert) {
+    formData.append('upsert', 'true');
+  }
+  return formData;
+};
 
-  const response = await apiClient.post<{ data: ImportResult }>('/api/import', formData, {
+// ZIP archives return a BatchImportResult (per-file results plus aggregate counts)
+export const importStatement = async (
+  file: File,
+  options: UploadOptions = {},
+): Promise<ImportResult | BatchImportResult> => {
+  const response = await apiClient.post<{ data: ImportResult | BatchImportResult }>(
+    '/api/import',
+    buildUploadForm(file, options),
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    },
+  );
+
+  return response.data.data;
+};
+
+// Background import: returns the queued job straight away; follow it with watchImportJob
+export const startImportJob = async (file: File, options: UploadOptions = {}): Promise<ImportJob> => {
+  const formData = buildUploadForm(file, options);
+  formData.append('async', 'true');
+
+  const response = await apiClient.post<{ data: ImportJob }>('/api/import', formData, {
     headers: {
       'Content-Type': 'multipart/form-data',
     },
@@ -49,13 +111,65 @@ export const importStatement = async (file: File): Promise<ImportResult> => {
   return response.data.data;
 };
 
-export const validateStatement = async (file: File): Promise<ValidationResult> => {
-  const formData = new FormData();
-  formData.append('file', file);
+export const getImportJob = async (id: string): Promise<ImportJob> => {
+  const response = await apiClient.get<{ data: ImportJob }>(`/api/jobs/${id}`);
+  return response.data.data;
+};
+
+const IMPORT_JOB_EVENTS = ['queued', 'running', 'parsed', 'validated', 'deduped', 'inserted', 'completed', 'failed'];
+
+// Stream a job's updates over Server-Sent Events until it completes or fails; returns a function to stop watching
+export const watchImportJob = (id: string, onUpdate: (job: ImportJob) => void): (() => void) => {
+  const source = new EventSource(`${API_BASE}/api/jobs/${id}/events`);
+
+  const handleEvent = (event: MessageEvent<string>) => {
+    const job: ImportJob = JSON.parse(event.data);
+    if (job.status === 'completed' || job.status === 'failed') {
+      source.close();
+    }
+    onUpdate(job);
+  };
 
+  for (const name of IMPORT_JOB_EVENTS) {
+    source.addEventListener(name, handleEvent);
+  }
+
+  // EventSource reconnects on its own; once it gives up, report whatever state the job reached
+  source.onerror = () => {
+    if (source.readyState !== EventSource.CLOSED) return;
+    getImportJob(id)
+      .then(onUpdate)
+      .catch(() => undefined);
+  };
+
+  return () => source.close();
+};
+
+export const validateStatement = async (
+  file: File,
+  options: UploadOptions = {},
+): Promise<ValidationResult> => {
   const response = await apiClient.post<{ data: ValidationResult }>(
     '/api/import/validate',
-    formData,
+    buildUploadForm(file, options),
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    },
+  );
+
+  return response.data.data;
+};
+
+// Staged import endpoints: upload for review, fix or drop rows, then commit or discard
+export const stageStatement = async (
+  file: File,
+  options: UploadOptions = {},
+): Promise<StagedImportDetail> => {
+  const response = await apiClient.post<{ data: StagedImportDetail }>(
+    '/api/import/staged',
+    buildUploadForm(file, options),
     {
       headers: {
         'Content-Type': 'multipart/form-data',
@@ -66,23 +180,113 @@ export const validateStatement = async (file: File): Promise<ValidationResult> =
   return response.data.data;
 };
 
+export const getStagedImports = async (): Promise<StagedImport[]> => {
+  const response = await apiClient.get<{ data: StagedImport[] }>('/api/import/staged');
+  return response.data.data;
+};
+
+export const getStagedImport = async (id: number): Promise<StagedImportDetail> => {
+  const response = await apiClient.get<{ data: StagedImportDetail }>(`/api/import/staged/${id}`);
+  return response.data.data;
+};
+
+export const updateStagedRow = async (
+  id: number,
+  rowId: number,
+  changes: StagedRowChanges,
+): Promise<StagedRow> => {
+  const response = await apiClient.patch<{ data: StagedRow }>(
+    `/api/import/staged/${id}/rows/${rowId}`,
+    changes,
+  );
+  return response.data.data;
+};
+
+export const commitStagedImport = async (id: number): Promise<ImportResult> => {
+  const response = await apiClient.post<{ data: ImportResult }>(`/api/import/staged/${id}/commit`);
+  return response.data.data;
+};
+
+export const discardStagedImport = async (id: number): Promise<{ discarded: boolean; id: number }> => {
+  const response = await apiClient.delete<{ data: { discarded: boolean; id: number } }>(
+    `/api/import/staged/${id}`,
+  );
+  return response.data.data;
+};
+
+// Validation rule endpoints
+export const getValidationRules = async (): Promise<Ruleset> => {
+  const response = await apiClient.get<{ data: Ruleset }>('/api/validation-rules');
+  return response.data.data;
+};
+
+export const updateValidationRules = async (rules: RuleSettings): Promise<Ruleset> => {
+  const response = await apiClient.put<{ data: Ruleset }>('/api/validation-rules', { rules });
+  return response.data.data;
+};
+
+// Mapping profile endpoints
+export const getProfiles = async (): Promise<MappingProfile[]> => {
+  const response = await apiClient.get<{ data: MappingProfile[] }>('/api/import/profiles');
+  return response.data.data;
+};
+
+export const createProfile = async (profile: MappingProfileInput): Promise<MappingProfile> => {
+  const response = await apiClient.post<{ data: MappingProfile }>('/api/import/profiles', profile);
+  return response.data.data;
+};
+
+export const deleteProfile = async (id: number): Promise<{ deleted: boolean; id: number }> => {
+  const response = await apiClient.delete<{ data: { deleted: boolean; id: number } }>(
+    `/api/import/profiles/${id}`,
+  );
+  return response.data.data;
+};
+
 // Transaction endpoints
 export interface ListTransactionsResponse {
   transactions: AmExTransactionRow[];
   total: number;
   limit: number;
-  offset: number;
-  pages: number;
+  /** Cursor for the next page of the same query (absent on the last page) */
+  nextCursor?: string;
+}
+
+export type TransactionSortField = 'date' | 'dateProcessed' | 'amount' | 'description' | 'cardMember' | 'createdAt';
+
+/**
+ * Search, filters and sort order for the transaction list (blank values are left out of the request)
+ */
+export interface TransactionListQuery {
+  /** Words, "phrases" and prefix* terms searched in descriptions and addresses */
+  q?: string;
+  startDate?: string;
+  endDate?: string;
+  cardMember?: string;
+  accountNumber?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  country?: string;
+  reconciled?: 'true' | 'false' | '';
+  importId?: string;
+  sort?: TransactionSortField;
+  order?: 'asc' | 'desc';
 }
 
+/**
+ * List transactions matching a query, newest first unless sorted otherwise
+ * Pass the previous page's nextCursor to get the page after it (a cursor only works with the query it came from)
+ */
 export const listTransactions = async (
   limit: number = 50,
-  offset: number = 0,
+  cursor?: string,
+  query: TransactionListQuery = {},
 ): Promise<ListTransactionsResponse> => {
+  const filters = Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined && value !== ''));
   const response = await apiClient.get<{ data: ListTransactionsResponse }>(
     '/api/transactions',
     {
-      params: { limit, offset },
+      params: { limit, cursor, ...filters },
     },
   );
 
@@ -97,6 +301,14 @@ export const getTransaction = async (reference: string): Promise<AmExTransaction
   return response.data.data;
 };
 
+export const getTransactionChanges = async (reference: string): Promise<TransactionChange[]> => {
+  const response = await apiClient.get<{ data: TransactionChange[] }>(
+    `/api/transactions/${reference}/changes`,
+  );
+
+  return response.data.data;
+};
+
 export const deleteTransaction = async (id: number): Promise<{ deleted: boolean; id: number }> => {
   const response = await apiClient.delete<{ data: { deleted: boolean; id: number } }>(
     `/api/transactions/${id}`,
@@ -110,23 +322,48 @@ export interface ImportHistoryResponse {
   logs: ImportLog[];
   total: number;
   limit: number;
-  offset: number;
+  nextCursor?: string;
 }
 
 export const getImportHistory = async (
   limit: number = 50,
-  offset: number = 0,
+  cursor?: string,
 ): Promise<ImportHistoryResponse> => {
   const response = await apiClient.get<{ data: ImportHistoryResponse }>(
     '/api/import-history',
     {
-      params: { limit, offset },
+      params: { limit, cursor },
     },
   );
 
   return response.data.data;
 };
 
+// Deletes every transaction the import inserted; reconciled rows need force
+export const rollbackImport = async (id: number, force: boolean = false): Promise<RollbackResult> => {
+  const response = await apiClient.post<{ data: RollbackResult }>(`/api/import-history/${id}/rollback`, {
+    force,
+  });
+  return response.data.data;
+};
+
+// Rows an import rejected: list them, then resubmit corrected values (stored values are used when omitted)
+export const getFailedRows = async (importId: number): Promise<FailedRow[]> => {
+  const response = await apiClient.get<{ data: FailedRow[] }>(`/api/import-history/${importId}/failed-rows`);
+  return response.data.data;
+};
+
+export const resubmitFailedRows = async (
+  importId: number,
+  rows: Array<{ id: number; values?: RawTransactionValues }>,
+): Promise<FailedRowResubmitResult> => {
+  const response = await apiClient.post<{ data: FailedRowResubmitResult }>(
+    `/api/import-history/${importId}/failed-rows/resubmit`,
+    { rows },
+  );
+  return response.data.data;
+};
+
 // Reconciliation endpoints
 export const getBudgets = async (): Promise<YnabBudget[]> => {
   const response = await apiClient.get<{ data: YnabBudget[] }>('/api/reconcile/budgets');
@@ -203,15 +440,22 @@ export const unmatchTransaction = async (cardId: number): Promise<UnmatchResult>
   return response.data.data;
 };
 
+export interface ReconciliationHistoryResponse {
+  logs: ReconciliationLog[];
+  total: number;
+  limit: number;
+  nextCursor?: string;
+}
+
 export const getReconciliationHistory = async (
   budgetId?: string,
   limit: number = 50,
-  offset: number = 0,
-): Promise<ReconciliationLog[]> => {
-  const response = await apiClient.get<{ data: ReconciliationLog[] }>(
+  cursor?: string,
+): Promise<ReconciliationHistoryResponse> => {
+  const response = await apiClient.get<{ data: ReconciliationHistoryResponse }>(
     '/api/reconcile/history',
     {
-      params: { budgetId, limit, offset },
+      params: { budgetId, limit, cursor },
     },
   );
   return response.data.data;
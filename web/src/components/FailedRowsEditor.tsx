@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { getFailedRows, resubmitFailedRows } from '../api/client';
+import { FailedRow, ImportResult, RawTransactionValues } from '../types';
+import './FailedRowsEditor.css';
+
+interface FailedRowsEditorProps {
+  importId: number;
+  onResubmitted: (result: ImportResult) => void;
+  onClosed: () => void;
+}
+
+const EDITABLE_FIELDS = [
+  { field: 'date', label: 'Date' },
+  { field: 'dateProcessed', label: 'Processed' },
+  { field: 'description', label: 'Description' },
+  { field: 'cardMember', label: 'Card Member' },
+  { field: 'accountNumber', label: 'Account #' },
+  { field: 'amount', label: 'Amount' },
+  { field: 'reference', label: 'Reference' },
+] as const;
+
+export function FailedRowsEditor({ importId, onResubmitted, onClosed }: FailedRowsEditorProps) {
+  const [rows, setRows] = useState<FailedRow[] | null>(null);
+  // Edited values per row ID, seeded from the values the row was rejected with
+  const [drafts, setDrafts] = useState<Record<number, RawTransactionValues>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFailedRows(importId)
+      .then((failedRows) => {
+        const openRows = failedRows.filter((row) => !row.resolvedAt);
+        setRows(openRows);
+        setDrafts(Object.fromEntries(openRows.map((row) => [row.id, row.values])));
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load rejected rows'));
+  }, [importId]);
+
+  const updateDraft = (rowId: number, field: keyof RawTransactionValues, value: string) => {
+    setDrafts({ ...drafts, [rowId]: { ...drafts[rowId], [field]: value } });
+  };
+
+  const handleResubmit = async () => {
+    if (!rows) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await resubmitFailedRows(
+        importId,
+        rows.map((row) => ({ id: row.id, values: drafts[row.id] })),
+      );
+      setRows(result.rows.filter((row) => !row.resolvedAt));
+      onResubmitted(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Resubmit failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!rows) {
+    return <div className="failed-rows">{error ? <p className="error">{error}</p> : <p>Loading...</p>}</div>;
+  }
+
+  return (
+    <div className="failed-rows">
+      <h4>Rejected Rows</h4>
+
+      {error && <p className="error">{error}</p>}
+
+      {rows.length === 0 ? (
+        <p>Every rejected row has been imported.</p>
+      ) : (
+        <div className="failed-rows-table-wrapper">
+          <table className="failed-rows-table">
+            <thead>
+              <tr>
+                <th>Row</th>
+                {EDITABLE_FIELDS.map(({ field, label }) => (
+                  <th key={field}>{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id}>
+                  <td>{row.rowNumber}</td>
+                  {EDITABLE_FIELDS.map(({ field }) => (
+                    <td key={field}>
+                      <input
+                        value={drafts[row.id]?.[field] ?? ''}
+                        onChange={(e) => updateDraft(row.id, field, e.target.value)}
+                        disabled={busy}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ul className="failed-rows-errors">
+            {rows.flatMap((row) => row.errors.map((message, i) => <li key={`${row.id}-${i}`}>{message}</li>))}
+          </ul>
+        </div>
+      )}
+
+      <div className="failed-rows-actions">
+        <button onClick={onClosed} disabled={busy} className="btn-fix">
+          Close
+        </button>
+        {rows.length > 0 && (
+          <button onClick={handleResubmit} disabled={busy} className="btn-fix primary">
+            {busy ? 'Resubmitting...' : `Resubmit ${rows.length} Row(s)`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
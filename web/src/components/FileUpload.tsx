@@ -1,10 +1,37 @@
-import { useState } from 'react';
-import { importStatement, validateStatement } from '../api/client';
-import { ImportResult, ValidationResult } from '../types';
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import {
+  getProfiles,
+  getStagedImports,
+  stageStatement,
+  startImportJob,
+  validateStatement,
+  watchImportJob,
+} from '../api/client';
+import {
+  BatchImportResult,
+  DateFormat,
+  ImportJob,
+  ImportProgress,
+  ImportResult,
+  ImportStage,
+  MappingProfile,
+  StagedImport,
+  ValidationResult,
+} from '../types';
+import { MappingProfileForm } from './MappingProfileForm';
+import { StagedImportReview } from './StagedImportReview';
 import './FileUpload.css';
 
+const STAGE_LABELS: Record<ImportStage, string> = {
+  parsed: 'Parsing',
+  validated: 'Validating',
+  deduped: 'Checking duplicates',
+  inserted: 'Saving',
+};
+
 interface FileUploadProps {
-  onImportComplete: (result: ImportResult) => void;
+  onImportComplete: (result: ImportResult | BatchImportResult) => void;
 }
 
 export function FileUpload({ onImportComplete }: FileUploadProps) {
@@ -12,6 +39,33 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
   const [loading, setLoading] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [profileId, setProfileId] = useState<number | undefined>(undefined);
+  const [showProfileForm, setShowProfileForm] = useState(false);
+  const [dateFormat, setDateFormat] = useState<DateFormat | ''>('');
+  const [upsert, setUpsert] = useState(false);
+  const [pendingReviews, setPendingReviews] = useState<StagedImport[]>([]);
+  const [reviewId, setReviewId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  useEffect(() => {
+    getProfiles()
+      .then(setProfiles)
+      .catch(() => setProfiles([]));
+    loadPendingReviews();
+  }, []);
+
+  const loadPendingReviews = () => {
+    getStagedImports()
+      .then(setPendingReviews)
+      .catch(() => setPendingReviews([]));
+  };
+
+  const handleProfileCreated = (profile: MappingProfile) => {
+    setProfiles([...profiles, profile].sort((a, b) => a.name.localeCompare(b.name)));
+    setProfileId(profile.id);
+    setShowProfileForm(false);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -27,7 +81,7 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
 
     setLoading(true);
     try {
-      const result = await validateStatement(file);
+      const result = await validateStatement(file, { profileId, dateFormat: dateFormat || undefined });
       setValidationResult(result);
     } catch (error) {
       setImportError(
@@ -38,22 +92,95 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
     }
   };
 
-  const handleImport = async () => {
+  // The server refuses a file it has already imported; offer to send it again with force
+  const confirmReimport = (error: unknown): boolean =>
+    axios.isAxiosError(error) &&
+    error.response?.data?.code === 'ALREADY_IMPORTED' &&
+    confirm(`${error.response.data.error.replace(/;.*$/, '')}. Import again anyway?`);
+
+  // Stage the file for row-by-row review; nothing is imported until the review is committed
+  const handleStage = async (force = false) => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const staged = await stageStatement(file, { profileId, dateFormat: dateFormat || undefined, force });
+      setReviewId(staged.id);
+      setFile(null);
+      setValidationResult(null);
+      setImportError(null);
+      loadPendingReviews();
+    } catch (error) {
+      if (!force && confirmReimport(error)) {
+        await handleStage(true);
+        return;
+      }
+      setImportError(
+        error instanceof Error ? error.message : 'Staging failed',
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReviewClosed = () => {
+    setReviewId(null);
+    loadPendingReviews();
+  };
+
+  // Follow a background import over Server-Sent Events until it completes or fails
+  const waitForJob = (job: ImportJob) =>
+    new Promise<ImportJob>((resolve) => {
+      watchImportJob(job.id, (update) => {
+        setProgress(update.progress ?? null);
+        if (update.status === 'completed' || update.status === 'failed') {
+          resolve(update);
+        }
+      });
+    });
+
+  const handleImport = async (force = false) => {
     if (!file) return;
 
     setLoading(true);
     try {
-      const result = await importStatement(file);
+      const job = await waitForJob(
+        await startImportJob(file, {
+          profileId,
+          dateFormat: dateFormat || undefined,
+          force,
+          upsert,
+        }),
+      );
+      if (job.status === 'failed' || !job.result) {
+        throw new Error(job.error || 'Import failed');
+      }
+
+      const result = job.result;
+      if (result.duplicateOfImportId) {
+        const message = result.errors[0]?.error ?? 'This file was already imported';
+        if (!force && confirm(`${message.replace(/;.*$/, '')}. Import again anyway?`)) {
+          await handleImport(true);
+          return;
+        }
+        throw new Error(message);
+      }
+
       onImportComplete(result);
       setFile(null);
       setValidationResult(null);
       setImportError(null);
     } catch (error) {
+      if (!force && confirmReimport(error)) {
+        await handleImport(true);
+        return;
+      }
       setImportError(
         error instanceof Error ? error.message : 'Import failed',
       );
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
@@ -63,12 +190,12 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
 
       <div className="upload-section">
         <label htmlFor="file-input" className="file-label">
-          Choose XLSX File
+          Choose Statement File
         </label>
         <input
           id="file-input"
           type="file"
-          accept=".xlsx"
+          accept=".xlsx,.csv,.ofx,.qfx,.zip"
           onChange={handleFileChange}
           disabled={loading}
           className="file-input"
@@ -76,8 +203,93 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
         {file && <p className="file-name">Selected: {file.name}</p>}
       </div>
 
+      <div className="upload-section">
+        <label htmlFor="profile-select" className="file-label">
+          Column Mapping
+        </label>
+        <div className="profile-picker">
+          <select
+            id="profile-select"
+            value={profileId ?? ''}
+            onChange={(e) => setProfileId(e.target.value ? Number(e.target.value) : undefined)}
+            disabled={loading}
+            className="profile-select"
+          >
+            <option value="">Auto-detect (AmEx XLSX/CSV, OFX/QFX)</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setShowProfileForm(!showProfileForm)}
+            disabled={loading}
+            className="btn btn-secondary"
+          >
+            New Profile
+          </button>
+        </div>
+      </div>
+
+      <div className="upload-section">
+        <label htmlFor="date-format-select" className="file-label">
+          Date Format
+        </label>
+        <select
+          id="date-format-select"
+          value={dateFormat}
+          onChange={(e) => setDateFormat(e.target.value as DateFormat | '')}
+          disabled={loading}
+          className="profile-select"
+        >
+          <option value="">{profileId ? 'From profile' : 'Auto-detect'}</option>
+          <option value="DD/MM/YYYY">DD/MM/YYYY (UK/AU)</option>
+          <option value="MM/DD/YYYY">MM/DD/YYYY (US)</option>
+          <option value="YYYY-MM-DD">YYYY-MM-DD (ISO)</option>
+          <option value="DD MMM YYYY">DD MMM YYYY (12 Jan 2024)</option>
+        </select>
+      </div>
+
+      <div className="upload-section">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={upsert}
+            onChange={(e) => setUpsert(e.target.checked)}
+            disabled={loading}
+          />
+          Update existing transactions whose details changed
+        </label>
+      </div>
+
+      {showProfileForm && (
+        <MappingProfileForm
+          onCreated={handleProfileCreated}
+          onCancel={() => setShowProfileForm(false)}
+        />
+      )}
+
       {importError && <div className="error-message">{importError}</div>}
 
+      {progress && (
+        <div className="import-progress">
+          <div className="progress-bar">
+            <div
+              className="progress-fill"
+              style={{
+                width: `${progress.totalRows > 0 ? Math.round((progress.rowsRead / progress.totalRows) * 100) : 100}%`,
+              }}
+            />
+          </div>
+          <p className="progress-label">
+            {STAGE_LABELS[progress.stage]}: {progress.rowsRead} of {progress.totalRows} rows
+            ({progress.importedRecords} imported, {progress.skippedRecords} skipped)
+          </p>
+        </div>
+      )}
+
       <div className="button-group">
         <button
           onClick={handleValidate}
@@ -87,7 +299,14 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
           {loading ? 'Validating...' : 'Validate'}
         </button>
         <button
-          onClick={handleImport}
+          onClick={() => handleStage()}
+          disabled={!file || loading}
+          className="btn btn-secondary"
+        >
+          Review Before Import
+        </button>
+        <button
+          onClick={() => handleImport()}
           disabled={!file || loading}
           className="btn btn-primary"
         >
@@ -95,6 +314,34 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
         </button>
       </div>
 
+      {reviewId !== null && (
+        <StagedImportReview
+          key={reviewId}
+          stagedImportId={reviewId}
+          onCommitted={onImportComplete}
+          onClosed={handleReviewClosed}
+        />
+      )}
+
+      {reviewId === null && pendingReviews.length > 0 && (
+        <div className="upload-section">
+          <span className="file-label">Pending Reviews</span>
+          <ul className="pending-reviews">
+            {pendingReviews.map((staged) => (
+              <li key={staged.id}>
+                <span>
+                  {staged.fileName} ({staged.rowCount} rows, staged{' '}
+                  {new Date(staged.createdAt).toLocaleDateString('en-GB')})
+                </span>
+                <button onClick={() => setReviewId(staged.id)} className="btn-small">
+                  Review
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {validationResult && (
         <div className="validation-result">
           <h3>Validation Results</h3>
@@ -128,6 +375,20 @@ export function FileUpload({ onImportComplete }: FileUploadProps) {
               </ul>
             </div>
           )}
+
+          {validationResult.warnings && validationResult.warnings.length > 0 && (
+            <div className="errors warnings">
+              <h4>Warnings:</h4>
+              <ul>
+                {validationResult.warnings.slice(0, 5).map((warning, i) => (
+                  <li key={i}>{warning.message}</li>
+                ))}
+                {validationResult.warnings.length > 5 && (
+                  <li>... and {validationResult.warnings.length - 5} more warnings</li>
+                )}
+              </ul>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,16 +1,26 @@
 import { useState, useEffect } from 'react';
-import { getImportHistory } from '../api/client';
-import { ImportLog } from '../types';
+import axios from 'axios';
+import { getImportHistory, rollbackImport } from '../api/client';
+import { ImportLog, ImportResult } from '../types';
+import { FailedRowsEditor } from './FailedRowsEditor';
 import './ImportHistory.css';
 
 interface ImportHistoryProps {
   refreshTrigger?: number;
+  onRollback?: () => void;
+  onRowsResubmitted?: (result: ImportResult) => void;
 }
 
-export function ImportHistory({ refreshTrigger = 0 }: ImportHistoryProps) {
+export function ImportHistory({ refreshTrigger = 0, onRollback, onRowsResubmitted }: ImportHistoryProps) {
   const [logs, setLogs] = useState<ImportLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [rollbackError, setRollbackError] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+  const [fixingLogId, setFixingLogId] = useState<number | null>(null);
 
   useEffect(() => {
     loadHistory();
@@ -20,8 +30,10 @@ export function ImportHistory({ refreshTrigger = 0 }: ImportHistoryProps) {
     setLoading(true);
     setError(null);
     try {
-      const response = await getImportHistory(50, 0);
+      const response = await getImportHistory(50);
       setLogs(response.logs);
+      setTotal(response.total);
+      setNextCursor(response.nextCursor);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load history');
     } finally {
@@ -29,6 +41,55 @@ export function ImportHistory({ refreshTrigger = 0 }: ImportHistoryProps) {
     }
   };
 
+  // Append the next (older) page; the cursor keeps it from repeating logs when new imports land meanwhile
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await getImportHistory(50, nextCursor);
+      setLogs([...logs, ...response.logs]);
+      setTotal(response.total);
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRollback = async (log: ImportLog) => {
+    const message =
+      `Undo the import of ${log.fileName}? ` +
+      `This deletes the ${log.importedRecords} transaction(s) it added ` +
+      'and undoes any changes it made to existing ones.';
+    if (!confirm(message)) return;
+
+    setRollingBackId(log.id);
+    setRollbackError(null);
+    try {
+      await rollbackImport(log.id);
+      onRollback?.();
+    } catch (err) {
+      // Reconciled rows are only deleted after a second confirmation
+      if (axios.isAxiosError(err) && err.response?.data?.code === 'RECONCILED_TRANSACTIONS') {
+        if (confirm(`${err.response.data.error}. Delete them anyway?`)) {
+          try {
+            await rollbackImport(log.id, true);
+            onRollback?.();
+          } catch (forceErr) {
+            setRollbackError(forceErr instanceof Error ? forceErr.message : 'Rollback failed');
+          }
+        }
+      } else {
+        setRollbackError(err instanceof Error ? err.message : 'Rollback failed');
+      }
+    } finally {
+      setRollingBackId(null);
+      loadHistory();
+    }
+  };
+
   if (loading) {
     return <div className="import-history"><p>Loading history...</p></div>;
   }
@@ -54,14 +115,50 @@ export function ImportHistory({ refreshTrigger = 0 }: ImportHistoryProps) {
     <div className="import-history">
       <h2>Import History</h2>
 
+      {rollbackError && <p className="error">{rollbackError}</p>}
+
       <div className="history-list">
         {logs.map((log) => (
           <div key={log.id} className="history-item">
             <div className="header">
-              <h3>{log.fileName}</h3>
-              <span className="timestamp">
-                {new Date(log.importTimestamp).toLocaleDateString('en-GB')}
-              </span>
+              <h3>
+                {log.fileName}
+                {log.parser && <span className="parser">{log.parser}</span>}
+                {log.rulesetVersion && (
+                  <span className="parser" title="Validation ruleset">
+                    rules {log.rulesetVersion}
+                  </span>
+                )}
+                {log.batchId && (
+                  <span className="batch" title={log.batchId}>
+                    batch {log.batchId.slice(0, 8)}
+                  </span>
+                )}
+                {log.rolledBackAt && (
+                  <span className="rolled-back" title={new Date(log.rolledBackAt).toLocaleString('en-GB')}>
+                    rolled back ({log.rolledBackRecords ?? 0} removed)
+                  </span>
+                )}
+              </h3>
+              <div className="header-actions">
+                <span className="timestamp">
+                  {new Date(log.importTimestamp).toLocaleDateString('en-GB')}
+                </span>
+                {!log.rolledBackAt && !!log.failedRowCount && fixingLogId !== log.id && (
+                  <button onClick={() => setFixingLogId(log.id)} className="btn-fix">
+                    Fix {log.failedRowCount} Rejected Row(s)
+                  </button>
+                )}
+                {!log.rolledBackAt && log.importedRecords > 0 && (
+                  <button
+                    onClick={() => handleRollback(log)}
+                    disabled={rollingBackId !== null}
+                    className="btn-undo"
+                  >
+                    {rollingBackId === log.id ? 'Undoing...' : 'Undo Import'}
+                  </button>
+                )}
+              </div>
             </div>
 
             <div className="stats">
@@ -101,9 +198,23 @@ export function ImportHistory({ refreshTrigger = 0 }: ImportHistoryProps) {
                 </ul>
               </div>
             )}
+
+            {fixingLogId === log.id && (
+              <FailedRowsEditor
+                importId={log.id}
+                onResubmitted={(result) => onRowsResubmitted?.(result)}
+                onClosed={() => setFixingLogId(null)}
+              />
+            )}
           </div>
         ))}
       </div>
+
+      {nextCursor && (
+        <button onClick={handleLoadMore} disabled={loadingMore} className="btn-load-more">
+          {loadingMore ? 'Loading...' : `Show older imports (${logs.length} of ${total})`}
+        </button>
+      )}
     </div>
   );
 }
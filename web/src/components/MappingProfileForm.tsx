@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { createProfile } from '../api/client';
+import { DateFormat, MappingProfile, SignConvention } from '../types';
+
+interface MappingProfileFormProps {
+  onCreated: (profile: MappingProfile) => void;
+  onCancel: () => void;
+}
+
+const COLUMN_FIELDS = [
+  { field: 'date', label: 'Date column', required: true },
+  { field: 'description', label: 'Description column', required: true },
+  { field: 'amount', label: 'Amount column', required: true },
+  { field: 'dateProcessed', label: 'Date processed column', required: false },
+  { field: 'cardMember', label: 'Card member column', required: false },
+  { field: 'accountNumber', label: 'Account column', required: false },
+  { field: 'status', label: 'Status column (pending/posted)', required: false },
+] as const;
+
+type ColumnField = (typeof COLUMN_FIELDS)[number]['field'];
+
+export function MappingProfileForm({ onCreated, onCancel }: MappingProfileFormProps) {
+  const [name, setName] = useState('');
+  const [columns, setColumns] = useState<Partial<Record<ColumnField, string>>>({});
+  const [referenceColumn, setReferenceColumn] = useState('');
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DD/MM/YYYY');
+  const [signConvention, setSignConvention] = useState<SignConvention>('charges-positive');
+  const [defaultCardMember, setDefaultCardMember] = useState('');
+  const [defaultAccount, setDefaultAccount] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      // Drop blank column inputs so unmapped fields stay unset
+      const mappedColumns = Object.fromEntries(
+        Object.entries(columns).filter(([, column]) => column && column.trim() !== ''),
+      );
+
+      const profile = await createProfile({
+        name,
+        columns: mappedColumns,
+        referenceColumn: referenceColumn || undefined,
+        dateFormat,
+        signConvention,
+        defaults: {
+          cardMember: defaultCardMember || undefined,
+          accountNumber: defaultAccount || undefined,
+        },
+      });
+      onCreated(profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="profile-form" onSubmit={handleSubmit}>
+      <h3>New Mapping Profile</h3>
+      <p className="profile-hint">Enter the column headers exactly as they appear in your bank's export.</p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="profile-grid">
+        <label>
+          Profile name *
+          <input value={name} onChange={(e) => setName(e.target.value)} required />
+        </label>
+
+        {COLUMN_FIELDS.map(({ field, label, required }) => (
+          <label key={field}>
+            {label}
+            {required && ' *'}
+            <input
+              value={columns[field] || ''}
+              onChange={(e) => setColumns({ ...columns, [field]: e.target.value })}
+              required={required}
+            />
+          </label>
+        ))}
+
+        <label>
+          Reference column
+          <input
+            value={referenceColumn}
+            onChange={(e) => setReferenceColumn(e.target.value)}
+            placeholder="Generated when blank"
+          />
+        </label>
+
+        <label>
+          Date format
+          <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)}>
+            <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+            <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+            <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+            <option value="DD MMM YYYY">DD MMM YYYY</option>
+          </select>
+        </label>
+
+        <label>
+          Amount sign
+          <select
+            value={signConvention}
+            onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+          >
+            <option value="charges-positive">Charges are positive</option>
+            <option value="charges-negative">Charges are negative</option>
+          </select>
+        </label>
+
+        <label>
+          Default card member
+          <input value={defaultCardMember} onChange={(e) => setDefaultCardMember(e.target.value)} />
+        </label>
+
+        <label>
+          Default account
+          <input value={defaultAccount} onChange={(e) => setDefaultAccount(e.target.value)} />
+        </label>
+      </div>
+
+      <div className="button-group">
+        <button type="button" onClick={onCancel} disabled={saving} className="btn btn-secondary">
+          Cancel
+        </button>
+        <button type="submit" disabled={saving} className="btn btn-primary">
+          {saving ? 'Saving...' : 'Save Profile'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import {
+  commitStagedImport,
+  discardStagedImport,
+  getStagedImport,
+  updateStagedRow,
+} from '../api/client';
+import { ImportResult, StagedImportDetail, StagedRow } from '../types';
+import './StagedImportReview.css';
+
+interface StagedImportReviewProps {
+  stagedImportId: number;
+  onCommitted: (result: ImportResult) => void;
+  onClosed: () => void;
+}
+
+const EDITABLE_FIELDS = [
+  { field: 'date', label: 'Date' },
+  { field: 'description', label: 'Description' },
+  { field: 'cardMember', label: 'Card Member' },
+  { field: 'amount', label: 'Amount' },
+  { field: 'reference', label: 'Reference' },
+] as const;
+
+type EditableField = (typeof EDITABLE_FIELDS)[number]['field'];
+
+export function StagedImportReview({ stagedImportId, onCommitted, onClosed }: StagedImportReviewProps) {
+  const [staged, setStaged] = useState<StagedImportDetail | null>(null);
+  const [editingRowId, setEditingRowId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Partial<Record<EditableField, string>>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getStagedImport(stagedImportId)
+      .then(setStaged)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load staged import'));
+  }, [stagedImportId]);
+
+  const loadStagedImport = async () => {
+    try {
+      setStaged(await getStagedImport(stagedImportId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load staged import');
+    }
+  };
+
+  // Row changes can move duplicate markers on other rows, so reload the whole import afterwards
+  const applyRowChanges = async (row: StagedRow, changes: Parameters<typeof updateStagedRow>[2]) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await updateStagedRow(stagedImportId, row.id, changes);
+      await loadStagedImport();
+      setEditingRowId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update row');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEditing = (row: StagedRow) => {
+    setEditingRowId(row.id);
+    setDraft(
+      Object.fromEntries(EDITABLE_FIELDS.map(({ field }) => [field, String(row.transaction[field] ?? '')])),
+    );
+  };
+
+  // Only send fields that were actually changed
+  const saveEdit = (row: StagedRow) => {
+    const changed = Object.entries(draft).filter(
+      ([field, value]) => value !== String(row.transaction[field as EditableField] ?? ''),
+    );
+    return applyRowChanges(row, { transaction: Object.fromEntries(changed) });
+  };
+
+  const handleCommit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      onCommitted(await commitStagedImport(stagedImportId));
+      onClosed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Commit failed');
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirm(`Discard the staged import of ${staged?.fileName}?`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await discardStagedImport(stagedImportId);
+      onClosed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Discard failed');
+      setBusy(false);
+    }
+  };
+
+  if (!staged) {
+    return <div className="staged-review">{error ? <p className="error-message">{error}</p> : <p>Loading...</p>}</div>;
+  }
+
+  const keptRows = staged.rowCount - staged.droppedCount;
+  const readyRows = staged.rows.filter((row) => !row.dropped && !row.duplicate && row.errors.length === 0).length;
+
+  return (
+    <div className="staged-review">
+      <h3>Review {staged.fileName}</h3>
+      <p className="staged-source">Parsed as {staged.source.parser}</p>
+
+      <div className="stats">
+        <div className="stat">
+          <span className="label">Rows:</span>
+          <span className="value">{staged.rowCount}</span>
+        </div>
+        <div className="stat">
+          <span className="label">Ready:</span>
+          <span className="value valid">{readyRows}</span>
+        </div>
+        <div className="stat">
+          <span className="label">Invalid:</span>
+          <span className="value invalid">{staged.invalidCount}</span>
+        </div>
+        <div className="stat">
+          <span className="label">Duplicates:</span>
+          <span className="value">{staged.duplicateCount}</span>
+        </div>
+        <div className="stat">
+          <span className="label">Dropped:</span>
+          <span className="value">{staged.droppedCount}</span>
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {staged.parseErrors.length > 0 && (
+        <div className="errors">
+          <h4>Rows that could not be read ({staged.parseErrors.length}):</h4>
+          <ul>
+            {staged.parseErrors.slice(0, 5).map((err, i) => (
+              <li key={i}>{err.error}</li>
+            ))}
+            {staged.parseErrors.length > 5 && <li>... and {staged.parseErrors.length - 5} more</li>}
+          </ul>
+        </div>
+      )}
+
+      <div className="staged-table-wrapper">
+        <table className="staged-table">
+          <thead>
+            <tr>
+              <th>Row</th>
+              {EDITABLE_FIELDS.map(({ field, label }) => (
+                <th key={field}>{label}</th>
+              ))}
+              <th>Status</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {staged.rows.map((row) => (
+              <tr key={row.id} className={row.dropped ? 'dropped' : row.errors.length > 0 ? 'invalid' : ''}>
+                <td>{row.rowNumber}</td>
+                {EDITABLE_FIELDS.map(({ field }) => (
+                  <td key={field}>
+                    {editingRowId === row.id ? (
+                      <input
+                        value={draft[field] ?? ''}
+                        onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                        disabled={busy}
+                      />
+                    ) : field === 'amount' ? (
+                      row.transaction.amount.toFixed(2)
+                    ) : (
+                      row.transaction[field]
+                    )}
+                  </td>
+                ))}
+                <td>
+                  {row.dropped ? (
+                    <span className="badge dropped">Dropped</span>
+                  ) : row.errors.length > 0 ? (
+                    <span className="badge invalid" title={row.errors.join('\n')}>
+                      {row.errors[0]}
+                    </span>
+                  ) : row.duplicate ? (
+                    <span className="badge duplicate">Duplicate</span>
+                  ) : (
+                    <span className="badge ready">Ready</span>
+                  )}
+                </td>
+                <td className="staged-actions">
+                  {editingRowId === row.id ? (
+                    <>
+                      <button onClick={() => saveEdit(row)} disabled={busy} className="btn-small">
+                        Save
+                      </button>
+                      <button onClick={() => setEditingRowId(null)} disabled={busy} className="btn-small">
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => startEditing(row)} disabled={busy || row.dropped} className="btn-small">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => applyRowChanges(row, { dropped: !row.dropped })}
+                        disabled={busy}
+                        className="btn-small"
+                      >
+                        {row.dropped ? 'Restore' : 'Drop'}
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="button-group">
+        <button onClick={handleDiscard} disabled={busy} className="btn btn-secondary">
+          Discard
+        </button>
+        <button onClick={handleCommit} disabled={busy || keptRows === 0} className="btn btn-primary">
+          {busy ? 'Working...' : `Commit ${readyRows} Row(s)`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,66 @@
-import { useState, useEffect } from 'react';
-import { listTransactions, deleteTransaction } from '../api/client';
-import { AmExTransactionRow } from '../types';
+import { FormEvent, Fragment, useState, useEffect } from 'react';
+import { listTransactions, deleteTransaction, getTransactionChanges, TransactionListQuery } from '../api/client';
+import { AmExTransactionRow, TransactionChange } from '../types';
 import './TransactionList.css';
 
 interface TransactionListProps {
   refreshTrigger?: number;
 }
 
+const SORT_OPTIONS = [
+  { value: 'date', label: 'Date' },
+  { value: 'dateProcessed', label: 'Date processed' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'description', label: 'Description' },
+  { value: 'cardMember', label: 'Card member' },
+  { value: 'createdAt', label: 'Imported' },
+] as const;
+
+const TEXT_FILTERS = [
+  { field: 'cardMember', label: 'Card member' },
+  { field: 'accountNumber', label: 'Account #' },
+  { field: 'country', label: 'Country' },
+  { field: 'importId', label: 'Import #' },
+] as const;
+
+// Whether a query narrows the list (sorting alone doesn't)
+const isFiltered = (query: TransactionListQuery) =>
+  Object.entries(query).some(([key, value]) => key !== 'sort' && key !== 'order' && value);
+
+const formatAmount = (txn: AmExTransactionRow) =>
+  new Intl.NumberFormat('en-AU', { style: 'currency', currency: txn.currency }).format(Math.abs(txn.amount));
+
 export function TransactionList({ refreshTrigger = 0 }: TransactionListProps) {
   const [transactions, setTransactions] = useState<AmExTransactionRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [totalPages, setTotalPages] = useState(0);
+  const [total, setTotal] = useState(0);
+  // Cursor each page up to the current one was loaded with (undefined for the first), and the next page's
+  const [pageCursors, setPageCursors] = useState<Array<string | undefined>>([undefined]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
   const [deleting, setDeleting] = useState<number | null>(null);
+  const [history, setHistory] = useState<{ id: number; changes: TransactionChange[] } | null>(null);
+  // Search and filters being edited, and those the list currently shows
+  const [draft, setDraft] = useState<TransactionListQuery>({});
+  const [query, setQuery] = useState<TransactionListQuery>({});
 
   const ITEMS_PER_PAGE = 20;
 
+  const currentPage = pageCursors.length - 1;
+
   useEffect(() => {
-    loadTransactions(0);
-  }, [refreshTrigger]);
+    loadTransactions([undefined], query);
+  }, [refreshTrigger, query]);
 
-  const loadTransactions = async (page: number) => {
+  const loadTransactions = async (cursors: Array<string | undefined>, listQuery: TransactionListQuery) => {
     setLoading(true);
     setError(null);
     try {
-      const offset = page * ITEMS_PER_PAGE;
-      const response = await listTransactions(ITEMS_PER_PAGE, offset);
+      const response = await listTransactions(ITEMS_PER_PAGE, cursors[cursors.length - 1], listQuery);
       setTransactions(response.transactions);
-      setTotalPages(response.pages);
-      setCurrentPage(page);
+      setTotal(response.total);
+      setPageCursors(cursors);
+      setNextCursor(response.nextCursor);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load transactions');
     } finally {
@@ -51,31 +82,151 @@ export function TransactionList({ refreshTrigger = 0 }: TransactionListProps) {
     }
   };
 
+  // Toggle the field changes recorded by upsert imports under a row
+  const handleToggleHistory = async (txn: AmExTransactionRow) => {
+    if (history?.id === txn.id) {
+      setHistory(null);
+      return;
+    }
+
+    try {
+      setHistory({ id: txn.id, changes: await getTransactionChanges(txn.reference) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transaction history');
+    }
+  };
+
+  const updateDraft = (changes: Partial<TransactionListQuery>) => setDraft({ ...draft, ...changes });
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setQuery({ ...draft });
+  };
+
+  const handleClearFilters = () => {
+    setDraft({});
+    setQuery({});
+  };
+
   const handlePreviousPage = () => {
     if (currentPage > 0) {
-      loadTransactions(currentPage - 1);
+      loadTransactions(pageCursors.slice(0, -1), query);
     }
   };
 
   const handleNextPage = () => {
-    if (currentPage < totalPages - 1) {
-      loadTransactions(currentPage + 1);
+    if (nextCursor) {
+      loadTransactions([...pageCursors, nextCursor], query);
     }
   };
 
-  if (loading && transactions.length === 0) {
+  const searchForm = (
+    <form className="transaction-search" onSubmit={handleSearch}>
+      <div className="search-row">
+        <input
+          type="search"
+          value={draft.q ?? ''}
+          onChange={(e) => updateDraft({ q: e.target.value })}
+          placeholder='Search, e.g. woolw* or "coles sydney"'
+          aria-label="Search transactions"
+        />
+        <button type="submit" className="btn btn-secondary" disabled={loading}>
+          Search
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleClearFilters} disabled={loading}>
+          Clear
+        </button>
+      </div>
+
+      <div className="filter-row">
+        <label>
+          From
+          <input
+            type="date"
+            value={draft.startDate ?? ''}
+            onChange={(e) => updateDraft({ startDate: e.target.value })}
+          />
+        </label>
+        <label>
+          To
+          <input type="date" value={draft.endDate ?? ''} onChange={(e) => updateDraft({ endDate: e.target.value })} />
+        </label>
+        <label>
+          Min amount
+          <input
+            type="number"
+            step="0.01"
+            value={draft.minAmount ?? ''}
+            onChange={(e) => updateDraft({ minAmount: e.target.value })}
+          />
+        </label>
+        <label>
+          Max amount
+          <input
+            type="number"
+            step="0.01"
+            value={draft.maxAmount ?? ''}
+            onChange={(e) => updateDraft({ maxAmount: e.target.value })}
+          />
+        </label>
+        {TEXT_FILTERS.map(({ field, label }) => (
+          <label key={field}>
+            {label}
+            <input value={draft[field] ?? ''} onChange={(e) => updateDraft({ [field]: e.target.value })} />
+          </label>
+        ))}
+        <label>
+          Reconciled
+          <select
+            value={draft.reconciled ?? ''}
+            onChange={(e) => updateDraft({ reconciled: e.target.value as TransactionListQuery['reconciled'] })}
+          >
+            <option value="">Any</option>
+            <option value="true">Reconciled</option>
+            <option value="false">Not reconciled</option>
+          </select>
+        </label>
+        <label>
+          Sort by
+          <select
+            value={draft.sort ?? 'date'}
+            onChange={(e) => updateDraft({ sort: e.target.value as TransactionListQuery['sort'] })}
+          >
+            {SORT_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Order
+          <select
+            value={draft.order ?? 'desc'}
+            onChange={(e) => updateDraft({ order: e.target.value as TransactionListQuery['order'] })}
+          >
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </label>
+      </div>
+    </form>
+  );
+
+  if (loading && transactions.length === 0 && !isFiltered(query)) {
     return <div className="transaction-list"><p>Loading transactions...</p></div>;
   }
 
   if (error) {
     return (
       <div className="transaction-list">
+        {searchForm}
         <p className="error">{error}</p>
       </div>
     );
   }
 
-  if (transactions.length === 0) {
+  if (transactions.length === 0 && !isFiltered(query)) {
     return (
       <div className="transaction-list">
         <p>No transactions found. Upload a statement to get started.</p>
@@ -87,66 +238,102 @@ export function TransactionList({ refreshTrigger = 0 }: TransactionListProps) {
     <div className="transaction-list">
       <h2>Transactions</h2>
 
-      <div className="table-container">
-        <table>
-          <thead>
-            <tr>
-              <th>Date</th>
-              <th>Description</th>
-              <th>Card Member</th>
-              <th>Amount</th>
-              <th>Country</th>
-              <th>Reference</th>
-              <th>Action</th>
-            </tr>
-          </thead>
-          <tbody>
-            {transactions.map((txn) => (
-              <tr key={txn.id}>
-                <td>{new Date(txn.date).toLocaleDateString('en-GB')}</td>
-                <td className="description">{txn.description}</td>
-                <td>{txn.card_member}</td>
-                <td className={txn.amount < 0 ? 'negative' : 'positive'}>
-                  ${Math.abs(txn.amount).toFixed(2)}
-                </td>
-                <td>{txn.country || '—'}</td>
-                <td className="reference" title={txn.reference}>
-                  {txn.reference.substring(0, 10)}...
-                </td>
-                <td>
-                  <button
-                    onClick={() => handleDelete(txn.id)}
-                    disabled={deleting === txn.id}
-                    className="btn-delete"
-                  >
-                    {deleting === txn.id ? 'Deleting...' : 'Delete'}
-                  </button>
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+      {searchForm}
 
-      <div className="pagination">
-        <button
-          onClick={handlePreviousPage}
-          disabled={currentPage === 0}
-          className="btn btn-secondary"
-        >
-          Previous
-        </button>
-        <span className="page-info">
-          Page {currentPage + 1} of {totalPages}
-        </span>
-        <button
-          onClick={handleNextPage}
-          disabled={currentPage === totalPages - 1}
-          className="btn btn-secondary"
-        >
-          Next
-        </button>
-      </div>
+      {transactions.length === 0 ? (
+        <p>No transactions match these filters.</p>
+      ) : (
+        <>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th>Card Member</th>
+                  <th>Amount</th>
+                  <th>Country</th>
+                  <th>Reference</th>
+                  <th>Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((txn) => (
+                  <Fragment key={txn.id}>
+                    <tr>
+                      <td>{new Date(txn.date).toLocaleDateString('en-GB')}</td>
+                      <td className="description">
+                        {txn.status === 'pending' && <span className="status-pending">Pending</span>}
+                        {txn.description}
+                      </td>
+                      <td>{txn.card_member}</td>
+                      <td className={txn.amount < 0 ? 'negative' : 'positive'} title={txn.foreign_spend_amount}>
+                        {formatAmount(txn)}
+                      </td>
+                      <td>{txn.country || '—'}</td>
+                      <td className="reference" title={txn.reference}>
+                        {txn.reference.substring(0, 10)}...
+                      </td>
+                      <td>
+                        <button onClick={() => handleToggleHistory(txn)} className="btn-history">
+                          History
+                        </button>
+                        <button
+                          onClick={() => handleDelete(txn.id)}
+                          disabled={deleting === txn.id}
+                          className="btn-delete"
+                        >
+                          {deleting === txn.id ? 'Deleting...' : 'Delete'}
+                        </button>
+                      </td>
+                    </tr>
+                    {history?.id === txn.id && (
+                      <tr className="history-row">
+                        <td colSpan={7}>
+                          {history.changes.length === 0 ? (
+                            <p>No changes recorded since this transaction was imported.</p>
+                          ) : (
+                            <ul className="change-list">
+                              {history.changes.map((change) => (
+                                <li key={change.id}>
+                                  {new Date(change.changedAt).toLocaleDateString('en-GB')}{' '}
+                                  <strong>{change.field}</strong>: {change.oldValue ?? '—'} →{' '}
+                                  {change.newValue ?? '—'}
+                                  {change.importId && ` (import #${change.importId})`}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="pagination">
+            <button
+              onClick={handlePreviousPage}
+              disabled={currentPage === 0}
+              className="btn btn-secondary"
+            >
+              Previous
+            </button>
+            <span className="page-info">
+              Page {currentPage + 1} of {Math.ceil(total / ITEMS_PER_PAGE)}
+            </span>
+            <button
+              onClick={handleNextPage}
+              disabled={!nextCursor}
+              className="btn btn-secondary"
+            >
+              Next
+            </button>
+          </div>
+        </>
+      )}
     </div>
   );
 }
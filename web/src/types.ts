@@ -1,4 +1,6 @@
 // Import types from backend
+export type TransactionStatus = 'pending' | 'posted' | 'superseded';
+
 export interface AmExTransaction {
   date: string;
   dateProcessed: string;
@@ -16,6 +18,7 @@ export interface AmExTransaction {
   postcode?: string;
   country: string;
   reference: string;
+  status?: TransactionStatus;
 }
 
 export interface AmExTransactionRow {
@@ -25,10 +28,16 @@ export interface AmExTransactionRow {
   description: string;
   card_member: string;
   account_number: string;
-  amount: number;
-  foreign_spend_amount?: string;
+  amount: number; // in currency units, from amount_minor
+  amount_minor: number; // integer minor units (cents for AUD)
+  currency: string;
+  foreign_spend_amount?: string; // as written on the statement
+  foreign_amount_minor?: number; // in minor units of foreign_currency
+  foreign_currency?: string;
   commission?: string;
+  commission_minor?: number;
   exchange_rate?: string;
+  fx_rate?: number;
   additional_information?: string;
   appears_on_statement: string;
   address?: string;
@@ -41,6 +50,26 @@ export interface AmExTransactionRow {
   reconciled?: boolean;
   ynab_transaction_id?: string;
   reconciled_at?: string;
+  import_id?: number;
+  status: TransactionStatus;
+  pending_reference?: string;
+}
+
+export interface TransactionChange {
+  id: number;
+  transactionId: number;
+  reference: string;
+  importId?: number;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+}
+
+export interface ImportSource {
+  parser: string;
+  worksheet?: string;
+  headerRow?: number;
 }
 
 export interface ImportResult {
@@ -49,7 +78,94 @@ export interface ImportResult {
   importedRecords: number;
   skippedRecords: number;
   errors: ImportError[];
+  warnings?: ImportWarning[];
   timestamp: string;
+  source?: ImportSource;
+  duplicateOfImportId?: number;
+  supersededRecords?: number;
+  updatedRecords?: number;
+  statementSummary?: StatementSummary;
+  integrityErrors?: StatementIntegrityError[];
+}
+
+// Totals a statement states outside its transaction rows
+export interface StatementSummary {
+  statementBalance?: number;
+  totalAmount?: number;
+  cardMemberTotals: Array<{ cardMember: string; accountNumber?: string; total: number }>;
+}
+
+export interface StatementIntegrityError {
+  cardMember?: string;
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+export interface BatchImportResult extends ImportResult {
+  batchId: string;
+  files: Array<{ fileName: string; result: ImportResult }>;
+}
+
+export interface ImportWarning {
+  rowNumber: number;
+  message: string;
+  ruleId?: string; // set when a validation rule raised it
+  severity?: 'warning' | 'info';
+}
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+// Numeric options of a rule, such as tolerances
+export type RuleParams = Record<string, number>;
+
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  params?: RuleParams;
+}
+
+// Validation rule overrides keyed by rule ID
+export type RuleSettings = Record<string, RuleSetting>;
+
+export interface ValidationRuleInfo {
+  id: string;
+  description: string;
+  enabled: boolean;
+  severity: RuleSeverity;
+  defaultEnabled: boolean;
+  defaultSeverity: RuleSeverity;
+  params?: RuleParams;
+  defaultParams?: RuleParams;
+}
+
+export interface Ruleset {
+  version: string;
+  rules: ValidationRuleInfo[];
+}
+
+export type ImportStage = 'parsed' | 'validated' | 'deduped' | 'inserted';
+
+export interface ImportProgress {
+  stage: ImportStage;
+  fileName: string;
+  rowsRead: number;
+  totalRows: number;
+  importedRecords: number;
+  skippedRecords: number;
+}
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  status: ImportJobStatus;
+  progress?: ImportProgress;
+  result?: ImportResult | BatchImportResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ImportError {
@@ -63,8 +179,67 @@ export interface ValidationResult {
   validRecords: number;
   invalidRecords: number;
   errors: Array<{ rowNumber: number; errors: string[] }>;
+  warnings?: ImportWarning[];
+  source?: ImportSource;
+}
+
+export type StagedImportStatus = 'pending' | 'committed' | 'discarded';
+
+export interface StagedImport {
+  id: number;
+  fileName: string;
+  fileSize?: number;
+  status: StagedImportStatus;
+  source: ImportSource;
+  parseErrors: ImportError[];
+  warnings: ImportWarning[];
+  rowCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+  droppedCount: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
+export interface StagedRow {
+  id: number;
+  stagedImportId: number;
+  rowNumber: number;
+  transaction: AmExTransaction;
+  errors: string[];
+  duplicate: boolean;
+  dropped: boolean;
+}
+
+export interface StagedImportDetail extends StagedImport {
+  rows: StagedRow[];
+}
+
+export interface StagedRowChanges {
+  transaction?: Partial<AmExTransaction>;
+  dropped?: boolean;
+}
+
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD MMM YYYY';
+export type SignConvention = 'charges-positive' | 'charges-negative';
+
+export interface MappingProfile {
+  id: number;
+  name: string;
+  columns: Partial<
+    Record<'date' | 'dateProcessed' | 'description' | 'amount' | 'cardMember' | 'accountNumber' | 'status', string>
+  >;
+  referenceColumn?: string;
+  dateFormat: DateFormat;
+  signConvention: SignConvention;
+  defaults?: Partial<Record<'cardMember' | 'accountNumber' | 'country', string>>;
+  ruleSettings?: RuleSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MappingProfileInput = Omit<MappingProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
 export interface ImportLog {
   id: number;
   fileName: string;
@@ -75,6 +250,46 @@ export interface ImportLog {
   errorCount: number;
   errors?: ImportError[];
   importTimestamp: string;
+  parser?: string;
+  batchId?: string;
+  rolledBackAt?: string;
+  rolledBackRecords?: number;
+  fileHash?: string;
+  failedRowCount?: number;
+  rulesetVersion?: string;
+}
+
+// Cell values of a statement row, keyed by the transaction field each column maps to
+export type RawTransactionValues = Partial<Record<keyof AmExTransaction, string>>;
+
+export type FailedRowStage = 'parse' | 'validation';
+
+export interface FailedRow {
+  id: number;
+  importId: number;
+  rowNumber: number;
+  stage: FailedRowStage;
+  values: RawTransactionValues;
+  errors: string[];
+  profileId?: number;
+  dateFormat?: DateFormat;
+  resolvedReference?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FailedRowResubmitResult extends ImportResult {
+  rows: FailedRow[];
+}
+
+export interface RollbackResult {
+  importLogId: number;
+  deletedRecords: number;
+  reconciledRecords: number;
+  revertedRecords: number;
+  restoredRecords: number;
+  rolledBackAt: string;
 }
 
 // YNAB Types